@@ -7,34 +7,65 @@ import LiveChat from './components/LiveChat';
 import AudioTranscriber from './components/AudioTranscriber';
 import CodeEditor from './components/CodeEditor';
 import ProjectGenerator from './components/ProjectGenerator';
+import StructuredExtractor from './components/StructuredExtractor';
 import SettingsModal from './components/SettingsModal';
+import UsageDashboard from './components/UsageDashboard';
+import PromptLibrary from './components/PromptLibrary';
+import type { CodeSnippet } from './types';
 
-type Mode = 'chat' | 'image' | 'edit' | 'live' | 'transcribe' | 'code' | 'project';
+type Mode = 'chat' | 'image' | 'edit' | 'live' | 'transcribe' | 'code' | 'project' | 'extract' | 'usage';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<Mode>('project');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
+  const [codeSnippet, setCodeSnippet] = useState<CodeSnippet | null>(null);
+  // A conversation to open when switching to Chat, such as a saved voice session
+  const [chatConversationId, setChatConversationId] = useState<string | null>(null);
+
+  const openInCodeEditor = (code: string, language: string) => {
+    setCodeSnippet({ code, language });
+    setMode('code');
+  };
+
+  const openInChat = (conversationId: string) => {
+    setChatConversationId(conversationId);
+    setMode('chat');
+  };
+
+  const handleSetMode = (newMode: Mode) => {
+    setCodeSnippet(null);
+    setChatConversationId(null);
+    setMode(newMode);
+  };
 
   return (
     <div className="bg-gray-100 dark:bg-gray-950 min-h-screen text-gray-800 dark:text-gray-200 font-sans flex flex-col transition-colors duration-300">
       <Header 
         mode={mode} 
-        setMode={setMode} 
+        setMode={handleSetMode} 
         onOpenSettings={() => setIsSettingsOpen(true)} 
+        onOpenPromptLibrary={() => setIsPromptLibraryOpen(true)}
       />
       <main className="flex-grow flex flex-col items-center justify-center p-2 sm:p-4">
-        {mode === 'chat' && <Chat />}
+        {mode === 'chat' && <Chat onOpenInCodeEditor={openInCodeEditor} initialConversationId={chatConversationId} />}
         {mode === 'image' && <ImageGenerator />}
         {mode === 'edit' && <ImageEditor />}
-        {mode === 'live' && <LiveChat />}
+        {mode === 'live' && <LiveChat onOpenInChat={openInChat} />}
         {mode === 'transcribe' && <AudioTranscriber />}
-        {mode === 'code' && <CodeEditor />}
+        {mode === 'code' && <CodeEditor initialSnippet={codeSnippet} />}
         {mode === 'project' && <ProjectGenerator />}
+        {mode === 'extract' && <StructuredExtractor />}
+        {mode === 'usage' && <UsageDashboard />}
       </main>
       <SettingsModal 
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
       />
+      <PromptLibrary
+        isOpen={isPromptLibraryOpen}
+        onClose={() => setIsPromptLibraryOpen(false)}
+      />
     </div>
   );
 };
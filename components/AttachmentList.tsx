@@ -0,0 +1,67 @@
+import React from 'react';
+import type { Attachment } from '../types';
+import { formatFileSize, getAttachmentKind, toDataUrl } from '../utils/attachments';
+import { FileIcon, FileTextIcon, MicrophoneIcon, XIcon } from './Icons';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Shows a remove button on each attachment, for the composer
+  onRemove?: (id: string) => void;
+  className?: string;
+}
+
+const kindIcons = {
+  pdf: FileTextIcon,
+  audio: MicrophoneIcon,
+  text: FileIcon,
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, className = '' }) => (
+  <div className={`flex flex-wrap gap-2 ${className}`}>
+    {attachments.map(attachment => {
+      const kind = getAttachmentKind(attachment.mimeType);
+      const removeButton = onRemove && (
+        <button
+          type="button"
+          onClick={() => onRemove(attachment.id)}
+          title={`Remove ${attachment.name}`}
+          className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-700 text-white hover:bg-red-600 transition-colors"
+        >
+          <XIcon className="w-3 h-3" />
+        </button>
+      );
+
+      if (kind === 'image') {
+        return (
+          <div key={attachment.id} className="relative">
+            <img
+              src={toDataUrl(attachment)}
+              alt={attachment.name}
+              title={attachment.name}
+              className="h-20 w-20 object-cover rounded-lg border border-gray-300 dark:border-gray-600"
+            />
+            {removeButton}
+          </div>
+        );
+      }
+
+      const Icon = kindIcons[kind];
+      return (
+        <div
+          key={attachment.id}
+          title={attachment.name}
+          className="relative flex items-center gap-2 max-w-[14rem] px-3 py-2 rounded-lg bg-white/90 dark:bg-gray-700 text-gray-800 dark:text-gray-200 border border-gray-300 dark:border-gray-600"
+        >
+          <Icon className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+          <div className="min-w-0">
+            <p className="text-sm truncate">{attachment.name}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(attachment.size)}</p>
+          </div>
+          {removeButton}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default AttachmentList;
@@ -1,16 +1,55 @@
-import React, { useState, useRef } from 'react';
-import { transcribeAudio } from '../services/geminiService';
-import { MicrophoneIcon, FileTextIcon, CopyIcon } from './Icons';
+import React, { useState, useRef, useEffect } from 'react';
+import { transcribeAudio, isAbortError } from '../services/geminiService';
+import { getLatestAsset, saveAsset } from '../services/storage';
+import { MicrophoneIcon, FileTextIcon, CopyIcon, StopIcon } from './Icons';
 import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
 
 const AudioTranscriber: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [transcription, setTranscription] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The last recording is kept so a failed transcription can be retried without re-recording.
+  const lastAudioRef = useRef<{ data: string; mimeType: string } | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Show the last transcription again when coming back to this mode
+  useEffect(() => {
+    let isMounted = true;
+    getLatestAsset<string>('transcription').then(asset => {
+      if (isMounted && asset) setTranscription(current => current || asset.data);
+    });
+    return () => { isMounted = false; };
+  }, []);
+
+  const runTranscription = async (audio: { data: string; mimeType: string }) => {
+    setIsLoading(true);
+    setError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const result = await transcribeAudio(audio.data, audio.mimeType, controller.signal);
+      setTranscription(result);
+      saveAsset('transcription', result.slice(0, 60), result);
+    } catch (e: any) {
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e : 'Failed to transcribe audio.');
+      }
+    } finally {
+      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
 
   const handleStartRecording = async () => {
     setTranscription('');
@@ -28,20 +67,18 @@ const AudioTranscriber: React.FC = () => {
         setIsLoading(true);
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
         
+        stream.getTracks().forEach(track => track.stop());
         const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
-        reader.onloadend = async () => {
-          try {
-            const base64String = (reader.result as string).split(',')[1];
-            const result = await transcribeAudio(base64String, audioBlob.type);
-            setTranscription(result);
-          } catch (e: any) {
-            setError(e.message || 'Failed to transcribe audio.');
-          } finally {
-            setIsLoading(false);
-            stream.getTracks().forEach(track => track.stop());
-          }
+        reader.onload = () => {
+          lastAudioRef.current = { data: (reader.result as string).split(',')[1], mimeType: audioBlob.type };
+          runTranscription(lastAudioRef.current);
+        };
+        reader.onerror = () => {
+          console.error("Error reading the recording:", reader.error);
+          setError("Could not read the recording. Please try again.");
+          setIsLoading(false);
         };
+        reader.readAsDataURL(audioBlob);
       };
 
       mediaRecorderRef.current.start();
@@ -59,6 +96,10 @@ const AudioTranscriber: React.FC = () => {
     }
   };
 
+  const handleStopTranscription = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(transcription);
   };
@@ -100,13 +141,23 @@ const AudioTranscriber: React.FC = () => {
         </div>
       )}
 
-      {error && <p className="text-red-500 dark:text-red-400 text-center mt-4">{error}</p>}
+      {error && (
+        <ErrorMessage
+          error={error}
+          onRetry={lastAudioRef.current ? () => runTranscription(lastAudioRef.current!) : undefined}
+          onDismiss={() => setError(null)}
+          className="mt-4"
+        />
+      )}
 
       <div className="w-full h-64 sm:h-80 md:h-[450px] mt-6 bg-gray-50/50 dark:bg-gray-900/50 border-2 border-dashed border-gray-300 dark:border-gray-800 rounded-xl flex items-center justify-center overflow-hidden p-4">
         {isLoading ? (
           <div className="text-center text-gray-500 dark:text-slate-400">
             <LoadingSpinner className="w-12 h-12 mx-auto" />
             <p className="mt-4">Transcribing your audio...</p>
+            <button onClick={handleStopTranscription} className="mt-4 mx-auto flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-800 dark:text-gray-200">
+              <StopIcon className="w-4 h-4" /> Stop
+            </button>
           </div>
         ) : transcription ? (
           <div className="w-full h-full relative">
@@ -1,225 +1,800 @@
 import React, { useState, useEffect, useRef, FormEvent } from 'react';
-import type { Chat as GeminiChat } from '@google/genai';
-import { createChatSession, createFastChatSession, generateGroundedContent, generateComplexContent, generateSpeech } from '../services/geminiService';
-import { decode, decodeAudioData } from '../utils/audioUtils';
-import type { ChatMessage, Conversation } from '../types';
+import type { Content, PartListUnion } from '@google/genai';
+import {
+  createModeChatSession, generateConversationTitle, getGrounding, getReplyText, getThoughtText, isAbortError,
+  streamChatMessage, streamChatWithTools, summarizeConversation, confirmOverBudget,
+} from '../services/geminiService';
+import { CHAT_TOOLS, getToolPreference, runToolCall, toFunctionDeclarations } from '../services/tools';
+import { recordVote } from '../services/comparisonVotes';
+import { getBudgetWarning } from '../services/usageLedger';
+import { createSpeechPlayer, SpeechPlayer, SpeechPlayerState } from '../services/speechPlayer';
+import type { Attachment, ChatMessage, ChatMode, Compaction, Conversation, MessageNode, Persona, ToolCall } from '../types';
+import { ATTACHMENT_ACCEPT, readFileAsAttachment, toMessageParts } from '../utils/attachments';
+import { appendContinuationGrounding, insertCitationMarkers } from '../utils/citations';
+import { findActiveCompaction, findCompactionPoint, toTranscript } from '../utils/compaction';
+import { mergeConversations } from '../utils/conversationExport';
+import { splitSentences, takeSentences } from '../utils/speechText';
+import {
+  GREETING, createConversation, createMessageId, getActivePath, getPathTo, addMessage, updateMessage,
+  removeMessage, getSiblings, selectSibling, selectPathTo, setCompaction, toChatHistory,
+} from '../utils/conversationTree';
+import { loadConversations, saveConversation, deleteConversation, flushPendingSaves } from '../services/storage';
 import { useSettings } from '../contexts/SettingsContext';
-import { BotIcon, UserIcon, SendIcon, SearchIcon, LinkIcon, BrainIcon, ZapIcon, SpeakerIcon } from './Icons';
+import { usePersonas } from '../contexts/PersonaContext';
+import { DEFAULT_PERSONA, toPersonaContext } from '../services/personas';
+import { BotIcon, UserIcon, SendIcon, SearchIcon, LinkIcon, BrainIcon, ZapIcon, SpeakerIcon, StopIcon, EditIcon, RefreshIcon, ChevronLeftIcon, ChevronRightIcon, PaperclipIcon, ColumnsIcon, PlayIcon, SkipForwardIcon } from './Icons';
 import LoadingSpinner from './LoadingSpinner';
 import ConversationHistory from './ConversationHistory';
+import ComparisonView, { ComparisonColumn } from './ComparisonView';
+import CompareSlotsEditor from './CompareSlotsEditor';
+import PersonaManager from './PersonaManager';
+import ErrorMessage from './ErrorMessage';
+import AttachmentList from './AttachmentList';
+import DictationButton from './DictationButton';
+import VoiceSessionBanner from './VoiceSessionBanner';
+import ToolCallCard from './ToolCallCard';
+import SlashCommands from './SlashCommands';
+import Markdown from './Markdown';
 
-const Chat: React.FC = () => {
-  const { defaultChatMode } = useSettings();
+interface ChatProps {
+  onOpenInCodeEditor?: (code: string, language: string) => void;
+  // Shown once conversations have loaded
+  initialConversationId?: string | null;
+}
+
+// What to repeat when the user retries a failed request.
+type RetryableRequest =
+  | { kind: 'send'; text: string; attachments: Attachment[] }
+  | { kind: 'edit'; nodeId: string; text: string }
+  | { kind: 'regenerate'; nodeId: string }
+  | { kind: 'continue'; nodeId: string };
+
+interface ReplyRequest {
+  conversationId: string;
+  // The user message being answered
+  parentId: string;
+  prompt: PartListUnion;
+  // The branch before the prompt
+  history: Content[];
+  persona: Persona;
+  // Messages added optimistically for this request, dropped again if it fails
+  pendingIds: string[];
+  isNewConversation: boolean;
+  retry: RetryableRequest;
+  onCancel?: () => void;
+  // An incomplete reply to extend instead of adding a new one
+  continueId?: string;
+}
+
+// Sent after an incomplete reply; the model's answer is appended to it.
+const CONTINUE_PROMPT = 'Your previous response was cut off. Continue it from exactly where it stopped, without repeating anything or adding a preamble.';
+
+// Replies to one prompt streaming side by side, until the user picks one
+interface PendingComparison {
+  conversationId: string;
+  parentId: string;
+  pendingIds: string[];
+  isNewConversation: boolean;
+  columns: ComparisonColumn[];
+}
+
+interface CompactionDividerProps {
+  compaction: Compaction;
+  // Whether this is the summary sent in place of the messages above it
+  isInEffect: boolean;
+  onToggle: () => void;
+}
+
+const CompactionDivider: React.FC<CompactionDividerProps> = ({ compaction, isInEffect, onToggle }) => (
+  <div className="flex flex-col gap-2 text-xs text-gray-500 dark:text-gray-400">
+    <div className="flex items-center gap-3">
+      <div className="flex-grow border-t border-dashed border-gray-300 dark:border-gray-700" />
+      <span>
+        {compaction.disabled
+          ? `Summary of ${compaction.messageCount} earlier messages undone`
+          : `${compaction.messageCount} earlier messages summarized${isInEffect ? '' : ' (superseded)'}`}
+      </span>
+      <button onClick={onToggle} className="text-red-600 dark:text-red-400 hover:underline">
+        {compaction.disabled ? 'Use summary' : 'Undo'}
+      </button>
+      <div className="flex-grow border-t border-dashed border-gray-300 dark:border-gray-700" />
+    </div>
+    {!compaction.disabled && (
+      <details className="mx-auto max-w-xl w-full rounded-lg border border-gray-200 dark:border-gray-700">
+        <summary className="px-3 py-2 cursor-pointer select-none">What the model is sent instead</summary>
+        <Markdown text={compaction.summary} className="px-3 pb-3 text-sm text-gray-600 dark:text-gray-400" />
+      </details>
+    )}
+  </div>
+);
+
+const WELCOME_MESSAGE: MessageNode = { id: 'welcome', parentId: null, childIds: [], selectedChildId: null, role: 'model', text: GREETING };
+
+const Chat: React.FC<ChatProps> = ({ onOpenInCodeEditor, initialConversationId }) => {
+  const { defaultChatMode, showThoughts, compactionThreshold, compareSlots, setCompareSlots, toolPreferences, speechVoice } = useSettings();
+  const { personas, getPersona } = usePersonas();
 
-  const [chat, setChat] = useState<GeminiChat | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  // The persona new conversations start with
+  const [newConversationPersonaId, setNewConversationPersonaId] = useState(DEFAULT_PERSONA.id);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
 
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
+  const [failedRequest, setFailedRequest] = useState<RetryableRequest | null>(null);
+  // A reply that just finished streaming, to title and compact its conversation
+  const [settledReply, setSettledReply] = useState<{ conversationId: string; isNewConversation: boolean } | null>(null);
+  const [compactingConversationId, setCompactingConversationId] = useState<string | null>(null);
+
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  // A message opened from a search result, scrolled to and outlined
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   
   const [useSearch, setUseSearch] = useState(defaultChatMode === 'search');
   const [useThinkingMode, setUseThinkingMode] = useState(defaultChatMode === 'thinking');
   const [useFastMode, setUseFastMode] = useState(defaultChatMode === 'fast');
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [comparison, setComparison] = useState<PendingComparison | null>(null);
 
-  const [speakingState, setSpeakingState] = useState<{ index: number | null; isLoading: boolean }>({ index: null, isLoading: false });
+  const [speech, setSpeech] = useState<SpeechPlayerState>({ key: null, isLoading: false });
+  // Whether the next new conversation reads its replies aloud
+  const [newConversationAutoSpeak, setNewConversationAutoSpeak] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const highlightedMessageRef = useRef<HTMLDivElement>(null);
+  const speechPlayerRef = useRef<SpeechPlayer | null>(null);
+  const speechVoiceRef = useRef(speechVoice);
+  speechVoiceRef.current = speechVoice;
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Titling and compaction run in the background; they are cancelled when leaving the chat
+  const backgroundControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The conversations as last written to storage, to find the ones that changed
+  const persistedConversationsRef = useRef<Conversation[] | null>(null);
+
+  // Cancel any in-flight request and stop speaking when leaving the chat
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      speechPlayerRef.current?.close();
+      backgroundControllerRef.current?.abort();
+      backgroundControllerRef.current = null;
+    };
+  }, []);
   
-  // Load conversations from local storage on mount
+  // Load conversations from storage on mount
   useEffect(() => {
-    try {
-        const saved = localStorage.getItem('gemini-studio-conversations');
-        if (saved) {
-            setConversations(JSON.parse(saved));
+    let isMounted = true;
+    loadConversations()
+      .then(saved => {
+        if (!isMounted) return;
+        persistedConversationsRef.current = saved;
+        setConversations(saved);
+        if (initialConversationId && saved.some(c => c.id === initialConversationId)) {
+          setActiveConversationId(initialConversationId);
         }
-    } catch (e) {
+      })
+      .catch(e => {
         console.error("Failed to load conversations:", e);
-    }
+        persistedConversationsRef.current = [];
+      });
+    return () => {
+      isMounted = false;
+      flushPendingSaves();
+    };
   }, []);
 
-  // Save conversations to local storage whenever they change
+  // Write only the conversations that changed. Updates always replace a changed
+  // conversation object, so comparing references is enough.
   useEffect(() => {
-    try {
-        localStorage.setItem('gemini-studio-conversations', JSON.stringify(conversations));
-    } catch (e) {
-        console.error("Failed to save conversations:", e);
+    const persisted = persistedConversationsRef.current;
+    if (!persisted) return; // Still loading
+    persistedConversationsRef.current = conversations;
+    const previous = new Map<string, Conversation>(persisted.map(c => [c.id, c]));
+    for (const conversation of conversations) {
+      if (previous.get(conversation.id) !== conversation) saveConversation(conversation);
+      previous.delete(conversation.id);
     }
+    previous.forEach((_, id) => deleteConversation(id));
   }, [conversations]);
-
-  // Effect to initialize or re-initialize chat session based on active conversation
+  
   useEffect(() => {
-    try {
-      const activeConv = conversations.find(c => c.id === activeConversationId);
-      const history = activeConv?.messages.slice(1).map(msg => ({
-          role: msg.role,
-          parts: [{ text: msg.text }]
-      })) || [];
-
-      const session = useFastMode ? createFastChatSession(history) : createChatSession(history);
-      setChat(session);
-    } catch (e: any) {
-      setError(e.message || "Failed to initialize chat session.");
+    if (highlightedMessageId) {
+      highlightedMessageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [activeConversationId, useFastMode, conversations]);
-  
+  }, [conversations, activeConversationId, isLoading, highlightedMessageId, comparison]);
+
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [conversations, activeConversationId, isLoading]);
+    if (!settledReply) return;
+    setSettledReply(null);
+    const conversation = conversations.find(c => c.id === settledReply.conversationId);
+    // Background requests never ask to go over a usage budget; they wait until it's clear
+    if (!conversation || getBudgetWarning()) return;
+    if (settledReply.isNewConversation) titleConversation(conversation);
+    if (compactingConversationId !== conversation.id) compactConversation(conversation);
+  }, [settledReply]);
 
   const activeConversation = conversations.find(c => c.id === activeConversationId);
-  const messages = activeConversation?.messages || [{ role: 'model', text: 'Hello! How can I help you today?' }];
+  const messages = activeConversation ? getActivePath(activeConversation) : [WELCOME_MESSAGE];
+  const activeCompactionIndex = findActiveCompaction(messages);
+  const pickerPersonaId = activeConversation ? getPersona(activeConversation.personaId).id : newConversationPersonaId;
+  // The conversation can't continue until one of the compared answers is picked
+  const isAwaitingPick = !!comparison && comparison.conversationId === activeConversationId;
+  const isBusy = isLoading || isAwaitingPick;
   
   const getPlaceholderText = () => {
+      if (isAwaitingPick) return "Pick an answer to continue...";
+      if (isCompareMode) return "Ask every column the same question...";
       if (useThinkingMode) return "Ask a complex question...";
       if (useSearch) return "Ask about current events...";
       if (useFastMode) return "Ask a quick question...";
       return "Type your message...";
   }
 
-  const handleSendMessage = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  const updateConversation = (id: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => c.id === id ? update(c) : c));
+  };
 
-    setIsLoading(true);
-    setError(null);
-    const userMessage: ChatMessage = { role: 'user', text: input };
-    const currentInput = input;
-    setInput('');
-
-    let conversationId = activeConversationId;
-    let isNewConversation = false;
-
-    if (!conversationId) {
-        isNewConversation = true;
-        conversationId = Date.now().toString();
-        const newConversation: Conversation = {
-            id: conversationId,
-            title: currentInput.length > 40 ? currentInput.substring(0, 37) + '...' : currentInput,
-            messages: [messages[0], userMessage],
-            timestamp: Date.now()
-        };
-        setConversations(prev => [...prev, newConversation]);
-        setActiveConversationId(conversationId);
+  const getChatMode = (): ChatMode =>
+    useSearch ? 'search' : useThinkingMode ? 'thinking' : useFastMode ? 'fast' : 'standard';
+
+  // Drops the messages added optimistically for a request that failed or was cancelled.
+  const revertPendingMessages = (conversationId: string, ids: string[], isNewConversation: boolean) => {
+    if (isNewConversation) {
+      setConversations(prev => prev.filter(c => c.id !== conversationId));
+      setActiveConversationId(current => current === conversationId ? null : current);
     } else {
-        setConversations(prev => prev.map(c => 
-            c.id === conversationId ? { ...c, messages: [...c.messages, userMessage], timestamp: Date.now() } : c
-        ));
+      updateConversation(conversationId, c => ids.reduce((conversation, id) => removeMessage(conversation, id), c));
     }
+  };
 
-    const handleError = (err: any) => {
-        setError(err.message || 'An error occurred. Please try again.');
-        // Revert optimistic UI update
-        if (isNewConversation) {
-            setConversations(prev => prev.filter(c => c.id !== conversationId));
-            setActiveConversationId(null);
-        } else {
-            setConversations(prev => prev.map(c => 
-                c.id === conversationId ? { ...c, messages: c.messages.slice(0, -1) } : c
-            ));
-        }
+  const getBackgroundSignal = () => {
+    backgroundControllerRef.current ??= new AbortController();
+    return backgroundControllerRef.current.signal;
+  };
+
+  // Replaces the truncated first message with a title written by the model,
+  // unless the user has renamed the conversation in the meantime.
+  const titleConversation = async (conversation: Conversation) => {
+    try {
+      const { title, summary } = await generateConversationTitle(toTranscript(getActivePath(conversation).slice(1)), getBackgroundSignal());
+      updateConversation(conversation.id, c => ({ ...c, title: c.title === conversation.title ? title : c.title, summary }));
+    } catch (e) {
+      if (!isAbortError(e)) console.error("Failed to title conversation:", e);
+    }
+  };
+
+  // Summarizes the older turns of the active branch once it passes the compaction threshold.
+  const compactConversation = async (conversation: Conversation) => {
+    const path = getActivePath(conversation);
+    const point = findCompactionPoint(path, compactionThreshold);
+    if (point === null) return;
+    // The new summary builds on the one in effect, which already covers the messages before it
+    const previous = findActiveCompaction(path);
+    setCompactingConversationId(conversation.id);
+    try {
+      const summary = await summarizeConversation(
+        toTranscript(path.slice(Math.max(1, previous + 1), point + 1)),
+        path[previous]?.compaction?.summary,
+        getBackgroundSignal()
+      );
+      updateConversation(conversation.id, c => setCompaction(c, path[point].id, { summary, messageCount: point, createdAt: Date.now() }));
+    } catch (e) {
+      if (!isAbortError(e)) console.error("Failed to summarize conversation:", e);
+    } finally {
+      setCompactingConversationId(current => current === conversation.id ? null : current);
+    }
+  };
+
+  const toggleCompaction = (node: MessageNode) => {
+    if (!activeConversation || !node.compaction) return;
+    const compaction = { ...node.compaction, disabled: !node.compaction.disabled || undefined };
+    updateConversation(activeConversation.id, c => setCompaction(c, node.id, compaction));
+  };
+
+  // Asks the model to answer `prompt` and adds the reply as a new branch under `parentId`.
+  // A reply that stops partway is kept and marked incomplete, so it can be continued.
+  const requestReply = async ({ conversationId, parentId, prompt, history: branchHistory, persona, pendingIds, isNewConversation, retry, onCancel, continueId }: ReplyRequest) => {
+    setIsLoading(true);
+    setError(null);
+    setFailedRequest(null);
+    setHighlightedMessageId(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const replyId = continueId ?? createMessageId();
+
+    const addReply = (message: ChatMessage) => {
+        updateConversation(conversationId, c => ({ ...addMessage(c, parentId, message, replyId), timestamp: Date.now() }));
     };
-    
-    const appendMessage = (message: ChatMessage) => {
-        setConversations(prev => prev.map(c => 
-            c.id === conversationId ? { ...c, messages: [...c.messages, message] } : c
-        ));
+
+    // Sentences are spoken as soon as they are complete; the rest waits for more text
+    const autoSpeak = isNewConversation ? newConversationAutoSpeak : !!conversations.find(c => c.id === conversationId)?.autoSpeak;
+    let unspokenText = '';
+    const speakReply = (text: string, final = false) => {
+      if (!autoSpeak) return;
+      const { sentences, rest } = takeSentences(unspokenText + text, final);
+      unspokenText = rest;
+      if (sentences.length > 0) getSpeechPlayer().enqueue(replyId, sentences);
     };
 
-    if (useSearch) {
+    try {
+      // Every mode streams into a placeholder reply and is sent the active branch as history,
+      // after the persona's reference documents
+      const history = [...toPersonaContext(persona), ...branchHistory];
+      const tools = CHAT_TOOLS.filter(tool => getToolPreference(tool, toolPreferences).enabled);
+      const { session, mode } = createModeChatSession(getChatMode(), history, persona, showThoughts, toFunctionDeclarations(tools));
+      const runTool = (call: ToolCall) => runToolCall(call, {
+        preferences: toolPreferences,
+        context: { conversations, signal: controller.signal },
+        confirm: (tool, args) => window.confirm(`Let the model run ${tool.label}?\n\n${JSON.stringify(args, null, 2)}`),
+      });
+      let hasOutput = !!continueId;
+      // A continued reply's grounding is added to what the first part already cited
+      const continued = continueId ? conversations.find(c => c.id === conversationId)?.nodes[continueId] : undefined;
+      if (continueId) {
+        updateConversation(conversationId, c => updateMessage(c, replyId, () => ({ incomplete: undefined })));
+      } else {
+        addReply({ role: 'model', text: '' }); // Placeholder for streaming
+      }
       try {
-        const result = await generateGroundedContent(currentInput);
-        appendMessage({ role: 'model', text: result.text, sources: result.sources });
-      } catch (e: any) { handleError(e); } finally { setIsLoading(false); }
-    } else if (useThinkingMode) {
-        try {
-            const resultText = await generateComplexContent(currentInput);
-            appendMessage({ role: 'model', text: resultText });
-        } catch (e: any) { handleError(e); } finally { setIsLoading(false); }
-    } else {
-      if (!chat) {
-        setError("Chat session not initialized.");
-        setIsLoading(false);
+        for await (const event of streamChatWithTools(session, prompt, mode, runTool, controller.signal)) {
+          if (event.type === 'tool-call') {
+            // Each call arrives once when it starts and again with its result
+            const { call } = event;
+            updateConversation(conversationId, c => updateMessage(c, replyId, node => ({
+              toolCalls: node.toolCalls?.some(existing => existing.id === call.id)
+                ? node.toolCalls.map(existing => existing.id === call.id ? call : existing)
+                : [...(node.toolCalls ?? []), call],
+            })));
+            hasOutput = true;
+            continue;
+          }
+          const { chunk } = event;
+          const chunkText = getReplyText(chunk);
+          const thoughtText = getThoughtText(chunk);
+          const grounding = getGrounding(chunk);
+          hasOutput ||= !!chunkText;
+          speakReply(chunkText);
+          updateConversation(conversationId, c => ({
+            ...updateMessage(c, replyId, node => ({
+              text: node.text + chunkText,
+              ...(thoughtText && { thoughts: (node.thoughts ?? '') + thoughtText }),
+              ...(grounding && (continued ? appendContinuationGrounding(continued, grounding) : { sources: grounding.sources, citations: grounding.citations })),
+            })),
+            timestamp: Date.now(),
+          }));
+        }
+      } catch (e) {
+        if (!hasOutput) throw e;
+        // Keep what streamed in before the reply stopped
+        const stopped = isAbortError(e);
+        speakReply('', true);
+        updateConversation(conversationId, c => updateMessage(c, replyId, () => ({ incomplete: stopped ? 'stopped' : 'failed' })));
+        if (!stopped) {
+          setError(e instanceof Error ? e : 'An error occurred. Please try again.');
+          setFailedRequest({ kind: 'continue', nodeId: replyId });
+        }
         return;
       }
+      speakReply('', true);
+      setSettledReply({ conversationId, isNewConversation });
+    } catch (e: any) {
+      revertPendingMessages(conversationId, [replyId, ...pendingIds], isNewConversation);
+      if (isAbortError(e)) {
+        // Stopped before anything arrived
+        onCancel?.();
+      } else {
+        setError(e instanceof Error ? e : 'An error occurred. Please try again.');
+        setFailedRequest(retry);
+      }
+    } finally {
+      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+      }
+    }
+  };
+
+  // Sends the prompt to every configured column at once. Nothing is added to the
+  // conversation until the user picks an answer.
+  const requestComparison = async ({ conversationId, parentId, prompt, history: branchHistory, persona, pendingIds, isNewConversation, retry, onCancel }: ReplyRequest) => {
+    // Asked once for all the columns; declining works like pressing Stop before anything arrived
+    if (!confirmOverBudget()) {
+      revertPendingMessages(conversationId, pendingIds, isNewConversation);
+      onCancel?.();
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setFailedRequest(null);
+    setHighlightedMessageId(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const history = [...toPersonaContext(persona), ...branchHistory];
+    const requests = compareSlots.map(slot => ({
+      slot,
+      // A column's model replaces the persona's as well as the mode's
+      ...createModeChatSession(slot.mode, history, slot.model ? { ...persona, model: slot.model } : persona, showThoughts),
+    }));
+    setComparison({
+      conversationId, parentId, pendingIds, isNewConversation,
+      columns: requests.map(({ slot, session }) => ({ slot, model: session.model, text: '', status: 'streaming' })),
+    });
+
+    const updateColumn = (index: number, update: (column: ComparisonColumn) => Partial<ComparisonColumn>) => {
+      setComparison(prev => prev && {
+        ...prev,
+        columns: prev.columns.map((column, i) => i === index ? { ...column, ...update(column) } : column),
+      });
+    };
+
+    const results = await Promise.all(requests.map(async ({ session, mode }, index) => {
+      const startedAt = performance.now();
+      const elapsed = () => Math.round(performance.now() - startedAt);
+      let receivedText = '';
       try {
-        appendMessage({ role: 'model', text: '' }); // Placeholder for streaming
-        const stream = await chat.sendMessageStream({ message: currentInput });
-
-        for await (const chunk of stream) {
-          const chunkText = chunk.text;
-          setConversations(prev => prev.map(c => {
-              if (c.id === conversationId) {
-                  const newMessages = [...c.messages];
-                  newMessages[newMessages.length - 1].text += chunkText;
-                  return { ...c, messages: newMessages, timestamp: Date.now() };
-              }
-              return c;
+        for await (const chunk of streamChatMessage(session, prompt, mode, controller.signal, { confirmBudget: false })) {
+          const chunkText = chunk.text ?? '';
+          const thoughtText = getThoughtText(chunk);
+          const grounding = getGrounding(chunk);
+          const usage = chunk.usageMetadata;
+          receivedText += chunkText;
+          updateColumn(index, column => ({
+            text: column.text + chunkText,
+            firstChunkMs: column.firstChunkMs ?? elapsed(),
+            ...(thoughtText && { thoughts: (column.thoughts ?? '') + thoughtText }),
+            ...(grounding && { sources: grounding.sources, citations: grounding.citations }),
+            ...(usage && {
+              promptTokens: usage.promptTokenCount,
+              outputTokens: usage.candidatesTokenCount ?? 0,
+              thinkingTokens: usage.thoughtsTokenCount,
+            }),
           }));
         }
+        updateColumn(index, () => ({ status: 'done', latencyMs: elapsed() }));
+        return { hasText: !!receivedText };
       } catch (e) {
-        handleError(e);
-      } finally {
-        setIsLoading(false);
+        if (isAbortError(e)) {
+          updateColumn(index, () => ({ status: 'stopped', latencyMs: elapsed() }));
+          return { hasText: !!receivedText };
+        }
+        const error = e instanceof Error ? e : new Error('An error occurred. Please try again.');
+        updateColumn(index, () => ({ status: 'failed', error }));
+        return { hasText: false, error };
       }
+    }));
+
+    setIsLoading(false);
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+    }
+    if (results.some(result => result.hasText)) return;
+
+    // Nothing to pick from
+    setComparison(null);
+    revertPendingMessages(conversationId, pendingIds, isNewConversation);
+    const failure = results.find(result => result.error);
+    if (failure?.error && !controller.signal.aborted) {
+      setError(failure.error);
+      setFailedRequest(retry);
+    } else {
+      onCancel?.();
     }
   };
 
-  const handleSpeak = async (text: string, index: number) => {
-    if (speakingState.index !== null) {
-      if (audioSourceRef.current) {
-        audioSourceRef.current.stop();
-      }
-      setSpeakingState({ index: null, isLoading: false });
-      if (speakingState.index === index) return;
+  // Continues the conversation with the picked answer. The other answers are added
+  // as alternative versions of the reply.
+  const pickComparisonAnswer = (index: number) => {
+    if (!comparison) return;
+    const { conversationId, parentId, columns, isNewConversation } = comparison;
+    const answers = columns
+      .map((column, i) => ({ column, index: i, id: createMessageId() }))
+      .filter(({ column }) => column.text);
+    const picked = answers.find(answer => answer.index === index);
+    if (!picked) return;
+
+    updateConversation(conversationId, c => ({
+      ...selectPathTo(
+        answers.reduce((conversation, { column, id }) => addMessage(conversation, parentId, {
+          role: 'model',
+          text: column.text,
+          ...(column.thoughts && { thoughts: column.thoughts }),
+          ...(column.sources && { sources: column.sources, citations: column.citations }),
+          ...((column.status === 'stopped' || column.status === 'failed') && { incomplete: column.status }),
+        }, id), c),
+        picked.id
+      ),
+      timestamp: Date.now(),
+    }));
+    if (answers.length > 1) {
+      recordVote({
+        contenders: answers.map(({ column }) => ({ mode: column.slot.mode, model: column.model })),
+        winner: answers.indexOf(picked),
+      });
     }
-  
-    setSpeakingState({ index, isLoading: true });
+    setComparison(null);
+    setSettledReply({ conversationId, isNewConversation });
+  };
+
+  const discardComparison = () => {
+    if (!comparison) return;
+    revertPendingMessages(comparison.conversationId, comparison.pendingIds, comparison.isNewConversation);
+    setComparison(null);
+  };
+
+  const sendMessage = (currentInput: string, currentAttachments: Attachment[], fromComposer: boolean) => {
+    if ((!currentInput.trim() && currentAttachments.length === 0) || isBusy) return;
+    if (fromComposer) {
+        setInput('');
+        setAttachments([]);
+    }
+
+    const userMessage: ChatMessage = { role: 'user', text: currentInput };
+    if (currentAttachments.length > 0) userMessage.attachments = currentAttachments;
+    const title = currentInput.trim() || currentAttachments[0].name;
+    const isNewConversation = !activeConversation;
+    const conversation = activeConversation ?? {
+        ...createConversation(title.length > 40 ? title.substring(0, 37) + '...' : title),
+        ...(newConversationPersonaId !== DEFAULT_PERSONA.id && { personaId: newConversationPersonaId }),
+        ...(newConversationAutoSpeak && { autoSpeak: true }),
+    };
+    const path = getActivePath(conversation);
+    const userId = createMessageId();
+    const withMessage = (c: Conversation) => ({
+        ...addMessage(c, path[path.length - 1].id, userMessage, userId),
+        timestamp: Date.now(),
+    });
+
+    if (isNewConversation) {
+        setConversations(prev => [...prev, withMessage(conversation)]);
+        setActiveConversationId(conversation.id);
+    } else {
+        updateConversation(conversation.id, withMessage);
+    }
+
+    (isCompareMode ? requestComparison : requestReply)({
+      conversationId: conversation.id,
+      parentId: userId,
+      prompt: toMessageParts(userMessage),
+      history: toChatHistory(path),
+      persona: getPersona(conversation.personaId),
+      pendingIds: [userId],
+      isNewConversation,
+      retry: { kind: 'send', text: currentInput, attachments: currentAttachments },
+      // Give the prompt back so it can be tweaked and resent
+      onCancel: () => {
+        setInput(currentInput);
+        setAttachments(currentAttachments);
+      },
+    });
+  };
+
+  // Resends an edited user message as a new branch next to the original.
+  const editMessage = (nodeId: string, text: string) => {
+    const original = activeConversation?.nodes[nodeId];
+    if (!activeConversation || !original?.parentId || (!text.trim() && !original.attachments?.length) || isBusy) return;
+
+    const parentId = original.parentId;
+    const userId = createMessageId();
+    // The edited message keeps the original's attachments
+    const userMessage: ChatMessage = { role: 'user', text };
+    if (original.attachments) userMessage.attachments = original.attachments;
+    updateConversation(activeConversation.id, c => ({
+        ...addMessage(c, parentId, userMessage, userId),
+        timestamp: Date.now(),
+    }));
+    setEditingNodeId(null);
+
+    requestReply({
+      conversationId: activeConversation.id,
+      parentId: userId,
+      prompt: toMessageParts(userMessage),
+      history: toChatHistory(getPathTo(activeConversation, parentId)),
+      persona: getPersona(activeConversation.personaId),
+      pendingIds: [userId],
+      isNewConversation: false,
+      retry: { kind: 'edit', nodeId, text },
+    });
+  };
+
+  // Asks again for a model reply, keeping the earlier reply as a sibling branch.
+  const regenerateReply = (nodeId: string) => {
+    const reply = activeConversation?.nodes[nodeId];
+    const userMessage = reply?.parentId ? activeConversation?.nodes[reply.parentId] : undefined;
+    if (!activeConversation || !userMessage?.parentId || userMessage.role !== 'user' || isBusy) return;
+
+    requestReply({
+      conversationId: activeConversation.id,
+      parentId: userMessage.id,
+      prompt: toMessageParts(userMessage),
+      history: toChatHistory(getPathTo(activeConversation, userMessage.parentId)),
+      persona: getPersona(activeConversation.personaId),
+      pendingIds: [],
+      isNewConversation: false,
+      retry: { kind: 'regenerate', nodeId },
+    });
+  };
+
+  // Asks the model to finish an incomplete reply, appending to it.
+  const continueReply = (nodeId: string) => {
+    const reply = activeConversation?.nodes[nodeId];
+    if (!activeConversation || !reply?.parentId || !reply.incomplete || isBusy) return;
+
+    requestReply({
+      conversationId: activeConversation.id,
+      parentId: reply.parentId,
+      prompt: CONTINUE_PROMPT,
+      history: toChatHistory(getPathTo(activeConversation, nodeId)),
+      persona: getPersona(activeConversation.personaId),
+      pendingIds: [],
+      isNewConversation: false,
+      retry: { kind: 'continue', nodeId },
+      continueId: nodeId,
+    });
+  };
+
+  const handleSendMessage = (e: FormEvent) => {
+    e.preventDefault();
+    sendMessage(input, attachments, true);
+  };
+
+  const addAttachments = async (files: File[]) => {
+    if (files.length === 0) return;
+    const results = await Promise.allSettled(files.map(readFileAsAttachment));
+    const added = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    setAttachments(prev => [...prev, ...added]);
+    if (failures.length > 0) {
+      setError(failures[0] instanceof Error ? failures[0] : 'Failed to attach the file.');
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addAttachments(e.target.files ? [...e.target.files] : []);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = [...e.clipboardData.files];
+    if (files.length > 0) {
+      e.preventDefault();
+      addAttachments(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore moves between child elements
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isBusy) addAttachments([...e.dataTransfer.files]);
+  };
+
+  const handleRetry = () => {
+    if (!failedRequest) return;
+    switch (failedRequest.kind) {
+      case 'send': sendMessage(failedRequest.text, failedRequest.attachments, false); break;
+      case 'edit': editMessage(failedRequest.nodeId, failedRequest.text); break;
+      case 'regenerate': regenerateReply(failedRequest.nodeId); break;
+      case 'continue': continueReply(failedRequest.nodeId); break;
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const startEditing = (node: MessageNode) => {
+    setEditingNodeId(node.id);
+    setEditText(node.text);
+  };
+
+  const handleSwitchBranch = (nodeId: string, offset: number) => {
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => selectSibling(c, nodeId, offset));
+    }
+  };
+
+  // Created on first use, since browsers only allow audio after a user gesture
+  const getSpeechPlayer = () => {
+    if (!speechPlayerRef.current) {
+      speechPlayerRef.current = createSpeechPlayer({
+        getVoice: () => speechVoiceRef.current,
+        onStateChange: setSpeech,
+        onError: e => setError(e instanceof Error ? e : "Failed to generate audio."),
+      });
+    }
+    return speechPlayerRef.current;
+  };
+
+  // Reads a message aloud, or stops if it is the one being read
+  const handleSpeak = (node: MessageNode) => {
+    const player = getSpeechPlayer();
+    const isSpeaking = speech.key === node.id;
+    player.stop();
+    if (isSpeaking) return;
     setError(null);
-  
-    try {
-      const base64Audio = await generateSpeech(text);
-      if (!audioCtxRef.current || audioCtxRef.current.state === 'closed') {
-        audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      }
-      const audioCtx = audioCtxRef.current;
-      await audioCtx.resume();
-  
-      const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtx, 24000, 1);
-      const source = audioCtx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioCtx.destination);
-      source.onended = () => {
-        setSpeakingState({ index: null, isLoading: false });
-        audioSourceRef.current = null;
-      };
-      source.start(0);
-      audioSourceRef.current = source;
-      setSpeakingState({ index, isLoading: false });
-    } catch (e: any) {
-      setError(e.message || "Failed to generate audio.");
-      setSpeakingState({ index: null, isLoading: false });
+    player.enqueue(node.id, splitSentences(node.text));
+  };
+
+  const handleToggleAutoSpeak = (enabled: boolean) => {
+    if (activeConversation) {
+      updateConversation(activeConversation.id, c => ({ ...c, autoSpeak: enabled || undefined }));
+    } else {
+      setNewConversationAutoSpeak(enabled);
     }
+    if (!enabled) speechPlayerRef.current?.stop();
   };
-  
+
+  const handleDictation = (text: string) => {
+    if (!text) return;
+    setInput(prev => prev.trim() ? `${prev.trimEnd()} ${text}` : text);
+  };
+
+  const applyChatMode = (mode: ChatMode) => {
+    setUseSearch(mode === 'search');
+    setUseThinkingMode(mode === 'thinking');
+    setUseFastMode(mode === 'fast');
+  };
+
   const handleNewConversation = () => {
     setActiveConversationId(null);
-    setUseSearch(defaultChatMode === 'search');
-    setUseThinkingMode(defaultChatMode === 'thinking');
-    setUseFastMode(defaultChatMode === 'fast');
+    setEditingNodeId(null);
+    setHighlightedMessageId(null);
+    setAttachments([]);
+    applyChatMode(getPersona(newConversationPersonaId).chatMode ?? defaultChatMode);
+  };
+
+  const handleSelectPersona = (id: string) => {
+    setNewConversationPersonaId(id);
+    applyChatMode(getPersona(id).chatMode ?? defaultChatMode);
   };
 
-  const handleSelectConversation = (id: string) => setActiveConversationId(id);
+  const handleSelectConversation = (id: string, messageId?: string) => {
+      setActiveConversationId(id);
+      setEditingNodeId(null);
+      setHighlightedMessageId(messageId ?? null);
+      if (messageId) {
+          // The match may be on a branch that isn't being shown
+          updateConversation(id, c => selectPathTo(c, messageId));
+      }
+  };
+
+  const handleUpdateConversation = (id: string, changes: Partial<Conversation>) => {
+      updateConversation(id, c => ({ ...c, ...changes }));
+  };
   const handleDeleteConversation = (id: string) => {
       setConversations(prev => prev.filter(c => c.id !== id));
+      setComparison(current => current?.conversationId === id ? null : current);
       if (activeConversationId === id) {
           setActiveConversationId(null);
       }
   };
 
+  const handleImportConversations = (imported: Conversation[]) => {
+      const { conversations: merged, ...counts } = mergeConversations(conversations, imported);
+      setConversations(merged);
+      return counts;
+  };
+
   const toggleSearch = () => setUseSearch(p => { if(!p){setUseThinkingMode(false);setUseFastMode(false);} return !p; });
   const toggleThinkingMode = () => setUseThinkingMode(p => { if(!p){setUseSearch(false);setUseFastMode(false);} return !p; });
   const toggleFastMode = () => setUseFastMode(p => { if(!p){setUseSearch(false);setUseThinkingMode(false);} return !p; });
@@ -232,23 +807,150 @@ const Chat: React.FC = () => {
         onSelectConversation={handleSelectConversation}
         onNewConversation={handleNewConversation}
         onDeleteConversation={handleDeleteConversation}
+        onUpdateConversation={handleUpdateConversation}
+        onImportConversations={handleImportConversations}
       />
-      <div className="flex-grow h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg shadow-2xl border border-gray-200 dark:border-gray-800">
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`flex-grow h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg shadow-2xl border transition-colors ${
+          isDragging ? 'border-red-500 ring-2 ring-red-500' : 'border-gray-200 dark:border-gray-800'}`}
+      >
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-6 py-3 border-b border-gray-200 dark:border-gray-800 text-sm">
+          <label htmlFor="persona-select" className="font-medium text-gray-700 dark:text-gray-300">Persona</label>
+          <select
+            id="persona-select"
+            value={pickerPersonaId}
+            onChange={(e) => handleSelectPersona(e.target.value)}
+            disabled={!!activeConversation}
+            title={activeConversation ? 'Start a new chat to use a different persona' : undefined}
+            className="bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {personas.map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
+          <button onClick={() => setIsPersonaManagerOpen(true)} className="text-red-600 dark:text-red-400 hover:underline">
+            Manage personas
+          </button>
+          <div className="ml-auto flex items-center gap-3">
+            {speech.key && (
+              <div className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+                {speech.isLoading ? <LoadingSpinner className="w-4 h-4" /> : <SpeakerIcon className="w-4 h-4 text-red-500 dark:text-red-400" />}
+                <span>Speaking</span>
+                <button onClick={() => speechPlayerRef.current?.skip()} title="Skip to the next sentence" className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700">
+                  <SkipForwardIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => speechPlayerRef.current?.stop()} title="Stop speaking" className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700">
+                  <StopIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300" title="Read each reply in this conversation aloud as it arrives">
+              <input
+                type="checkbox"
+                checked={activeConversation ? !!activeConversation.autoSpeak : newConversationAutoSpeak}
+                onChange={(e) => handleToggleAutoSpeak(e.target.checked)}
+                className="accent-red-600"
+              />
+              Read replies aloud
+            </label>
+          </div>
+        </div>
+        {activeConversation?.voiceSession && (
+          <VoiceSessionBanner session={activeConversation.voiceSession} title={activeConversation.title} />
+        )}
         <div className="flex-grow p-6 overflow-y-auto custom-scrollbar">
           <div className="flex flex-col gap-4">
-            {messages.map((msg, index) => (
-              <div key={index} className={`group flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+            {messages.map((msg, index) => {
+              const siblings = activeConversation ? getSiblings(activeConversation, msg) : { index: 0, count: 1 };
+              const isEditing = editingNodeId === msg.id;
+              const actionClasses = `p-1 rounded disabled:opacity-40 disabled:cursor-not-allowed ${
+                msg.role === 'user' ? 'text-white/70 hover:text-white hover:bg-red-600' : 'text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-gray-700'}`;
+              return (
+              <React.Fragment key={msg.id}>
+              <div
+                ref={msg.id === highlightedMessageId ? highlightedMessageRef : undefined}
+                className={`group flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''} ${
+                  index > 0 && index <= activeCompactionIndex ? 'opacity-60' : ''}`}
+              >
                 {msg.role === 'model' && (
                   <div className="w-8 h-8 flex-shrink-0 bg-red-600 rounded-full flex items-center justify-center">
                     <BotIcon className="w-5 h-5 text-white" />
                   </div>
                 )}
                 <div
-                  className={`max-w-xl p-4 rounded-2xl relative ${
+                  className={`max-w-xl p-4 rounded-2xl relative ${isEditing ? 'w-full' : ''} ${
+                    msg.id === highlightedMessageId ? 'ring-2 ring-yellow-400 ring-offset-2 ring-offset-white dark:ring-offset-gray-900' : ''} ${
                     msg.role === 'user' ? 'bg-red-700 text-white rounded-br-none' : 'bg-gray-100 dark:bg-gray-800 rounded-bl-none'
                   }`}
                 >
-                  <p className="whitespace-pre-wrap">{msg.text}</p>
+                  {isEditing ? (
+                    <div className="flex flex-col gap-2">
+                      <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        className="w-full bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg p-2 resize-y focus:outline-none focus:ring-2 focus:ring-red-300"
+                      />
+                      <div className="flex justify-end gap-2 text-sm">
+                        <button onClick={() => setEditingNodeId(null)} className="px-3 py-1 rounded-md hover:bg-red-600 transition-colors">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => editMessage(msg.id, editText)}
+                          disabled={(!editText.trim() && !msg.attachments?.length) || isBusy}
+                          className="px-3 py-1 rounded-md bg-white text-red-700 font-semibold hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Save & Submit
+                        </button>
+                      </div>
+                    </div>
+                  ) : msg.role === 'model' ? (
+                    <>
+                      {msg.thoughts && (
+                        <details className="mb-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+                          <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none text-gray-600 dark:text-gray-300">
+                            <BrainIcon className="w-4 h-4" />
+                            Thoughts
+                          </summary>
+                          <Markdown
+                            text={msg.thoughts}
+                            streaming={isLoading && index === messages.length - 1}
+                            className="px-3 pb-3 text-gray-600 dark:text-gray-400"
+                          />
+                        </details>
+                      )}
+                      {msg.toolCalls?.map(call => <ToolCallCard key={call.id} call={call} />)}
+                      <Markdown
+                        text={msg.citations && msg.sources ? insertCitationMarkers(msg.text, msg.citations, msg.sources) : msg.text}
+                        streaming={isLoading && index === messages.length - 1}
+                        onOpenInEditor={onOpenInCodeEditor}
+                      />
+                      {msg.incomplete && (
+                        <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                          <span>{msg.incomplete === 'stopped' ? 'Stopped before the end.' : 'Cut off by an error.'}</span>
+                          <button
+                            onClick={() => continueReply(msg.id)}
+                            disabled={isBusy}
+                            className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                          >
+                            <PlayIcon className="w-3 h-3" />
+                            Continue generating
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      {msg.attachments && msg.attachments.length > 0 && (
+                        <AttachmentList attachments={msg.attachments} className={msg.text ? 'mb-3' : ''} />
+                      )}
+                      {msg.text && <p className="whitespace-pre-wrap">{msg.text}</p>}
+                    </>
+                  )}
                   {msg.sources && msg.sources.length > 0 && (
                     <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                         <h4 className="text-sm font-semibold text-gray-600 dark:text-slate-300 mb-2">Sources:</h4>
@@ -263,7 +965,7 @@ const Chat: React.FC = () => {
                                     title={source.title}
                                 >
                                     <LinkIcon className="w-4 h-4 flex-shrink-0" />
-                                    <span className="truncate">{source.title || source.uri}</span>
+                                    <span className="truncate">[{i + 1}] {source.title || source.uri}</span>
                                 </a>
                             ))}
                         </div>
@@ -271,18 +973,46 @@ const Chat: React.FC = () => {
                   )}
                   {msg.role === 'model' && msg.text && (
                       <button
-                          onClick={() => handleSpeak(msg.text, index)}
-                          disabled={speakingState.index !== null && speakingState.index !== index}
-                          className="absolute -bottom-4 -right-4 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity p-2 rounded-full bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
-                          title="Read aloud"
+                          onClick={() => handleSpeak(msg)}
+                          className="absolute -bottom-4 -right-4 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity p-2 rounded-full bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                          title={speech.key === msg.id ? "Stop reading" : "Read aloud"}
                       >
-                          {speakingState.isLoading && speakingState.index === index ? (
+                          {speech.isLoading && speech.key === msg.id ? (
                               <LoadingSpinner className="w-4 h-4" />
                           ) : (
-                              <SpeakerIcon className={`w-4 h-4 ${speakingState.index === index ? 'text-red-500 dark:text-red-400' : 'text-gray-800 dark:text-white'}`} />
+                              <SpeakerIcon className={`w-4 h-4 ${speech.key === msg.id ? 'text-red-500 dark:text-red-400' : 'text-gray-800 dark:text-white'}`} />
                           )}
                       </button>
                   )}
+                  {msg.parentId && !isEditing && (
+                    <div className={`mt-2 flex items-center gap-1 text-xs ${msg.role === 'user' ? 'justify-end text-white/80' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {msg.timestamp && (
+                        <time dateTime={new Date(msg.timestamp).toISOString()} className="mr-1 tabular-nums">
+                          {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </time>
+                      )}
+                      {siblings.count > 1 && (
+                        <>
+                          <button onClick={() => handleSwitchBranch(msg.id, -1)} disabled={isBusy || siblings.index === 0} title="Previous version" className={actionClasses}>
+                            <ChevronLeftIcon className="w-4 h-4" />
+                          </button>
+                          <span className="tabular-nums">{siblings.index + 1}/{siblings.count}</span>
+                          <button onClick={() => handleSwitchBranch(msg.id, 1)} disabled={isBusy || siblings.index === siblings.count - 1} title="Next version" className={actionClasses}>
+                            <ChevronRightIcon className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {msg.role === 'user' ? (
+                        <button onClick={() => startEditing(msg)} disabled={isBusy} title="Edit message" className={actionClasses}>
+                          <EditIcon className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <button onClick={() => regenerateReply(msg.id)} disabled={isBusy} title="Regenerate response" className={actionClasses}>
+                          <RefreshIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
                 {msg.role === 'user' && (
                   <div className="w-8 h-8 flex-shrink-0 bg-gray-300 dark:bg-gray-700 rounded-full flex items-center justify-center">
@@ -290,8 +1020,21 @@ const Chat: React.FC = () => {
                   </div>
                 )}
               </div>
-            ))}
-            {isLoading && (
+              {msg.compaction && (
+                <CompactionDivider compaction={msg.compaction} isInEffect={index === activeCompactionIndex} onToggle={() => toggleCompaction(msg)} />
+              )}
+              </React.Fragment>
+              );
+            })}
+            {isAwaitingPick && (
+              <ComparisonView
+                columns={comparison.columns}
+                onPick={pickComparisonAnswer}
+                onDiscard={discardComparison}
+                onOpenInCodeEditor={onOpenInCodeEditor}
+              />
+            )}
+            {isLoading && !comparison && (
               <div className="flex items-start gap-4">
                 <div className="w-8 h-8 flex-shrink-0 bg-red-600 rounded-full flex items-center justify-center">
                   <BotIcon className="w-5 h-5 text-white" />
@@ -310,47 +1053,104 @@ const Chat: React.FC = () => {
                 </div>
               </div>
             )}
+            {compactingConversationId !== null && compactingConversationId === activeConversationId && (
+              <div className="flex items-center justify-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <LoadingSpinner className="w-3 h-3" />
+                Summarizing earlier messages...
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
         </div>
-        {error && <p className="text-red-500 dark:text-red-400 text-center p-2">{error}</p>}
+        {error && (
+          <div className="px-6 pt-2">
+            <ErrorMessage
+              error={error}
+              onRetry={failedRequest ? handleRetry : undefined}
+              onDismiss={() => { setError(null); setFailedRequest(null); }}
+            />
+          </div>
+        )}
         <div className="p-6 border-t border-gray-200 dark:border-gray-800">
-          <form onSubmit={handleSendMessage} className="flex items-center gap-2 sm:gap-4">
-            <textarea
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleSendMessage(e);
-                }
-              }}
-              placeholder={getPlaceholderText()}
-              rows={1}
-              className="flex-grow bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg p-3 resize-none focus:outline-none focus:ring-2 focus:ring-red-500"
-              disabled={isLoading}
+          {isCompareMode && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-700 dark:text-gray-300">Compare</span>
+              <CompareSlotsEditor slots={compareSlots} onChange={setCompareSlots} disabled={isLoading} />
+            </div>
+          )}
+          {attachments.length > 0 && (
+            <AttachmentList
+              attachments={attachments}
+              onRemove={(id) => setAttachments(prev => prev.filter(a => a.id !== id))}
+              className="mb-4"
             />
-            <button type="button" onClick={toggleFastMode} title={useFastMode ? "Disable Fast Mode" : "Enable Fast Mode"}
-              className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
-                  useFastMode ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
-              <ZapIcon className="w-6 h-6" />
-            </button>
-            <button type="button" onClick={toggleThinkingMode} title={useThinkingMode ? "Disable Thinking Mode" : "Enable Thinking Mode"}
-              className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
-                  useThinkingMode ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
-              <BrainIcon className="w-6 h-6" />
-            </button>
-            <button type="button" onClick={toggleSearch} title={useSearch ? "Disable Google Search" : "Enable Google Search"}
-              className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
-                  useSearch ? 'bg-red-700 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
-              <SearchIcon className="w-6 h-6" />
+          )}
+          <form onSubmit={handleSendMessage} className="flex items-center gap-2 sm:gap-4">
+            <SlashCommands mode="chat" value={input} onChange={setInput} placement="above" className="flex-grow flex">
+              <textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onPaste={handlePaste}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSendMessage(e);
+                  }
+                }}
+                placeholder={getPlaceholderText()}
+                rows={1}
+                className="flex-grow bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg p-3 resize-none focus:outline-none focus:ring-2 focus:ring-red-500"
+                disabled={isBusy}
+              />
+            </SlashCommands>
+            <DictationButton onTranscript={handleDictation} onError={setError} disabled={isBusy} />
+            <input ref={fileInputRef} type="file" multiple accept={ATTACHMENT_ACCEPT} className="hidden" onChange={handleFileSelect} />
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isBusy} title="Attach files"
+              className="p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">
+              <PaperclipIcon className="w-6 h-6" />
             </button>
-            <button type="submit" disabled={isLoading || !input.trim()} className="bg-red-600 text-white p-3 rounded-full hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors duration-200">
-              {isLoading && !useSearch && !useThinkingMode ? <LoadingSpinner /> : <SendIcon className="w-6 h-6" />}
+            <button type="button" onClick={() => setIsCompareMode(on => !on)} disabled={isLoading}
+              title={isCompareMode ? "Stop comparing models" : "Compare models side by side"}
+              className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isCompareMode ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
+              <ColumnsIcon className="w-6 h-6" />
             </button>
+            {!isCompareMode && (
+              <>
+                <button type="button" onClick={toggleFastMode} title={useFastMode ? "Disable Fast Mode" : "Enable Fast Mode"}
+                  className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
+                      useFastMode ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
+                  <ZapIcon className="w-6 h-6" />
+                </button>
+                <button type="button" onClick={toggleThinkingMode} title={useThinkingMode ? "Disable Thinking Mode" : "Enable Thinking Mode"}
+                  className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
+                      useThinkingMode ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
+                  <BrainIcon className="w-6 h-6" />
+                </button>
+                <button type="button" onClick={toggleSearch} title={useSearch ? "Disable Google Search" : "Enable Google Search"}
+                  className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
+                      useSearch ? 'bg-red-700 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}>
+                  <SearchIcon className="w-6 h-6" />
+                </button>
+              </>
+            )}
+            {isLoading ? (
+              <button type="button" onClick={handleStop} title="Stop generating" className="bg-red-600 text-white p-3 rounded-full hover:bg-red-500 transition-colors duration-200">
+                <StopIcon className="w-6 h-6" />
+              </button>
+            ) : (
+              <button type="submit" disabled={(!input.trim() && attachments.length === 0) || isAwaitingPick} className="bg-red-600 text-white p-3 rounded-full hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors duration-200">
+                <SendIcon className="w-6 h-6" />
+              </button>
+            )}
           </form>
         </div>
       </div>
+      <PersonaManager
+        isOpen={isPersonaManagerOpen}
+        onClose={() => setIsPersonaManagerOpen(false)}
+        initialPersonaId={pickerPersonaId}
+      />
     </div>
   );
 };
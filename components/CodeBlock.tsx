@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { highlight, TokenType } from '../utils/highlight';
+import { CopyIcon, CheckIcon, DownloadIcon, CodeIcon } from './Icons';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+  onOpenInEditor?: (code: string, language: string) => void;
+}
+
+const tokenClasses: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-700 dark:text-green-400',
+  number: 'text-orange-600 dark:text-orange-300',
+  keyword: 'text-red-600 dark:text-red-400',
+  literal: 'text-purple-600 dark:text-purple-300',
+  function: 'text-blue-600 dark:text-blue-300',
+  tag: 'text-red-600 dark:text-red-400',
+  attribute: 'text-yellow-700 dark:text-yellow-300',
+  property: 'text-sky-700 dark:text-sky-300',
+};
+
+const extensions: Record<string, string> = {
+  javascript: 'js', typescript: 'ts', python: 'py', ruby: 'rb', rust: 'rs', golang: 'go',
+  csharp: 'cs', kotlin: 'kt', shell: 'sh', bash: 'sh', zsh: 'sh', markdown: 'md', yaml: 'yml', text: 'txt',
+};
+
+const iconButtonClasses = "p-1.5 rounded-md text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors";
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, onOpenInEditor }) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const tokens = useMemo(() => highlight(code, language), [code, language]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const extension = extensions[language] || (/^[a-z0-9+#-]{1,10}$/.test(language) ? language : 'txt');
+    const blob = new Blob([code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `snippet.${extension.replace(/[^a-z0-9]/g, '') || 'txt'}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="my-3 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden bg-gray-50 dark:bg-gray-950">
+      <div className="flex items-center justify-between px-3 py-1 bg-gray-100 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{language || 'text'}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={handleCopy} title="Copy code" className={iconButtonClasses}>
+            {isCopied ? <CheckIcon className="w-4 h-4 text-green-500" /> : <CopyIcon className="w-4 h-4" />}
+          </button>
+          <button onClick={handleDownload} title="Download code" className={iconButtonClasses}>
+            <DownloadIcon className="w-4 h-4" />
+          </button>
+          {onOpenInEditor && (
+            <button onClick={() => onOpenInEditor(code, language)} title="Open in Code Editor" className={iconButtonClasses}>
+              <CodeIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      <pre className="p-3 overflow-x-auto custom-scrollbar text-sm leading-relaxed">
+        <code className="font-mono text-gray-800 dark:text-gray-200">
+          {tokens.map((token, index) =>
+            token.type === 'plain' ? token.text : <span key={index} className={tokenClasses[token.type]}>{token.text}</span>
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -1,22 +1,47 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { generateCode, explainCode, debugCode, formatCode, generateSpeech } from '../services/geminiService';
+import { generateCode, explainCode, debugCode, formatCode, generateSpeech, isAbortError } from '../services/geminiService';
+import { getLatestAsset, saveAsset } from '../services/storage';
 import { decode, decodeAudioData } from '../utils/audioUtils';
 import LoadingSpinner from './LoadingSpinner';
-import { CodeIcon, SparklesIcon, SpeakerIcon, DownloadIcon, CopyIcon, CheckIcon, ExternalLinkIcon, UndoIcon, RedoIcon } from './Icons';
+import ErrorMessage from './ErrorMessage';
+import Markdown from './Markdown';
+import SlashCommands from './SlashCommands';
+import type { CodeSnippet } from '../types';
+import { CodeIcon, SparklesIcon, SpeakerIcon, DownloadIcon, CopyIcon, CheckIcon, ExternalLinkIcon, UndoIcon, RedoIcon, StopIcon } from './Icons';
 
 const languages = ['HTML', 'JavaScript', 'Python', 'TypeScript', 'CSS', 'JSON', 'Java', 'Go', 'Rust', 'SQL', 'PHP'];
 type Action = 'generate' | 'explain' | 'debug' | 'format' | null;
 type RightPanelTab = 'ai' | 'preview';
 type SpeechState = 'idle' | 'loading' | 'speaking';
 
-const CodeEditor: React.FC = () => {
+// The editor keeps a single draft record, overwritten as you type.
+const DRAFT_ID = 'code-editor-draft';
+
+// Maps a fenced block's language tag onto one of the editor's languages.
+const toEditorLanguage = (tag: string): string | undefined => {
+  const aliases: { [key: string]: string } = {
+    js: 'JavaScript', jsx: 'JavaScript', ts: 'TypeScript', tsx: 'TypeScript', py: 'Python',
+    golang: 'Go', rs: 'Rust', htm: 'HTML', xml: 'HTML',
+  };
+  const normalized = tag.toLowerCase();
+  return aliases[normalized] || languages.find(lang => lang.toLowerCase() === normalized);
+};
+
+interface CodeEditorProps {
+  initialSnippet?: CodeSnippet | null;
+}
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ initialSnippet }) => {
   const [code, setCode] = useState('');
   const [debouncedCode, setDebouncedCode] = useState('');
   const [output, setOutput] = useState('');
+  // Explanations and debug reports are Markdown; generated code is shown verbatim.
+  const [isOutputMarkdown, setIsOutputMarkdown] = useState(false);
   const [language, setLanguage] = useState(languages[0]);
   const [isLoading, setIsLoading] = useState(false);
   const [activeAction, setActiveAction] = useState<Action>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
+  const [failedAction, setFailedAction] = useState<Action>(null);
   const [rightPanelTab, setRightPanelTab] = useState<RightPanelTab>('ai');
   const [iframeContent, setIframeContent] = useState('');
   const [isCopied, setIsCopied] = useState(false);
@@ -28,6 +53,9 @@ const CodeEditor: React.FC = () => {
   const [history, setHistory] = useState<string[]>(['']);
   const [historyIndex, setHistoryIndex] = useState(0);
   const historyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set once the saved draft has been restored, so it isn't overwritten by the empty editor first
+  const isDraftLoadedRef = useRef(false);
 
   useEffect(() => {
     const handler = setTimeout(() => {
@@ -82,6 +110,7 @@ const CodeEditor: React.FC = () => {
 
   useEffect(() => {
     return () => {
+        abortControllerRef.current?.abort();
         if (audioSourceRef.current) {
             audioSourceRef.current.stop();
         }
@@ -133,6 +162,36 @@ const CodeEditor: React.FC = () => {
     }
   };
 
+  const loadSnippet = (snippet: string, tag: string) => {
+    const editorLanguage = toEditorLanguage(tag);
+    if (editorLanguage) setLanguage(editorLanguage);
+    setCodeProgrammatically(snippet);
+  };
+
+  useEffect(() => {
+    if (initialSnippet) {
+      loadSnippet(initialSnippet.code, initialSnippet.language);
+    }
+  }, [initialSnippet]);
+
+  // Restore the last draft, unless the editor was opened with a snippet
+  useEffect(() => {
+    let isMounted = true;
+    (initialSnippet ? Promise.resolve(null) : getLatestAsset<CodeSnippet>('code')).then(draft => {
+      if (!isMounted) return;
+      if (draft) loadSnippet(draft.data.code, draft.data.language);
+      isDraftLoadedRef.current = true;
+    });
+    return () => { isMounted = false; };
+  }, []);
+
+  useEffect(() => {
+    if (isDraftLoadedRef.current) {
+      // `code` rather than `debouncedCode`, which lags behind a restored or loaded snippet
+      saveAsset<CodeSnippet>('code', `${language} draft`, { code, language }, DRAFT_ID);
+    }
+  }, [debouncedCode, language]);
+
   const handleUndo = () => {
     if (historyIndex > 0) {
         if (historyTimeoutRef.current) clearTimeout(historyTimeoutRef.current);
@@ -162,14 +221,19 @@ const CodeEditor: React.FC = () => {
     setActiveAction(action);
     setRightPanelTab('ai');
     setError(null);
+    setFailedAction(null);
     setOutput('');
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
 
     try {
       let result = '';
       switch (action) {
         case 'generate':
-          result = await generateCode(code, language);
+          result = await generateCode(code, language, signal);
           const generatedCode = cleanResponse(result);
+          setIsOutputMarkdown(false);
           setOutput(generatedCode);
           setCodeProgrammatically(generatedCode);
           if (language === 'HTML') {
@@ -177,27 +241,39 @@ const CodeEditor: React.FC = () => {
           }
           break;
         case 'explain':
-          result = await explainCode(code, language);
+          result = await explainCode(code, language, signal);
+          setIsOutputMarkdown(true);
           setOutput(result);
           break;
         case 'debug':
-          result = await debugCode(code, language);
+          result = await debugCode(code, language, signal);
+          setIsOutputMarkdown(true);
           setOutput(result);
           break;
         case 'format':
-          result = await formatCode(code, language);
+          result = await formatCode(code, language, signal);
           setCodeProgrammatically(cleanResponse(result));
           break;
         default:
           break;
       }
     } catch (e: any) {
-      setError(e.message || `An error occurred while trying to ${action} code.`);
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e : `An error occurred while trying to ${action} code.`);
+        setFailedAction(action);
+      }
     } finally {
       setIsLoading(false);
       setActiveAction(null);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
   
   const handleToggleSpeech = async () => {
     if (speechState === 'speaking') {
@@ -234,7 +310,7 @@ const CodeEditor: React.FC = () => {
       audioSourceRef.current = source;
       setSpeechState('speaking');
     } catch (e: any) {
-      setError(e.message || "Failed to generate audio.");
+      setError(e instanceof Error ? e : "Failed to generate audio.");
       setSpeechState('idle');
     }
   };
@@ -330,13 +406,15 @@ const CodeEditor: React.FC = () => {
 
       <div className="w-full flex-grow flex flex-col md:flex-row gap-4">
         <div className="w-full md:w-1/2 h-full flex flex-col">
-          <textarea
-            value={code}
-            onChange={(e) => handleCodeChange(e.target.value)}
-            placeholder={getInputPlaceholder()}
-            className="w-full flex-grow bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-800 text-gray-800 dark:text-gray-200 rounded-lg p-4 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-red-500 resize-none custom-scrollbar"
-            disabled={isLoading}
-          />
+          <SlashCommands mode="code" value={code} onChange={handleCodeChange} placement="below" className="w-full flex-grow flex flex-col">
+            <textarea
+              value={code}
+              onChange={(e) => handleCodeChange(e.target.value)}
+              placeholder={getInputPlaceholder()}
+              className="w-full flex-grow bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-800 text-gray-800 dark:text-gray-200 rounded-lg p-4 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-red-500 resize-none custom-scrollbar"
+              disabled={isLoading}
+            />
+          </SlashCommands>
         </div>
         <div className="w-full md:w-1/2 h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
            <div className="flex-shrink-0 flex items-center justify-between border-b border-gray-200 dark:border-gray-800">
@@ -369,6 +447,9 @@ const CodeEditor: React.FC = () => {
                             <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-slate-400">
                                 <LoadingSpinner className="w-12 h-12" />
                                 <p className="mt-4">{activeAction ? `${activeAction.charAt(0).toUpperCase() + activeAction.slice(1)}ing...` : 'Loading...'}</p>
+                                <button onClick={handleStop} className="mt-4 flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-800 dark:text-gray-200 font-sans">
+                                    <StopIcon className="w-4 h-4" /> Stop
+                                </button>
                             </div>
                         ) : output ? (
                             <>
@@ -384,7 +465,11 @@ const CodeEditor: React.FC = () => {
                                         <SpeakerIcon className={`w-5 h-5 ${speechState === 'speaking' ? 'text-red-500' : 'text-inherit'}`} />
                                     )}
                                 </button>
-                                <pre className="whitespace-pre-wrap text-gray-800 dark:text-slate-200">{output}</pre>
+                                {isOutputMarkdown ? (
+                                    <Markdown text={output} onOpenInEditor={loadSnippet} className="font-sans text-gray-800 dark:text-slate-200 pr-10" />
+                                ) : (
+                                    <pre className="whitespace-pre-wrap text-gray-800 dark:text-slate-200">{output}</pre>
+                                )}
                             </>
                         ) : (
                             <div className="flex flex-col items-center justify-center h-full text-gray-400 dark:text-slate-500">
@@ -405,7 +490,13 @@ const CodeEditor: React.FC = () => {
            </div>
         </div>
       </div>
-        {error && <p className="text-red-500 dark:text-red-400 text-center w-full">{error}</p>}
+        {error && (
+          <ErrorMessage
+            error={error}
+            onRetry={failedAction ? () => handleAction(failedAction) : undefined}
+            onDismiss={() => { setError(null); setFailedAction(null); }}
+          />
+        )}
     </div>
   );
 };
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { ChatMode, CompareSlot } from '../types';
+import { CHAT_MODE_LABELS, MAX_COMPARE_SLOTS, MIN_COMPARE_SLOTS } from '../services/modelSettings';
+import { getModelsOfKind } from '../services/modelRegistry';
+import { PlusIcon, XIcon } from './Icons';
+
+interface CompareSlotsEditorProps {
+  slots: CompareSlot[];
+  onChange: (slots: CompareSlot[]) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = "bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-red-500";
+
+// The mode and model of each column in compare mode.
+const CompareSlotsEditor: React.FC<CompareSlotsEditorProps> = ({ slots, onChange, disabled }) => {
+  const updateSlot = (index: number, changes: Partial<CompareSlot>) => {
+    onChange(slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {slots.map((slot, i) => (
+        <div key={i} className="flex items-center gap-1 rounded-lg border border-gray-200 dark:border-gray-700 p-1">
+          <select
+            value={slot.mode}
+            onChange={e => updateSlot(i, { mode: e.target.value as ChatMode })}
+            disabled={disabled}
+            aria-label={`Column ${i + 1} mode`}
+            className={selectClassName}
+          >
+            {(Object.keys(CHAT_MODE_LABELS) as ChatMode[]).map(mode => (
+              <option key={mode} value={mode}>{CHAT_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+          <select
+            value={slot.model ?? ''}
+            onChange={e => updateSlot(i, { model: e.target.value || undefined })}
+            disabled={disabled}
+            aria-label={`Column ${i + 1} model`}
+            className={selectClassName}
+          >
+            <option value="">Mode default</option>
+            {getModelsOfKind('text').map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {slots.length > MIN_COMPARE_SLOTS && (
+            <button
+              type="button"
+              onClick={() => onChange(slots.filter((_, j) => j !== i))}
+              disabled={disabled}
+              title="Remove column"
+              className="p-1 rounded text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+            >
+              <XIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      {slots.length < MAX_COMPARE_SLOTS && (
+        <button
+          type="button"
+          onClick={() => onChange([...slots, { mode: 'standard' }])}
+          disabled={disabled}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add column
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CompareSlotsEditor;
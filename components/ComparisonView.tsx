@@ -0,0 +1,135 @@
+import React from 'react';
+import type { Citation, CompareSlot, GroundingSource } from '../types';
+import { CHAT_MODE_LABELS } from '../services/modelSettings';
+import { findModel } from '../services/modelRegistry';
+import { insertCitationMarkers } from '../utils/citations';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+import Markdown from './Markdown';
+import { BrainIcon, CheckIcon, LinkIcon } from './Icons';
+
+export interface ComparisonColumn {
+  slot: CompareSlot;
+  // The model the request actually went to
+  model: string;
+  text: string;
+  thoughts?: string;
+  sources?: GroundingSource[];
+  citations?: Citation[];
+  status: 'streaming' | 'done' | 'stopped' | 'failed';
+  error?: Error;
+  // Milliseconds from sending to the first chunk and to the end of the reply
+  firstChunkMs?: number;
+  latencyMs?: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  thinkingTokens?: number;
+}
+
+interface ComparisonViewProps {
+  columns: ComparisonColumn[];
+  onPick: (index: number) => void;
+  onDiscard: () => void;
+  onOpenInCodeEditor?: (code: string, language: string) => void;
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const ColumnStats: React.FC<{ column: ComparisonColumn }> = ({ column }) => {
+  const parts: string[] = [];
+  if (column.firstChunkMs !== undefined) parts.push(`first token ${formatSeconds(column.firstChunkMs)}`);
+  if (column.latencyMs !== undefined) parts.push(`total ${formatSeconds(column.latencyMs)}`);
+  if (column.outputTokens !== undefined) {
+    parts.push(`${(column.promptTokens ?? 0).toLocaleString()} in / ${column.outputTokens.toLocaleString()} out`
+      + (column.thinkingTokens ? ` / ${column.thinkingTokens.toLocaleString()} thinking` : ''));
+  }
+  return <p className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">{parts.join(' · ') || 'Waiting for the first token...'}</p>;
+};
+
+// Replies to the same prompt from several models side by side; picking one continues the conversation with it.
+const ComparisonView: React.FC<ComparisonViewProps> = ({ columns, onPick, onDiscard, onOpenInCodeEditor }) => {
+  const isStreaming = columns.some(column => column.status === 'streaming');
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className={`grid grid-cols-1 ${GRID_COLUMNS[columns.length] ?? 'md:grid-cols-2'} gap-3`}>
+        {columns.map((column, i) => (
+          <div key={i} className="flex flex-col min-w-0 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/60">
+            <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-sm text-gray-900 dark:text-white truncate">
+                  {CHAT_MODE_LABELS[column.slot.mode]}
+                  <span className="font-normal text-gray-500 dark:text-gray-400"> · {findModel(column.model)?.label ?? column.model}</span>
+                </span>
+                {column.status === 'streaming' && <LoadingSpinner className="w-4 h-4 flex-shrink-0" />}
+                {column.status === 'stopped' && <span className="text-xs text-gray-500 dark:text-gray-400">Stopped</span>}
+              </div>
+              <ColumnStats column={column} />
+            </div>
+            <div className="flex-grow p-3 text-sm overflow-x-auto">
+              {column.thoughts && (
+                <details className="mb-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none text-gray-600 dark:text-gray-300">
+                    <BrainIcon className="w-4 h-4" />
+                    Thoughts
+                  </summary>
+                  <Markdown text={column.thoughts} streaming={column.status === 'streaming'} className="px-3 pb-3 text-gray-600 dark:text-gray-400" />
+                </details>
+              )}
+              {column.error ? (
+                <ErrorMessage error={column.error} />
+              ) : (
+                <Markdown
+                  text={column.citations && column.sources ? insertCitationMarkers(column.text, column.citations, column.sources) : column.text}
+                  streaming={column.status === 'streaming'}
+                  onOpenInEditor={onOpenInCodeEditor}
+                />
+              )}
+              {column.sources && column.sources.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 flex flex-col gap-1">
+                  {column.sources.map((source, j) => (
+                    <a
+                      key={j}
+                      href={source.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300 text-xs truncate flex items-center gap-2"
+                      title={source.title}
+                    >
+                      <LinkIcon className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">[{j + 1}] {source.title || source.uri}</span>
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="p-3 border-t border-gray-200 dark:border-gray-700">
+              <button
+                onClick={() => onPick(i)}
+                disabled={isStreaming || !column.text}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-md bg-red-600 text-white text-sm font-semibold hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <CheckIcon className="w-4 h-4" />
+                Use this answer
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+        <span>{isStreaming ? 'Comparing answers...' : 'Pick the best answer to continue with it. The others are kept as alternative versions.'}</span>
+        {!isStreaming && (
+          <button onClick={onDiscard} className="text-red-600 dark:text-red-400 hover:underline">Discard</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -1,24 +1,392 @@
-import React from 'react';
-import type { Conversation } from '../types';
-import { PlusIcon, TrashIcon, MessageSquareIcon } from './Icons';
+import React, { useEffect, useRef, useState } from 'react';
+import type { Conversation, TagColor } from '../types';
+import { EXPORT_FORMATS, ExportFormat, MergeResult, exportConversations, parseConversationArchive } from '../utils/conversationExport';
+import { MatchRange, MessageMatch, searchConversations } from '../utils/conversationSearch';
+import { downloadBlob } from '../utils/download';
+import {
+  PlusIcon, TrashIcon, MessageSquareIcon, DownloadIcon, UploadIcon, SearchIcon, XIcon, PinIcon, EditIcon,
+  FolderIcon, MoreVerticalIcon, ChevronRightIcon, CheckIcon, MicrophoneIcon,
+} from './Icons';
+
+type ConversationChanges = Partial<Pick<Conversation, 'title' | 'pinned' | 'folder' | 'tags'>>;
 
 interface ConversationHistoryProps {
   conversations: Conversation[];
   activeConversationId: string | null;
-  onSelectConversation: (id: string) => void;
+  onSelectConversation: (id: string, messageId?: string) => void;
   onNewConversation: () => void;
   onDeleteConversation: (id: string) => void;
+  onUpdateConversation: (id: string, changes: ConversationChanges) => void;
+  onImportConversations: (conversations: Conversation[]) => Omit<MergeResult, 'conversations'>;
+}
+
+const TAG_COLORS: Record<TagColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The sidebar heading a conversation is listed under, by when it last had a message.
+const getDateGroup = (timestamp: number, now: Date): string => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  if (timestamp >= startOfToday) return 'Today';
+  if (timestamp >= startOfToday - DAY_MS) return 'Yesterday';
+  if (timestamp >= startOfToday - 6 * DAY_MS) return 'Last 7 days';
+  if (timestamp >= startOfToday - 29 * DAY_MS) return 'Last 30 days';
+  return 'Older';
+};
+
+const Highlight: React.FC<{ text: string; ranges: MatchRange[] }> = ({ text, ranges }) => {
+  if (ranges.length === 0) return <>{text}</>;
+  const pieces: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], i) => {
+    pieces.push(text.slice(position, start));
+    pieces.push(<mark key={i} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  pieces.push(text.slice(position));
+  return <>{pieces}</>;
+};
+
+interface PopoverProps {
+  title: string;
+  buttonClassName: string;
+  trigger: React.ReactNode;
+  children: (close: () => void) => React.ReactNode;
+}
+
+const Popover: React.FC<PopoverProps> = ({ title, buttonClassName, trigger, children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button onClick={(e) => { e.stopPropagation(); setIsOpen(open => !open); }} title={title} className={buttonClassName}>
+        {trigger}
+      </button>
+      {isOpen && (
+        <>
+          {/* Closes the menu on any click outside it */}
+          <div className="fixed inset-0 z-10" onClick={(e) => { e.stopPropagation(); setIsOpen(false); }} />
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="absolute right-0 top-full mt-1 z-20 w-52 py-1 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 text-left"
+          >
+            {children(() => setIsOpen(false))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const menuItemClasses = "w-full flex items-center gap-2 text-left px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700";
+const menuHeadingClasses = "px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500";
+
+const ExportFormatItems: React.FC<{ onExport: (format: ExportFormat) => void }> = ({ onExport }) => (
+  <>
+    {EXPORT_FORMATS.map(format => (
+      <button key={format.value} onClick={() => onExport(format.value)} className={menuItemClasses}>
+        {format.label}
+      </button>
+    ))}
+  </>
+);
+
+const NewFolderInput: React.FC<{ onCreate: (name: string) => void }> = ({ onCreate }) => {
+  const [name, setName] = useState('');
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim()) onCreate(name.trim());
+      }}
+      className="px-3 py-1.5"
+    >
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="New folder…"
+        className="w-full bg-gray-100 dark:bg-gray-900 rounded px-2 py-1 text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-red-500"
+      />
+    </form>
+  );
+};
+
+interface ConversationItemProps {
+  conversation: Conversation;
+  isActive: boolean;
+  isRenaming: boolean;
+  folders: string[];
+  titleRanges?: MatchRange[];
+  matches?: MessageMatch[];
+  onSelect: (messageId?: string) => void;
+  onUpdate: (changes: ConversationChanges) => void;
+  onStartRename: () => void;
+  onEndRename: () => void;
+  onExport: (format: ExportFormat) => void;
+  onDelete: () => void;
 }
 
-const ConversationHistory: React.FC<ConversationHistoryProps> = ({ 
-    conversations, 
-    activeConversationId, 
-    onSelectConversation, 
+const ConversationItem: React.FC<ConversationItemProps> = ({
+  conversation, isActive, isRenaming, folders, titleRanges = [], matches = [],
+  onSelect, onUpdate, onStartRename, onEndRename, onExport, onDelete,
+}) => {
+  const [title, setTitle] = useState(conversation.title);
+  // Escape ends renaming, and the input losing focus must not then save it
+  const isCancellingRef = useRef(false);
+  const tags = conversation.tags ?? [];
+
+  useEffect(() => {
+    if (isRenaming) {
+      setTitle(conversation.title);
+      isCancellingRef.current = false;
+    }
+  }, [isRenaming, conversation.title]);
+
+  const commitRename = () => {
+    if (isCancellingRef.current) return;
+    if (title.trim() && title.trim() !== conversation.title) onUpdate({ title: title.trim() });
+    onEndRename();
+  };
+
+  const toggleTag = (color: TagColor) => {
+    const next = tags.includes(color) ? tags.filter(tag => tag !== color) : [...tags, color];
+    onUpdate({ tags: next.length > 0 ? next : undefined });
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="px-3 py-1.5">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') {
+              isCancellingRef.current = true;
+              onEndRename();
+            }
+          }}
+          autoFocus
+          onFocus={(e) => e.target.select()}
+          aria-label="Conversation title"
+          className="w-full bg-gray-100 dark:bg-gray-800 rounded px-2 py-1 text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="group relative">
+      <button
+        onClick={() => onSelect()}
+        onDoubleClick={onStartRename}
+        className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors duration-150 text-sm ${
+          isActive
+          ? 'bg-red-600/10 dark:bg-red-500/10 text-red-600 dark:text-red-300'
+          : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+        }`}
+      >
+        {conversation.voiceSession
+          ? <MicrophoneIcon className="w-4 h-4 flex-shrink-0" />
+          : <MessageSquareIcon className="w-4 h-4 flex-shrink-0" />}
+        <span className="min-w-0 flex-grow pr-6">
+          <span className="block truncate">
+            <Highlight text={conversation.title} ranges={titleRanges} />
+          </span>
+          {conversation.summary && (
+            <span className="block truncate text-xs text-gray-400 dark:text-gray-500" title={conversation.summary}>
+              {conversation.summary}
+            </span>
+          )}
+        </span>
+        {tags.length > 0 && (
+          <span className="flex gap-0.5 flex-shrink-0 group-hover:opacity-0">
+            {tags.map(color => <span key={color} className={`w-2 h-2 rounded-full ${TAG_COLORS[color]}`} />)}
+          </span>
+        )}
+      </button>
+      {matches.length > 0 && (
+        <div className="ml-9 mb-1 flex flex-col gap-0.5">
+          {matches.map(match => (
+            <button
+              key={match.messageId}
+              onClick={() => onSelect(match.messageId)}
+              className="text-left text-xs text-gray-500 dark:text-gray-400 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 line-clamp-2"
+            >
+              <Highlight text={match.snippet} ranges={match.ranges} />
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="absolute right-2 top-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <Popover
+          title="Conversation options"
+          buttonClassName="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white rounded-full hover:bg-gray-500/10"
+          trigger={<MoreVerticalIcon className="w-4 h-4" />}
+        >
+          {(close) => (
+            <>
+              <button onClick={() => { onUpdate({ pinned: conversation.pinned ? undefined : true }); close(); }} className={menuItemClasses}>
+                <PinIcon className="w-4 h-4" />
+                {conversation.pinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button onClick={() => { onStartRename(); close(); }} className={menuItemClasses}>
+                <EditIcon className="w-4 h-4" />
+                Rename
+              </button>
+
+              <p className={menuHeadingClasses}>Folder</p>
+              {folders.map(folder => (
+                <button key={folder} onClick={() => { onUpdate({ folder }); close(); }} className={menuItemClasses}>
+                  <FolderIcon className="w-4 h-4" />
+                  <span className="truncate flex-grow">{folder}</span>
+                  {conversation.folder === folder && <CheckIcon className="w-4 h-4" />}
+                </button>
+              ))}
+              {conversation.folder && (
+                <button onClick={() => { onUpdate({ folder: undefined }); close(); }} className={menuItemClasses}>
+                  <XIcon className="w-4 h-4" />
+                  Remove from folder
+                </button>
+              )}
+              <NewFolderInput onCreate={(folder) => { onUpdate({ folder }); close(); }} />
+
+              <p className={menuHeadingClasses}>Tags</p>
+              <div className="flex gap-2 px-3 py-1.5">
+                {(Object.keys(TAG_COLORS) as TagColor[]).map(color => (
+                  <button
+                    key={color}
+                    onClick={() => toggleTag(color)}
+                    title={color}
+                    aria-pressed={tags.includes(color)}
+                    className={`w-5 h-5 rounded-full ${TAG_COLORS[color]} ${tags.includes(color) ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-800' : 'opacity-60 hover:opacity-100'}`}
+                  />
+                ))}
+              </div>
+
+              <p className={menuHeadingClasses}>Export</p>
+              <ExportFormatItems onExport={(format) => { onExport(format); close(); }} />
+
+              <div className="my-1 border-t border-gray-200 dark:border-gray-700" />
+              <button onClick={() => { onDelete(); close(); }} className={`${menuItemClasses} text-red-600 dark:text-red-400`}>
+                <TrashIcon className="w-4 h-4" />
+                Delete
+              </button>
+            </>
+          )}
+        </Popover>
+      </div>
+    </div>
+  );
+};
+
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({
+    conversations,
+    activeConversationId,
+    onSelectConversation,
     onNewConversation,
-    onDeleteConversation
+    onDeleteConversation,
+    onUpdateConversation,
+    onImportConversations
 }) => {
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<TagColor | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 6000);
+    return () => clearTimeout(timer);
+  }, [notice]);
 
   const sortedConversations = [...conversations].sort((a, b) => b.timestamp - a.timestamp);
+  const visibleConversations = tagFilter ? sortedConversations.filter(c => c.tags?.includes(tagFilter)) : sortedConversations;
+  const folders = [...new Set<string>(conversations.map(c => c.folder).filter((f): f is string => !!f))].sort((a, b) => a.localeCompare(b));
+  const usedTags = (Object.keys(TAG_COLORS) as TagColor[]).filter(color => conversations.some(c => c.tags?.includes(color)));
+
+  const searchResults = query.trim() ? searchConversations(visibleConversations, query) : null;
+
+  // Pinned first, then folders, then everything else by date.
+  const sections: { key: string; label: string; folder?: string; conversations: Conversation[] }[] = [];
+  const pinned = visibleConversations.filter(c => c.pinned);
+  if (pinned.length > 0) sections.push({ key: 'pinned', label: 'Pinned', conversations: pinned });
+  const unpinned = visibleConversations.filter(c => !c.pinned);
+  for (const folder of folders) {
+    const inFolder = unpinned.filter(c => c.folder === folder);
+    if (inFolder.length > 0) sections.push({ key: `folder:${folder}`, label: folder, folder, conversations: inFolder });
+  }
+  const now = new Date();
+  for (const conversation of unpinned.filter(c => !c.folder)) {
+    const label = getDateGroup(conversation.timestamp, now);
+    const section = sections.find(s => s.key === `date:${label}`);
+    if (section) section.conversations.push(conversation);
+    else sections.push({ key: `date:${label}`, label, conversations: [conversation] });
+  }
+
+  const toggleFolder = (folder: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folder)) next.delete(folder);
+      else next.add(folder);
+      return next;
+    });
+  };
+
+  const handleExport = async (toExport: Conversation[], format: ExportFormat) => {
+    try {
+      const { blob, filename } = await exportConversations(toExport, format);
+      downloadBlob(blob, filename);
+    } catch (e) {
+      console.error("Failed to export conversations:", e);
+      setNotice({ text: 'Export failed. Please try again.', isError: true });
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { added, updated, skipped } = onImportConversations(parseConversationArchive(await file.text()));
+      const parts = [`${added} added`];
+      if (updated) parts.push(`${updated} updated`);
+      if (skipped) parts.push(`${skipped} already up to date`);
+      setNotice({ text: `Imported: ${parts.join(', ')}.`, isError: false });
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : 'Import failed.', isError: true });
+    }
+  };
+
+  const renderItem = (conversation: Conversation, titleRanges?: MatchRange[], matches?: MessageMatch[]) => (
+    <ConversationItem
+      key={conversation.id}
+      conversation={conversation}
+      isActive={activeConversationId === conversation.id}
+      isRenaming={renamingId === conversation.id}
+      folders={folders}
+      titleRanges={titleRanges}
+      matches={matches}
+      onSelect={(messageId) => onSelectConversation(conversation.id, messageId)}
+      onUpdate={(changes) => onUpdateConversation(conversation.id, changes)}
+      onStartRename={() => setRenamingId(conversation.id)}
+      onEndRename={() => setRenamingId(null)}
+      onExport={(format) => handleExport([conversation], format)}
+      onDelete={() => onDeleteConversation(conversation.id)}
+    />
+  );
+
+  const toolbarButtonClasses = "w-full flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
 
   return (
     <div className="w-full md:w-1/4 lg:w-1/5 h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg shadow-lg border border-gray-200 dark:border-gray-800">
@@ -30,35 +398,96 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                 <PlusIcon className="w-5 h-5" />
                 New Chat
             </button>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+                <button onClick={() => fileInputRef.current?.click()} title="Import conversations from a JSON export" className={toolbarButtonClasses}>
+                    <UploadIcon className="w-4 h-4" />
+                    Import
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+                {conversations.length > 0 ? (
+                    <Popover
+                        title="Export all conversations"
+                        buttonClassName={toolbarButtonClasses}
+                        trigger={<><DownloadIcon className="w-4 h-4" />Export all</>}
+                    >
+                        {(close) => <ExportFormatItems onExport={(format) => { handleExport(sortedConversations, format); close(); }} />}
+                    </Popover>
+                ) : (
+                    <button disabled className={toolbarButtonClasses}>
+                        <DownloadIcon className="w-4 h-4" />
+                        Export all
+                    </button>
+                )}
+            </div>
+            {notice && (
+                <p className={`mt-2 text-xs ${notice.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                    {notice.text}
+                </p>
+            )}
+            <div className="mt-3 relative">
+                <SearchIcon className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}
+                    placeholder="Search conversations"
+                    aria-label="Search conversations"
+                    className="w-full bg-gray-100 dark:bg-gray-800 rounded-md pl-8 pr-8 py-1.5 text-sm text-gray-800 dark:text-gray-200 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                {query && (
+                    <button onClick={() => setQuery('')} title="Clear search" className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+                        <XIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+            {usedTags.length > 0 && (
+                <div className="mt-2 flex items-center gap-2">
+                    {usedTags.map(color => (
+                        <button
+                            key={color}
+                            onClick={() => setTagFilter(current => current === color ? null : color)}
+                            title={tagFilter === color ? 'Show all conversations' : `Show ${color} conversations`}
+                            aria-pressed={tagFilter === color}
+                            className={`w-4 h-4 rounded-full ${TAG_COLORS[color]} ${tagFilter === color ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-900' : 'opacity-50 hover:opacity-100'}`}
+                        />
+                    ))}
+                </div>
+            )}
         </div>
         <div className="flex-grow p-2 overflow-y-auto custom-scrollbar">
-            <nav className="flex flex-col gap-1">
-                {sortedConversations.map(conv => (
-                    <div key={conv.id} className="group relative">
-                        <button
-                            onClick={() => onSelectConversation(conv.id)}
-                            className={`w-full text-left flex items-center gap-3 px-3 py-2 rounded-md transition-colors duration-150 text-sm ${
-                                activeConversationId === conv.id
-                                ? 'bg-red-600/10 dark:bg-red-500/10 text-red-600 dark:text-red-300'
-                                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
-                            }`}
-                        >
-                            <MessageSquareIcon className="w-4 h-4 flex-shrink-0" />
-                            <span className="truncate flex-grow">{conv.title}</span>
-                        </button>
-                         <button
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                onDeleteConversation(conv.id);
-                            }}
-                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400 rounded-full hover:bg-red-500/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
-                            title="Delete conversation"
-                        >
-                            <TrashIcon className="w-4 h-4" />
-                        </button>
-                    </div>
-                ))}
-            </nav>
+            {searchResults ? (
+                <nav className="flex flex-col gap-1">
+                    {searchResults.length === 0 && (
+                        <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No conversations match.</p>
+                    )}
+                    {searchResults.map(result => renderItem(result.conversation, result.titleRanges, result.messages))}
+                </nav>
+            ) : (
+                <nav className="flex flex-col gap-3">
+                    {sections.map(section => {
+                        const isCollapsed = section.folder !== undefined && collapsedFolders.has(section.folder);
+                        return (
+                            <div key={section.key} className="flex flex-col gap-1">
+                                {section.folder !== undefined ? (
+                                    <button
+                                        onClick={() => toggleFolder(section.folder!)}
+                                        className="flex items-center gap-1.5 px-3 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+                                    >
+                                        <ChevronRightIcon className={`w-3 h-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                                        <FolderIcon className="w-3.5 h-3.5" />
+                                        <span className="truncate">{section.label}</span>
+                                        <span className="ml-auto font-normal">{section.conversations.length}</span>
+                                    </button>
+                                ) : (
+                                    <p className="px-3 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400">{section.label}</p>
+                                )}
+                                {!isCollapsed && section.conversations.map(conversation => renderItem(conversation))}
+                            </div>
+                        );
+                    })}
+                </nav>
+            )}
         </div>
     </div>
   );
@@ -0,0 +1,107 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { transcribeAudio, isAbortError } from '../services/geminiService';
+import { MicrophoneIcon } from './Icons';
+import LoadingSpinner from './LoadingSpinner';
+
+interface DictationButtonProps {
+  onTranscript: (text: string) => void;
+  onError: (error: Error | string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+type DictationState = 'idle' | 'recording' | 'transcribing';
+
+// Records from the microphone until clicked again, then hands back the transcription.
+// Clicking while it transcribes cancels.
+const DictationButton: React.FC<DictationButtonProps> = ({ onTranscript, onError, disabled, className = '' }) => {
+  const [state, setState] = useState<DictationState>('idle');
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.onstop = null;
+        mediaRecorderRef.current.stop();
+      }
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const transcribe = async (audioBlob: Blob) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const base64Audio = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(audioBlob);
+      });
+      const text = await transcribeAudio(base64Audio, audioBlob.type, controller.signal);
+      onTranscript(text.trim());
+    } catch (e) {
+      if (!isAbortError(e)) {
+        onError(e instanceof Error ? e : 'Failed to transcribe audio.');
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setState('idle');
+      }
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        setState('transcribing');
+        transcribe(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      mediaRecorderRef.current = recorder;
+      recorder.start();
+      setState('recording');
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      onError("Could not access microphone. Please ensure permissions are granted.");
+    }
+  };
+
+  const handleClick = () => {
+    if (state === 'idle') {
+      startRecording();
+    } else if (state === 'recording') {
+      mediaRecorderRef.current?.stop();
+    } else {
+      abortControllerRef.current?.abort();
+    }
+  };
+
+  const title = state === 'recording' ? 'Stop and transcribe' : state === 'transcribing' ? 'Cancel transcription' : 'Dictate';
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={disabled && state === 'idle'}
+      title={title}
+      aria-label={title}
+      className={`p-3 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed ${
+        state === 'recording' ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'} ${className}`}
+    >
+      {state === 'transcribing' ? <LoadingSpinner className="w-6 h-6" /> : <MicrophoneIcon className="w-6 h-6" />}
+    </button>
+  );
+};
+
+export default DictationButton;
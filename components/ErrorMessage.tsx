@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { AIServiceError, AIErrorKind } from '../services/errors';
+import { RedoIcon, XIcon } from './Icons';
+
+interface ErrorMessageProps {
+  error: Error | string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+const titles: Record<AIErrorKind, string> = {
+  'rate-limited': 'Rate limited',
+  'quota-exceeded': 'Quota exceeded',
+  'auth': 'Authentication problem',
+  'safety-blocked': 'Blocked by safety filters',
+  'network': 'Network problem',
+  'bad-response': 'Unexpected response',
+  'unavailable-model': 'Model unavailable',
+  'unknown': 'Something went wrong',
+};
+
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry, onDismiss, className = '' }) => {
+  const serviceError = error instanceof AIServiceError ? error : null;
+  const message = typeof error === 'string' ? error : error.message;
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!serviceError?.retryAfterMs) {
+      setSecondsLeft(0);
+      return;
+    }
+    const retryAt = Date.now() + serviceError.retryAfterMs;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [serviceError]);
+
+  // Retrying cannot fix a bad key, so only offer it for the other kinds.
+  const canRetry = !!onRetry && serviceError?.kind !== 'auth';
+
+  return (
+    <div role="alert" className={`w-full flex items-start gap-3 p-3 rounded-lg border border-red-300 dark:border-red-900 bg-red-50 dark:bg-red-950/40 text-sm ${className}`}>
+      <div className="flex-grow text-left">
+        {serviceError && <p className="font-semibold text-red-700 dark:text-red-300">{titles[serviceError.kind]}</p>}
+        <p className="text-red-600 dark:text-red-400">{message}</p>
+        {secondsLeft > 0 && (
+          <p className="text-red-500 dark:text-red-400/80 mt-1">You can retry in {secondsLeft}s.</p>
+        )}
+      </div>
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft > 0}
+          className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-md bg-red-600 text-white font-medium hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RedoIcon className="w-4 h-4" /> Retry
+        </button>
+      )}
+      {onDismiss && (
+        <button onClick={onDismiss} title="Dismiss" className="flex-shrink-0 p-1 rounded-full text-red-500 hover:bg-red-500/10">
+          <XIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorMessage;
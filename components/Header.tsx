@@ -1,15 +1,16 @@
 import React from 'react';
-import { BotIcon, ImageIcon, EditIcon, MicrophoneIcon, FileTextIcon, CodeIcon, PackageIcon, SettingsIcon } from './Icons';
+import { BotIcon, ImageIcon, EditIcon, MicrophoneIcon, FileTextIcon, CodeIcon, PackageIcon, SettingsIcon, BarChartIcon, BookOpenIcon, TableIcon } from './Icons';
 
-type Mode = 'chat' | 'image' | 'edit' | 'live' | 'transcribe' | 'code' | 'project';
+type Mode = 'chat' | 'image' | 'edit' | 'live' | 'transcribe' | 'code' | 'project' | 'extract' | 'usage';
 
 interface HeaderProps {
   mode: Mode;
   setMode: (mode: Mode) => void;
   onOpenSettings: () => void;
+  onOpenPromptLibrary: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ mode, setMode, onOpenSettings }) => {
+const Header: React.FC<HeaderProps> = ({ mode, setMode, onOpenSettings, onOpenPromptLibrary }) => {
   const commonButtonClasses = 'flex items-center gap-2 px-4 py-2 rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-950 border-b-4';
   const activeButtonClasses = 'bg-red-600 text-white shadow-md border-red-400';
   const inactiveButtonClasses = 'bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 border-transparent';
@@ -24,6 +25,9 @@ const Header: React.FC<HeaderProps> = ({ mode, setMode, onOpenSettings }) => {
            <button onClick={onOpenSettings} title="Settings" className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
               <SettingsIcon className="w-6 h-6 text-gray-600 dark:text-gray-400" />
            </button>
+           <button onClick={onOpenPromptLibrary} title="Prompt library" className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
+              <BookOpenIcon className="w-6 h-6 text-gray-600 dark:text-gray-400" />
+           </button>
         </div>
         <nav className="flex items-center gap-x-1 md:gap-x-2 gap-y-2 flex-wrap justify-end">
           <button
@@ -53,6 +57,13 @@ const Header: React.FC<HeaderProps> = ({ mode, setMode, onOpenSettings }) => {
           >
             <PackageIcon className="w-5 h-5" />
             <span className="hidden md:inline">Project Gen</span>
+          </button>
+          <button
+            onClick={() => setMode('extract')}
+            className={`${commonButtonClasses} ${mode === 'extract' ? activeButtonClasses : inactiveButtonClasses}`}
+          >
+            <TableIcon className="w-5 h-5" />
+            <span className="hidden md:inline">Extract</span>
           </button>
            <button
             onClick={() => setMode('code')}
@@ -75,6 +86,13 @@ const Header: React.FC<HeaderProps> = ({ mode, setMode, onOpenSettings }) => {
             <EditIcon className="w-5 h-5" />
             <span className="hidden md:inline">Image Edit</span>
           </button>
+          <button
+            onClick={() => setMode('usage')}
+            className={`${commonButtonClasses} ${mode === 'usage' ? activeButtonClasses : inactiveButtonClasses}`}
+          >
+            <BarChartIcon className="w-5 h-5" />
+            <span className="hidden md:inline">Usage</span>
+          </button>
         </nav>
       </div>
     </header>
@@ -1,7 +1,9 @@
-import React, { useState, FormEvent } from 'react';
-import { editImage } from '../services/geminiService';
+import React, { useState, useEffect, useRef, FormEvent } from 'react';
+import { editImage, isAbortError } from '../services/geminiService';
+import { getLatestAsset, saveAsset } from '../services/storage';
 import LoadingSpinner from './LoadingSpinner';
-import { ImageIcon, SparklesIcon, EditIcon } from './Icons';
+import ErrorMessage from './ErrorMessage';
+import { ImageIcon, SparklesIcon, EditIcon, StopIcon } from './Icons';
 
 interface ImageFile {
   data: string;
@@ -9,12 +11,35 @@ interface ImageFile {
   url: string;
 }
 
+interface EditedImage {
+  original: ImageFile;
+  editedUrl: string;
+  prompt: string;
+}
+
 const ImageEditor: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
   const [editedImageUrl, setEditedImageUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Show the last edit again when coming back to this mode
+  useEffect(() => {
+    let isMounted = true;
+    getLatestAsset<EditedImage>('edited-image').then(asset => {
+      if (!isMounted || !asset) return;
+      setOriginalImage(current => current ?? asset.data.original);
+      setEditedImageUrl(current => current ?? asset.data.editedUrl);
+      setPrompt(current => current || asset.data.prompt);
+    });
+    return () => { isMounted = false; };
+  }, []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -39,24 +64,40 @@ const ImageEditor: React.FC = () => {
     }
   };
 
-  const handleEditImage = async (e: FormEvent) => {
-    e.preventDefault();
+  const runEdit = async () => {
     if (!prompt.trim() || !originalImage || isLoading) return;
 
     setIsLoading(true);
     setEditedImageUrl(null);
     setError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const url = await editImage(originalImage.data, originalImage.mimeType, prompt);
+      const url = await editImage(originalImage.data, originalImage.mimeType, prompt, controller.signal);
       setEditedImageUrl(url);
+      saveAsset<EditedImage>('edited-image', prompt, { original: originalImage, editedUrl: url, prompt });
     } catch (e: any) {
-      setError(e.message || 'An unexpected error occurred while editing the image.');
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e : 'An unexpected error occurred while editing the image.');
+      }
     } finally {
       setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const handleEditImage = (e: FormEvent) => {
+    e.preventDefault();
+    runEdit();
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="w-full max-w-6xl flex flex-col items-center gap-8 p-4 md:p-8">
       <div className="text-center">
@@ -110,26 +151,35 @@ const ImageEditor: React.FC = () => {
           className="flex-grow w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg p-4 focus:outline-none focus:ring-2 focus:ring-red-500"
           disabled={isLoading || !originalImage}
         />
-        <button
-          type="submit"
-          disabled={isLoading || !prompt.trim() || !originalImage}
-          className="w-full sm:w-auto flex items-center justify-center gap-2 bg-red-600 text-white font-semibold px-6 py-4 rounded-lg hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all duration-200"
-        >
-          {isLoading ? (
-            <>
-              <LoadingSpinner />
-              <span>Editing...</span>
-            </>
-          ) : (
-            <>
-              <SparklesIcon className="w-5 h-5" />
-              <span>Apply Edit</span>
-            </>
-          )}
-        </button>
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            className="w-full sm:w-auto flex items-center justify-center gap-2 bg-red-600 text-white font-semibold px-6 py-4 rounded-lg hover:bg-red-500 transition-all duration-200"
+          >
+            <StopIcon className="w-5 h-5" />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!prompt.trim() || !originalImage}
+            className="w-full sm:w-auto flex items-center justify-center gap-2 bg-red-600 text-white font-semibold px-6 py-4 rounded-lg hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            <SparklesIcon className="w-5 h-5" />
+            <span>Apply Edit</span>
+          </button>
+        )}
       </form>
 
-      {error && <p className="text-red-500 dark:text-red-400 text-center mt-4">{error}</p>}
+      {error && (
+        <ErrorMessage
+          error={error}
+          onRetry={originalImage && prompt.trim() ? runEdit : undefined}
+          onDismiss={() => setError(null)}
+          className="mt-4"
+        />
+      )}
     </div>
   );
 };
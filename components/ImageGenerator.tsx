@@ -1,7 +1,16 @@
-import React, { useState, FormEvent } from 'react';
-import { generateImage } from '../services/geminiService';
+import React, { useState, useEffect, useRef, FormEvent } from 'react';
+import { generateImage, isAbortError } from '../services/geminiService';
+import { getLatestAsset, saveAsset } from '../services/storage';
 import LoadingSpinner from './LoadingSpinner';
-import { ImageIcon, SparklesIcon } from './Icons';
+import ErrorMessage from './ErrorMessage';
+import SlashCommands from './SlashCommands';
+import { ImageIcon, SparklesIcon, StopIcon } from './Icons';
+
+interface GeneratedImage {
+  url: string;
+  prompt: string;
+  style: string;
+}
 
 const styles = ['Photorealistic', 'Cartoon', 'Anime', 'Watercolor', 'Fantasy Art', 'Cyberpunk', 'Minimalist', 'Impressionistic'];
 
@@ -10,26 +19,59 @@ const ImageGenerator: React.FC = () => {
   const [style, setStyle] = useState(styles[0]);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleGenerateImage = async (e: FormEvent) => {
-    e.preventDefault();
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Show the last generated image again when coming back to this mode
+  useEffect(() => {
+    let isMounted = true;
+    getLatestAsset<GeneratedImage>('image').then(asset => {
+      if (!isMounted || !asset) return;
+      setImageUrl(current => current ?? asset.data.url);
+      setPrompt(current => current || asset.data.prompt);
+      setStyle(asset.data.style);
+    });
+    return () => { isMounted = false; };
+  }, []);
+
+  const runGeneration = async () => {
     if (!prompt.trim() || isLoading) return;
 
     setIsLoading(true);
     setImageUrl(null);
     setError(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const url = await generateImage(prompt, style);
+      const url = await generateImage(prompt, style, controller.signal);
       setImageUrl(url);
+      saveAsset<GeneratedImage>('image', prompt, { url, prompt, style });
     } catch (e: any) {
-      setError(e.message || 'An unexpected error occurred.');
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e : 'An unexpected error occurred.');
+      }
     } finally {
       setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const handleGenerateImage = (e: FormEvent) => {
+    e.preventDefault();
+    runGeneration();
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="w-full max-w-4xl flex flex-col items-center gap-8 p-4 md:p-8">
       <div className="text-center">
@@ -38,14 +80,16 @@ const ImageGenerator: React.FC = () => {
       </div>
 
       <form onSubmit={handleGenerateImage} className="w-full flex flex-col sm:flex-row items-center gap-4">
-        <input
-          type="text"
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., A cat wearing a spacesuit on Mars"
-          className="flex-grow w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg p-4 focus:outline-none focus:ring-2 focus:ring-red-500"
-          disabled={isLoading}
-        />
+        <SlashCommands mode="image" value={prompt} onChange={setPrompt} placement="below" className="flex-grow w-full">
+          <input
+            type="text"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="e.g., A cat wearing a spacesuit on Mars"
+            className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg p-4 focus:outline-none focus:ring-2 focus:ring-red-500"
+            disabled={isLoading}
+          />
+        </SlashCommands>
         <div className="w-full sm:w-auto relative">
           <select
             value={style}
@@ -65,26 +109,28 @@ const ImageGenerator: React.FC = () => {
             </svg>
           </div>
         </div>
-        <button
-          type="submit"
-          disabled={isLoading || !prompt.trim()}
-          className="w-full sm:w-auto flex items-center justify-center gap-2 bg-red-600 text-white font-semibold px-6 py-4 rounded-lg hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all duration-200"
-        >
-          {isLoading ? (
-            <>
-              <LoadingSpinner />
-              <span>Generating...</span>
-            </>
-          ) : (
-            <>
-              <SparklesIcon className="w-5 h-5" />
-              <span>Generate</span>
-            </>
-          )}
-        </button>
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            className="w-full sm:w-auto flex items-center justify-center gap-2 bg-red-600 text-white font-semibold px-6 py-4 rounded-lg hover:bg-red-500 transition-all duration-200"
+          >
+            <StopIcon className="w-5 h-5" />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!prompt.trim()}
+            className="w-full sm:w-auto flex items-center justify-center gap-2 bg-red-600 text-white font-semibold px-6 py-4 rounded-lg hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            <SparklesIcon className="w-5 h-5" />
+            <span>Generate</span>
+          </button>
+        )}
       </form>
 
-      {error && <p className="text-red-500 dark:text-red-400 text-center mt-4">{error}</p>}
+      {error && <ErrorMessage error={error} onRetry={runGeneration} onDismiss={() => setError(null)} className="mt-4" />}
       
       <div className="w-full h-64 sm:h-80 md:h-[450px] mt-6 bg-gray-50/50 dark:bg-gray-900/50 border-2 border-dashed border-gray-300 dark:border-gray-800 rounded-xl flex items-center justify-center overflow-hidden">
         {isLoading ? (
@@ -1,28 +1,157 @@
 import React, { useState, useRef, useEffect } from 'react';
-// FIX: Removed non-exported type 'LiveSession'.
-import { GoogleGenAI, Modality, LiveServerMessage, Blob } from '@google/genai';
-import { BotIcon, UserIcon, MicrophoneIcon } from './Icons';
+import type { LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { connectLiveSession, isAbortError } from '../services/geminiService';
+import type { LiveSession } from '../services/aiProvider';
+import { toAIServiceError } from '../services/errors';
+import { flushPendingSaves, saveAsset, saveConversation } from '../services/storage';
+import { DEFAULT_LIVE_INSTRUCTION, LiveInputMode, LiveSessionConfig, loadLiveConfig, saveLiveConfig } from '../services/liveSettings';
+import { usePersonas } from '../contexts/PersonaContext';
+import type { ChatMessage, Conversation } from '../types';
+import { BotIcon, UserIcon, MicrophoneIcon, MicrophoneOffIcon, MessageSquareIcon, DownloadIcon, CameraIcon, MonitorIcon, ExternalLinkIcon, XIcon } from './Icons';
+import ErrorMessage from './ErrorMessage';
+import LiveSessionSettings from './LiveSessionSettings';
 import { encode, decode, decodeAudioData } from '../utils/audioUtils';
+import { AudioCapture, CAPTURE_MIME_TYPE, CAPTURE_SAMPLE_RATE, startAudioCapture } from '../utils/audioCapture';
+import { startVideoCapture, VIDEO_FRAME_MIME_TYPE, VideoCapture } from '../utils/videoCapture';
+import { detectVoiceActivity, INITIAL_VAD_STATE, VAD_PRESETS, VadOptions, VadState } from '../utils/voiceActivity';
+import { addMessage, createConversation, createMessageId, getActivePath, updateMessage } from '../utils/conversationTree';
+import { audioExtension, downloadBlob, toFileName } from '../utils/download';
 
 type Transcription = {
     role: 'user' | 'model';
     text: string;
 };
 
-const LiveChat: React.FC = () => {
+interface LiveChatProps {
+    onOpenInChat?: (conversationId: string) => void;
+}
+
+type VideoSource = 'camera' | 'screen';
+
+// A session that ended and was saved to the chat history
+interface SavedSession {
+    conversationId: string;
+    title: string;
+    recording: Blob | null;
+}
+
+// Adds one side of a turn to the transcript. Text from the same side as the last
+// message is appended to it, since turns can end with only one side having spoken.
+// The model speaking first replaces the greeting.
+const appendToTranscript = (conversation: Conversation, message: ChatMessage): Conversation => {
+    const path = getActivePath(conversation);
+    const last = path[path.length - 1];
+    if (last.parentId === null && message.role === 'model') {
+        return updateMessage(conversation, last.id, () => ({ text: message.text, timestamp: message.timestamp }));
+    }
+    if (last.parentId !== null && last.role === message.role) {
+        return updateMessage(conversation, last.id, node => ({ text: `${node.text} ${message.text}`, incomplete: message.incomplete }));
+    }
+    return addMessage(conversation, last.id, message, createMessageId());
+};
+
+// Chunks kept from just before speech is detected and sent when it is, so the
+// first syllable isn't cut off. Each chunk is 100 ms.
+const PRE_ROLL_CHUNKS = 3;
+
+const isTextField = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Maps an RMS level onto a -60 to 0 dBFS meter.
+const toMeterPercent = (level: number) =>
+    level <= 0 ? 0 : Math.max(0, Math.min(100, (20 * Math.log10(level) + 60) / 60 * 100));
+
+interface VideoPreviewProps {
+    stream: MediaStream;
+    source: VideoSource;
+    onStop: () => void;
+}
+
+// Floats over the transcript and shows what is being sent to the model. It can be
+// popped out into the browser's picture-in-picture window, so it stays visible
+// while sharing another tab or app.
+const VideoPreview: React.FC<VideoPreviewProps> = ({ stream, source, onStop }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        if (videoRef.current) videoRef.current.srcObject = stream;
+    }, [stream]);
+
+    useEffect(() => {
+        return () => {
+            if (document.pictureInPictureElement === videoRef.current) document.exitPictureInPicture().catch(() => {});
+        };
+    }, []);
+
+    const handlePopOut = () => {
+        videoRef.current?.requestPictureInPicture().catch(e => console.error('Could not open picture-in-picture:', e));
+    };
+
+    const label = source === 'camera' ? 'Camera' : 'Screen';
+
+    return (
+        <div className="absolute bottom-4 right-4 w-48 sm:w-64 rounded-lg overflow-hidden shadow-lg border border-gray-200 dark:border-gray-700 bg-black group">
+            <video ref={videoRef} autoPlay muted playsInline className="w-full aspect-video object-contain" aria-label={`${label} preview`} />
+            <div className="absolute top-0 inset-x-0 flex items-center gap-1 px-2 py-1 bg-gradient-to-b from-black/60 to-transparent text-white text-xs">
+                <span className="flex-grow">{label}: the model sees this</span>
+                {document.pictureInPictureEnabled && (
+                    <button onClick={handlePopOut} title="Pop out" aria-label="Pop out" className="p-0.5 rounded hover:bg-white/20">
+                        <ExternalLinkIcon className="w-3.5 h-3.5" />
+                    </button>
+                )}
+                <button onClick={onStop} title={`Stop ${source === 'camera' ? 'camera' : 'sharing'}`} aria-label={`Stop ${source === 'camera' ? 'camera' : 'sharing'}`} className="p-0.5 rounded hover:bg-white/20">
+                    <XIcon className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const LiveChat: React.FC<LiveChatProps> = ({ onOpenInChat }) => {
+    const { getPersona } = usePersonas();
     const [status, setStatus] = useState<'idle' | 'listening' | 'processing' | 'speaking'>('idle');
     const [conversation, setConversation] = useState<Transcription[]>([]);
     const [currentInput, setCurrentInput] = useState('');
     const [currentOutput, setCurrentOutput] = useState('');
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<Error | string | null>(null);
+    // Microphone level, 0 to 1
+    const [inputLevel, setInputLevel] = useState(0);
+    const [recordAudio, setRecordAudio] = useState(false);
+    const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+    const [sessionConfig, setSessionConfig] = useState<LiveSessionConfig>(loadLiveConfig);
+    const [muted, setMuted] = useState(false);
+    // Push to talk or voice detection has marked the start of a turn and audio is being sent
+    const [activityOpen, setActivityOpen] = useState(false);
+    const [video, setVideo] = useState<{ source: VideoSource; stream: MediaStream } | null>(null);
 
-    // FIX: Use 'any' as the session type because 'LiveSession' is not exported from the SDK.
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    const captureRef = useRef<AudioCapture | null>(null);
+
+    // The session as saved so far; created with the first turn
+    const transcriptRef = useRef<Conversation | null>(null);
+    const sessionStartedAtRef = useRef(0);
+    // The persona the running session uses, if any, so the saved conversation keeps it
+    const sessionPersonaIdRef = useRef<string | null>(null);
+    // When each side of the current turn started speaking
+    const turnTimesRef = useRef<{ input?: number; output?: number }>({});
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const recordingChunksRef = useRef<Blob[]>([]);
+    // Both the microphone and the model's audio are connected here while recording
+    const recordingDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+    // Silenced while muted, so the recording only has what the model heard
+    const recordingMicGainRef = useRef<GainNode | null>(null);
+
+    // Fixed for the running session; read from the capture callback
+    const inputModeRef = useRef<LiveInputMode>('always');
+    const vadOptionsRef = useRef<VadOptions>(VAD_PRESETS.medium);
+    const vadStateRef = useRef<VadState>(INITIAL_VAD_STATE);
+    const preRollRef = useRef<Int16Array[]>([]);
+    const mutedRef = useRef(false);
+    const activityOpenRef = useRef(false);
+    const videoStreamRef = useRef<MediaStream | null>(null);
+    const videoCaptureRef = useRef<VideoCapture | null>(null);
 
     const currentInputRef = useRef('');
     const currentOutputRef = useRef('');
@@ -35,32 +164,187 @@ const LiveChat: React.FC = () => {
         conversationEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [conversation, currentInput, currentOutput, status]);
 
-    const stopConversation = async () => {
-        setStatus('idle');
-        if (sessionPromiseRef.current) {
-            const session = await sessionPromiseRef.current;
-            session.close();
-            sessionPromiseRef.current = null;
+    const saveTurn = (input: string, output: string, stopped = false) => {
+        if (!input.trim() && !output.trim()) return;
+        const now = Date.now();
+        let conversation = transcriptRef.current ?? {
+            ...createConversation(input.trim() ? (input.trim().length > 40 ? input.trim().substring(0, 37) + '...' : input.trim()) : 'Voice session'),
+            voiceSession: { startedAt: sessionStartedAtRef.current, endedAt: now },
+            ...(sessionPersonaIdRef.current && { personaId: sessionPersonaIdRef.current }),
+        };
+        const times = turnTimesRef.current;
+        if (input.trim()) {
+            conversation = appendToTranscript(conversation, { role: 'user', text: input.trim(), timestamp: times.input ?? now });
         }
+        if (output.trim()) {
+            conversation = appendToTranscript(conversation, {
+                role: 'model', text: output.trim(), timestamp: times.output ?? now, ...(stopped && { incomplete: 'stopped' }),
+            });
+        }
+        conversation = { ...conversation, timestamp: now, voiceSession: { ...conversation.voiceSession!, endedAt: now } };
+        transcriptRef.current = conversation;
+        turnTimesRef.current = {};
+        saveConversation(conversation);
+    };
 
-        if (streamRef.current) {
-            streamRef.current.getTracks().forEach(track => track.stop());
-            streamRef.current = null;
+    const sendRealtime = (input: LiveSendRealtimeInputParameters) => {
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput(input));
+    };
+
+    const sendAudio = (pcm: Int16Array) => {
+        sendRealtime({ media: { data: encode(new Uint8Array(pcm.buffer)), mimeType: CAPTURE_MIME_TYPE } });
+    };
+
+    const setActivity = (open: boolean) => {
+        if (activityOpenRef.current === open) return;
+        activityOpenRef.current = open;
+        setActivityOpen(open);
+        sendRealtime(open ? { activityStart: {} } : { activityEnd: {} });
+    };
+
+    const handleInputChunk = (pcm: Int16Array) => {
+        if (mutedRef.current) return;
+        switch (inputModeRef.current) {
+            case 'always':
+                sendAudio(pcm);
+                break;
+            case 'push-to-talk':
+                if (activityOpenRef.current) sendAudio(pcm);
+                break;
+            case 'voice-activity': {
+                const vad = detectVoiceActivity(vadStateRef.current, pcm, CAPTURE_SAMPLE_RATE, vadOptionsRef.current);
+                vadStateRef.current = vad;
+                if (!vad.speaking) {
+                    setActivity(false);
+                    preRollRef.current = [...preRollRef.current, pcm].slice(-PRE_ROLL_CHUNKS);
+                    break;
+                }
+                if (!activityOpenRef.current) {
+                    setActivity(true);
+                    preRollRef.current.forEach(sendAudio);
+                    preRollRef.current = [];
+                }
+                sendAudio(pcm);
+                break;
+            }
+        }
+    };
+
+    const resetInput = () => {
+        mutedRef.current = false;
+        setMuted(false);
+        activityOpenRef.current = false;
+        setActivityOpen(false);
+        vadStateRef.current = INITIAL_VAD_STATE;
+        preRollRef.current = [];
+    };
+
+    const stopVideo = () => {
+        videoCaptureRef.current?.stop();
+        videoCaptureRef.current = null;
+        videoStreamRef.current?.getTracks().forEach(track => track.stop());
+        videoStreamRef.current = null;
+        setVideo(null);
+    };
+
+    const startVideo = async (source: VideoSource) => {
+        stopVideo();
+        let stream: MediaStream;
+        try {
+            stream = source === 'camera'
+                ? await navigator.mediaDevices.getUserMedia({ video: { facingMode: { ideal: 'environment' } } })
+                : await navigator.mediaDevices.getDisplayMedia({ video: true });
+        } catch (err: any) {
+            // Cancelling the screen picker also ends up here
+            if (err?.name === 'NotAllowedError' && source === 'screen') return;
+            console.error(`Could not start the ${source}:`, err);
+            setError(err?.name === 'NotAllowedError' ? 'Could not access the camera. Please ensure permissions are granted.' : `Could not start the ${source === 'camera' ? 'camera' : 'screen share'}.`);
+            return;
+        }
+        if (!sessionPromiseRef.current || videoStreamRef.current) {
+            // The session ended, or another source started, while waiting for permission
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        videoStreamRef.current = stream;
+        // Ending a screen share from the browser's own controls
+        stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+            if (videoStreamRef.current === stream) stopVideo();
+        });
+        try {
+            const capture = await startVideoCapture(stream, {
+                frameRate: sessionConfig.videoFrameRate,
+                onFrame: (data) => sendRealtime({ video: { data, mimeType: VIDEO_FRAME_MIME_TYPE } }),
+            });
+            if (videoStreamRef.current !== stream) {
+                capture.stop();
+                return;
+            }
+            videoCaptureRef.current = capture;
+            setVideo({ source, stream });
+        } catch (err) {
+            console.error(`Could not capture the ${source}:`, err);
+            setError(err instanceof Error ? err : 'Could not capture video.');
+            if (videoStreamRef.current === stream) stopVideo();
+        }
+    };
+
+    const handleToggleVideo = (source: VideoSource) => {
+        if (video?.source === source) {
+            stopVideo();
+        } else {
+            startVideo(source);
+        }
+    };
+
+    const finishRecording = (): Promise<Blob | null> => new Promise(resolve => {
+        const recorder = recorderRef.current;
+        recorderRef.current = null;
+        recordingDestinationRef.current = null;
+        recordingMicGainRef.current = null;
+        if (!recorder || recorder.state === 'inactive') {
+            resolve(null);
+            return;
         }
+        recorder.onstop = () => {
+            const chunks = recordingChunksRef.current;
+            recordingChunksRef.current = [];
+            resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }) : null);
+        };
+        recorder.stop();
+    });
 
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
+    const stopConversation = async () => {
+        setStatus('idle');
+        // Claim the transcript before anything is awaited, so a second call finds nothing to save
+        saveTurn(currentInputRef.current, currentOutputRef.current, !!currentOutputRef.current.trim());
+        currentInputRef.current = '';
+        currentOutputRef.current = '';
+        const transcript = transcriptRef.current;
+        transcriptRef.current = null;
+        // Cleared straight away too, so nothing more is sent and the session's own onclose
+        // knows it was expected
+        const sessionPromise = sessionPromiseRef.current;
+        sessionPromiseRef.current = null;
+        resetInput();
+        stopVideo();
+        const recordingPromise = finishRecording();
+        if (sessionPromise) {
+            await sessionPromise.then(session => session.close(), () => {});
         }
 
-        if(sourceNodeRef.current) {
-            sourceNodeRef.current.disconnect();
-            sourceNodeRef.current = null;
+        if (captureRef.current) {
+            const capture = captureRef.current;
+            captureRef.current = null;
+            await capture.stop();
         }
+        setInputLevel(0);
 
-        if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
-            await inputAudioContextRef.current.close();
+        if (streamRef.current) {
+            streamRef.current.getTracks().forEach(track => track.stop());
+            streamRef.current = null;
         }
+
         if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
             await outputAudioContextRef.current.close();
         }
@@ -68,6 +352,16 @@ const LiveChat: React.FC = () => {
         audioSourcesRef.current.forEach(source => source.stop());
         audioSourcesRef.current.clear();
         nextStartTimeRef.current = 0;
+
+        const recording = await recordingPromise;
+        if (!transcript) return;
+        const recordingId = recording ? crypto.randomUUID() : undefined;
+        if (recording && recordingId) {
+            await saveAsset('recording', transcript.title, recording, recordingId);
+        }
+        saveConversation({ ...transcript, voiceSession: { ...transcript.voiceSession!, endedAt: Date.now(), ...(recordingId && { recordingId }) } });
+        await flushPendingSaves();
+        setSavedSession({ conversationId: transcript.id, title: transcript.title, recording });
     };
 
     const startConversation = async () => {
@@ -77,119 +371,141 @@ const LiveChat: React.FC = () => {
         currentInputRef.current = '';
         currentOutputRef.current = '';
         setConversation([]);
+        setSavedSession(null);
+        transcriptRef.current = null;
+        turnTimesRef.current = {};
+        sessionStartedAtRef.current = Date.now();
+        const persona = sessionConfig.personaId ? getPersona(sessionConfig.personaId) : null;
+        sessionPersonaIdRef.current = persona && persona.id === sessionConfig.personaId ? persona.id : null;
+        const systemInstruction = (persona ? persona.systemInstruction : sessionConfig.systemInstruction).trim() || DEFAULT_LIVE_INSTRUCTION;
+        resetInput();
+        inputModeRef.current = sessionConfig.inputMode;
+        vadOptionsRef.current = VAD_PRESETS[sessionConfig.vadSensitivity];
         setStatus('listening');
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
             outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    systemInstruction: 'You are a friendly and helpful AI assistant. Keep your responses concise and conversational.',
+            const sessionPromise = connectLiveSession({
+                onopen: async () => {
+                    try {
+                        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+                        if (!sessionPromiseRef.current) {
+                            // Stopped while waiting for permission
+                            stream.getTracks().forEach(track => track.stop());
+                            return;
+                        }
+                        streamRef.current = stream;
+                        const capture = await startAudioCapture(stream, {
+                            onChunk: handleInputChunk,
+                            onLevel: setInputLevel,
+                        });
+                        if (streamRef.current !== stream) {
+                            // Stopped while the microphone was starting
+                            stream.getTracks().forEach(track => track.stop());
+                            await capture.stop();
+                            return;
+                        }
+                        captureRef.current = capture;
+
+                        if (recordAudio && outputAudioContextRef.current) {
+                            // Mixed in the output context, which also plays the model's audio
+                            const destination = outputAudioContextRef.current.createMediaStreamDestination();
+                            const micGain = outputAudioContextRef.current.createGain();
+                            micGain.gain.value = mutedRef.current ? 0 : 1;
+                            outputAudioContextRef.current.createMediaStreamSource(stream).connect(micGain).connect(destination);
+                            const recorder = new MediaRecorder(destination.stream);
+                            recordingChunksRef.current = [];
+                            recorder.ondataavailable = (event) => {
+                                if (event.data.size > 0) recordingChunksRef.current.push(event.data);
+                            };
+                            recorder.start(1000);
+                            recorderRef.current = recorder;
+                            recordingDestinationRef.current = destination;
+                            recordingMicGainRef.current = micGain;
+                        }
+                    } catch (err: any) {
+                        console.error('Could not start the microphone:', err);
+                        setError(err?.name === 'NotAllowedError' ? 'Could not access microphone. Please ensure permissions are granted.' : 'Could not start the microphone.');
+                        stopConversation();
+                    }
                 },
-                callbacks: {
-                    onopen: async () => {
-                        streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-                        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-                        sourceNodeRef.current = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-                        scriptProcessorRef.current = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
+                onmessage: async (message: LiveServerMessage) => {
+                    const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+                    if (base64Audio && outputAudioContextRef.current) {
+                        setStatus('speaking');
+                        const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current, 24000, 1);
                         
-                        scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            
-                            const l = inputData.length;
-                            const int16 = new Int16Array(l);
-                            for (let i = 0; i < l; i++) {
-                                int16[i] = inputData[i] * 32768;
-                            }
+                        const currentTime = outputAudioContextRef.current.currentTime;
+                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentTime);
 
-                            const pcmBlob: Blob = {
-                                data: encode(new Uint8Array(int16.buffer)),
-                                mimeType: 'audio/pcm;rate=16000',
-                            };
-                            if (sessionPromiseRef.current) {
-                                sessionPromiseRef.current.then((session) => {
-                                    session.sendRealtimeInput({ media: pcmBlob });
-                                });
+                        const source = outputAudioContextRef.current.createBufferSource();
+                        source.buffer = audioBuffer;
+                        source.connect(outputAudioContextRef.current.destination);
+                        if (recordingDestinationRef.current) source.connect(recordingDestinationRef.current);
+                        
+                        source.addEventListener('ended', () => {
+                            audioSourcesRef.current.delete(source);
+                            if (audioSourcesRef.current.size === 0) {
+                                setStatus('listening');
                             }
-                        };
-
-                        sourceNodeRef.current.connect(scriptProcessorRef.current);
-                        scriptProcessorRef.current.connect(inputAudioContextRef.current.destination);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                        const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                        if (base64Audio && outputAudioContextRef.current) {
-                            setStatus('speaking');
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current, 24000, 1);
-                            
-                            const currentTime = outputAudioContextRef.current.currentTime;
-                            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentTime);
-
-                            const source = outputAudioContextRef.current.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(outputAudioContextRef.current.destination);
-                            
-                            source.addEventListener('ended', () => {
-                                audioSourcesRef.current.delete(source);
-                                if (audioSourcesRef.current.size === 0) {
-                                    setStatus('listening');
-                                }
-                            });
-                            
-                            source.start(nextStartTimeRef.current);
-                            nextStartTimeRef.current += audioBuffer.duration;
-                            audioSourcesRef.current.add(source);
-                        }
+                        });
+                        
+                        source.start(nextStartTimeRef.current);
+                        nextStartTimeRef.current += audioBuffer.duration;
+                        audioSourcesRef.current.add(source);
+                    }
 
-                        if (message.serverContent?.inputTranscription) {
-                            currentInputRef.current += message.serverContent.inputTranscription.text;
-                            setCurrentInput(currentInputRef.current);
-                        }
-                        if (message.serverContent?.outputTranscription) {
-                            currentOutputRef.current += message.serverContent.outputTranscription.text;
-                            setCurrentOutput(currentOutputRef.current);
-                        }
-                        if(message.serverContent?.interrupted) {
-                            audioSourcesRef.current.forEach(source => source.stop());
-                            audioSourcesRef.current.clear();
-                            nextStartTimeRef.current = 0;
-                            setStatus('listening');
-                        }
-                        if (message.serverContent?.turnComplete) {
-                            const finalInput = currentInputRef.current;
-                            const finalOutput = currentOutputRef.current;
-                            setConversation(prev => [
-                                ...prev,
-                                { role: 'user', text: finalInput },
-                                { role: 'model', text: finalOutput },
-                            ]);
-                            currentInputRef.current = '';
-                            currentOutputRef.current = '';
-                            setCurrentInput('');
-                            setCurrentOutput('');
-                        }
-                    },
-                    onclose: () => {
-                        console.log('Connection closed.');
-                        setStatus('idle');
-                    },
-                    onerror: (e) => {
-                        console.error('An error occurred:', e);
-                        setError('An error occurred during the conversation. Please try again.');
-                        stopConversation();
-                    },
-                }
-            });
+                    if (message.serverContent?.inputTranscription) {
+                        turnTimesRef.current.input ??= Date.now();
+                        currentInputRef.current += message.serverContent.inputTranscription.text;
+                        setCurrentInput(currentInputRef.current);
+                    }
+                    if (message.serverContent?.outputTranscription) {
+                        turnTimesRef.current.output ??= Date.now();
+                        currentOutputRef.current += message.serverContent.outputTranscription.text;
+                        setCurrentOutput(currentOutputRef.current);
+                    }
+                    if(message.serverContent?.interrupted) {
+                        audioSourcesRef.current.forEach(source => source.stop());
+                        audioSourcesRef.current.clear();
+                        nextStartTimeRef.current = 0;
+                        setStatus('listening');
+                    }
+                    if (message.serverContent?.turnComplete) {
+                        const finalInput = currentInputRef.current;
+                        const finalOutput = currentOutputRef.current;
+                        saveTurn(finalInput, finalOutput);
+                        setConversation(prev => [
+                            ...prev,
+                            { role: 'user', text: finalInput },
+                            { role: 'model', text: finalOutput },
+                        ]);
+                        currentInputRef.current = '';
+                        currentOutputRef.current = '';
+                        setCurrentInput('');
+                        setCurrentOutput('');
+                    }
+                },
+                onclose: () => {
+                    // The server ended the session, for example at its time limit
+                    if (sessionPromiseRef.current === sessionPromise) stopConversation();
+                },
+                onerror: (e) => {
+                    console.error('An error occurred:', e);
+                    setError('An error occurred during the conversation. Please try again.');
+                    if (sessionPromiseRef.current === sessionPromise) stopConversation();
+                },
+            }, { ...sessionConfig, systemInstruction });
+            sessionPromiseRef.current = sessionPromise;
 
         } catch (err: any) {
+            if (isAbortError(err)) {
+                setStatus('idle');
+                return;
+            }
             console.error(err);
-            setError(err.message || 'Failed to start the conversation.');
+            setError(err?.name === 'NotAllowedError' ? 'Could not access microphone. Please ensure permissions are granted.' : toAIServiceError(err));
             setStatus('idle');
         }
     };
@@ -200,6 +516,62 @@ const LiveChat: React.FC = () => {
         };
     }, []);
 
+    const updateSessionConfig = (changes: Partial<LiveSessionConfig>) => {
+        const next = { ...sessionConfig, ...changes };
+        setSessionConfig(next);
+        saveLiveConfig(next);
+    };
+
+    const handleToggleMute = () => {
+        const next = !mutedRef.current;
+        mutedRef.current = next;
+        setMuted(next);
+        if (recordingMicGainRef.current) recordingMicGainRef.current.gain.value = next ? 0 : 1;
+        if (!next) return;
+        // Let the model know the user has stopped, so it answers what it already heard
+        if (activityOpenRef.current) {
+            setActivity(false);
+        } else if (inputModeRef.current === 'always') {
+            sendRealtime({ audioStreamEnd: true });
+        }
+        vadStateRef.current = INITIAL_VAD_STATE;
+        preRollRef.current = [];
+    };
+
+    const startTalking = () => {
+        if (inputModeRef.current === 'push-to-talk' && !mutedRef.current && sessionPromiseRef.current) setActivity(true);
+    };
+
+    const stopTalking = () => {
+        if (inputModeRef.current === 'push-to-talk') setActivity(false);
+    };
+
+    const isActive = status !== 'idle';
+    const pushToTalk = isActive && sessionConfig.inputMode === 'push-to-talk';
+
+    useEffect(() => {
+        if (!pushToTalk) return;
+        // Space is handled on both events so it never also presses a focused button
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTextField(e.target)) return;
+            e.preventDefault();
+            if (!e.repeat) startTalking();
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTextField(e.target)) return;
+            e.preventDefault();
+            stopTalking();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', stopTalking);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', stopTalking);
+        };
+    }, [pushToTalk]);
+
     const handleToggleConversation = () => {
         if (status === 'idle') {
             startConversation();
@@ -208,6 +580,15 @@ const LiveChat: React.FC = () => {
         }
     };
 
+    const sendingAudio = !muted && (sessionConfig.inputMode === 'always' || activityOpen);
+
+    const getInputHint = () => {
+        if (muted) return 'Muted';
+        if (sessionConfig.inputMode === 'push-to-talk') return activityOpen ? 'Talking' : 'Hold space to talk';
+        if (sessionConfig.inputMode === 'voice-activity') return activityOpen ? 'Hearing you' : 'Waiting for speech';
+        return null;
+    };
+
     const getStatusText = () => {
         switch (status) {
             case 'listening': return "Listening...";
@@ -222,52 +603,170 @@ const LiveChat: React.FC = () => {
              <div className="text-center p-4 border-b border-gray-200 dark:border-gray-800">
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Live Conversation</h2>
                 <p className={`text-gray-500 dark:text-slate-400 transition-opacity duration-300 ${status === 'idle' ? 'opacity-100' : 'opacity-0'}`}>{getStatusText()}</p>
-                 <div className={`flex items-center justify-center gap-2 text-red-500 dark:text-red-400 transition-opacity duration-300 h-6 ${status !== 'idle' ? 'opacity-100' : 'opacity-0'}`}>
+                 <div className={`flex items-center justify-center gap-2 text-red-500 dark:text-red-400 transition-opacity duration-300 h-6 ${isActive ? 'opacity-100' : 'opacity-0'}`}>
                     {status === 'listening' && <><div className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></div><span>Listening...</span></>}
                     {status === 'speaking' && <><div className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></div><span>Gemini is speaking...</span></>}
+                    {isActive && (
+                        <>
+                            <div
+                                className="w-24 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+                                title={sendingAudio ? 'Microphone level: sending audio' : 'Microphone level: not sending audio'}
+                            >
+                                <div
+                                    className={`h-full transition-[width] duration-100 ${sendingAudio ? 'bg-red-500' : 'bg-gray-400 dark:bg-gray-500'}`}
+                                    style={{ width: `${toMeterPercent(inputLevel)}%` }}
+                                />
+                            </div>
+                            {getInputHint() && <span className="text-sm text-gray-500 dark:text-gray-400">{getInputHint()}</span>}
+                        </>
+                    )}
                 </div>
             </div>
-            <div className="flex-grow p-6 overflow-y-auto custom-scrollbar">
-                <div className="flex flex-col gap-4">
-                    {conversation.map((msg, index) => (
-                        <div key={index} className={`flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''}`}>
-                             {msg.role === 'model' && <div className="w-8 h-8 flex-shrink-0 bg-red-600 rounded-full flex items-center justify-center"><BotIcon className="w-5 h-5 text-white" /></div>}
-                            <div className={`max-w-xl p-4 rounded-2xl ${msg.role === 'user' ? 'bg-red-700 text-white rounded-br-none' : 'bg-gray-100 dark:bg-gray-800 rounded-bl-none'}`}>
-                                <p className="whitespace-pre-wrap">{msg.text}</p>
+            <div className="relative flex-grow min-h-0">
+                <div className="h-full p-6 overflow-y-auto custom-scrollbar">
+                    <div className="flex flex-col gap-4">
+                        {conversation.map((msg, index) => (
+                            <div key={index} className={`flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+                                 {msg.role === 'model' && <div className="w-8 h-8 flex-shrink-0 bg-red-600 rounded-full flex items-center justify-center"><BotIcon className="w-5 h-5 text-white" /></div>}
+                                <div className={`max-w-xl p-4 rounded-2xl ${msg.role === 'user' ? 'bg-red-700 text-white rounded-br-none' : 'bg-gray-100 dark:bg-gray-800 rounded-bl-none'}`}>
+                                    <p className="whitespace-pre-wrap">{msg.text}</p>
+                                </div>
+                                {msg.role === 'user' && <div className="w-8 h-8 flex-shrink-0 bg-gray-300 dark:bg-gray-700 rounded-full flex items-center justify-center"><UserIcon className="w-5 h-5 text-gray-800 dark:text-white" /></div>}
                             </div>
-                            {msg.role === 'user' && <div className="w-8 h-8 flex-shrink-0 bg-gray-300 dark:bg-gray-700 rounded-full flex items-center justify-center"><UserIcon className="w-5 h-5 text-gray-800 dark:text-white" /></div>}
-                        </div>
-                    ))}
-                    {currentInput && (
-                        <div className="flex items-start gap-4 justify-end">
-                            <div className="max-w-xl p-4 rounded-2xl bg-red-700 text-gray-300 rounded-br-none">
-                                <p className="whitespace-pre-wrap">{currentInput}</p>
+                        ))}
+                        {currentInput && (
+                            <div className="flex items-start gap-4 justify-end">
+                                <div className="max-w-xl p-4 rounded-2xl bg-red-700 text-gray-300 rounded-br-none">
+                                    <p className="whitespace-pre-wrap">{currentInput}</p>
+                                </div>
+                                 <div className="w-8 h-8 flex-shrink-0 bg-gray-300 dark:bg-gray-700 rounded-full flex items-center justify-center"><UserIcon className="w-5 h-5 text-gray-800 dark:text-white" /></div>
                             </div>
-                             <div className="w-8 h-8 flex-shrink-0 bg-gray-300 dark:bg-gray-700 rounded-full flex items-center justify-center"><UserIcon className="w-5 h-5 text-gray-800 dark:text-white" /></div>
-                        </div>
-                    )}
-                    {currentOutput && (
-                         <div className="flex items-start gap-4">
-                             <div className="w-8 h-8 flex-shrink-0 bg-red-600 rounded-full flex items-center justify-center"><BotIcon className="w-5 h-5 text-white" /></div>
-                            <div className="max-w-xl p-4 rounded-2xl bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400 rounded-bl-none">
-                                <p className="whitespace-pre-wrap">{currentOutput}</p>
+                        )}
+                        {currentOutput && (
+                             <div className="flex items-start gap-4">
+                                 <div className="w-8 h-8 flex-shrink-0 bg-red-600 rounded-full flex items-center justify-center"><BotIcon className="w-5 h-5 text-white" /></div>
+                                <div className="max-w-xl p-4 rounded-2xl bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400 rounded-bl-none">
+                                    <p className="whitespace-pre-wrap">{currentOutput}</p>
+                                </div>
                             </div>
+                        )}
+                    </div>
+                    <div ref={conversationEndRef} />
+                </div>
+                {video && <VideoPreview stream={video.stream} source={video.source} onStop={stopVideo} />}
+            </div>
+            {error && (
+                <div className="px-6 pt-2">
+                    <ErrorMessage error={error} onRetry={startConversation} onDismiss={() => setError(null)} />
+                </div>
+            )}
+            {savedSession && status === 'idle' && (
+                <div className="mx-6 mt-2 flex flex-wrap items-center gap-3 rounded-lg bg-gray-100 dark:bg-gray-800 px-4 py-2 text-sm text-gray-700 dark:text-gray-300">
+                    <span className="flex-grow">Saved to your chat history as "{savedSession.title}".</span>
+                    {savedSession.recording && (
+                        <button
+                            onClick={() => downloadBlob(savedSession.recording!, `${toFileName(savedSession.title, 'voice-session')}.${audioExtension(savedSession.recording!.type)}`)}
+                            className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline"
+                        >
+                            <DownloadIcon className="w-4 h-4" />
+                            Download recording
+                        </button>
+                    )}
+                    {onOpenInChat && (
+                        <button onClick={() => onOpenInChat(savedSession.conversationId)} className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline">
+                            <MessageSquareIcon className="w-4 h-4" />
+                            Continue in Chat
+                        </button>
+                    )}
+                </div>
+            )}
+            <div className="p-6 border-t border-gray-200 dark:border-gray-800 flex flex-col items-center gap-3">
+                {status === 'idle' && (
+                    <details className="w-full rounded-lg border border-gray-200 dark:border-gray-800">
+                        <summary className="px-4 py-2 cursor-pointer select-none text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Session settings
+                        </summary>
+                        <div className="px-4 pb-4 pt-2 max-h-[40vh] overflow-y-auto custom-scrollbar">
+                            <LiveSessionSettings config={sessionConfig} onChange={updateSessionConfig} onError={setError} />
                         </div>
+                    </details>
+                )}
+                <div className="flex flex-wrap items-center justify-center gap-3">
+                    {isActive && (
+                        <button
+                            onClick={handleToggleMute}
+                            title={muted ? 'Unmute' : 'Mute'}
+                            aria-label={muted ? 'Unmute' : 'Mute'}
+                            aria-pressed={muted}
+                            className={`p-4 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 ${
+                                muted ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                            }`}
+                        >
+                            {muted ? <MicrophoneOffIcon className="w-6 h-6" /> : <MicrophoneIcon className="w-6 h-6" />}
+                        </button>
+                    )}
+                    {isActive && (
+                        <button
+                            onClick={() => handleToggleVideo('camera')}
+                            title={video?.source === 'camera' ? 'Turn off camera' : 'Show the camera'}
+                            aria-label={video?.source === 'camera' ? 'Turn off camera' : 'Show the camera'}
+                            aria-pressed={video?.source === 'camera'}
+                            className={`p-4 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 ${
+                                video?.source === 'camera' ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                            }`}
+                        >
+                            <CameraIcon className="w-6 h-6" />
+                        </button>
                     )}
+                    {isActive && typeof navigator.mediaDevices?.getDisplayMedia === 'function' && (
+                        <button
+                            onClick={() => handleToggleVideo('screen')}
+                            title={video?.source === 'screen' ? 'Stop sharing' : 'Share a screen'}
+                            aria-label={video?.source === 'screen' ? 'Stop sharing' : 'Share a screen'}
+                            aria-pressed={video?.source === 'screen'}
+                            className={`p-4 rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 ${
+                                video?.source === 'screen' ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                            }`}
+                        >
+                            <MonitorIcon className="w-6 h-6" />
+                        </button>
+                    )}
+                    {pushToTalk && (
+                        <button
+                            onPointerDown={(e) => {
+                                e.currentTarget.setPointerCapture(e.pointerId);
+                                startTalking();
+                            }}
+                            onPointerUp={stopTalking}
+                            onPointerCancel={stopTalking}
+                            onLostPointerCapture={stopTalking}
+                            onContextMenu={(e) => e.preventDefault()}
+                            disabled={muted}
+                            className={`px-6 py-4 rounded-full font-semibold select-none touch-none transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed ${
+                                activityOpen ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                            }`}
+                        >
+                            Hold to talk
+                        </button>
+                    )}
+                    <button
+                        onClick={handleToggleConversation}
+                        className="px-8 py-4 rounded-full text-white font-semibold flex items-center justify-center gap-3 transition-all duration-300 transform focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 bg-red-600 hover:bg-red-500"
+                    >
+                        <MicrophoneIcon className="w-6 h-6" />
+                        <span>{isActive ? 'Stop Conversation' : 'Start Conversation'}</span>
+                    </button>
                 </div>
-                <div ref={conversationEndRef} />
-            </div>
-            {error && <p className="text-red-500 dark:text-red-400 text-center p-2">{error}</p>}
-            <div className="p-6 border-t border-gray-200 dark:border-gray-800 flex justify-center">
-                 <button
-                    onClick={handleToggleConversation}
-                    className={`px-8 py-4 rounded-full text-white font-semibold flex items-center justify-center gap-3 transition-all duration-300 transform focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 ${
-                        status !== 'idle' ? 'bg-red-600 hover:bg-red-500' : 'bg-red-600 hover:bg-red-500'
-                    }`}
-                >
-                    <MicrophoneIcon className="w-6 h-6" />
-                    <span>{status !== 'idle' ? 'Stop Conversation' : 'Start Conversation'}</span>
-                </button>
+                <label className={`flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 ${status !== 'idle' ? 'opacity-50' : ''}`}>
+                    <input
+                        type="checkbox"
+                        checked={recordAudio}
+                        onChange={(e) => setRecordAudio(e.target.checked)}
+                        disabled={status !== 'idle'}
+                        className="accent-red-600"
+                    />
+                    Record audio of both sides
+                </label>
             </div>
         </div>
     );
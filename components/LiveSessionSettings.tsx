@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { usePersonas } from '../contexts/PersonaContext';
+import { findModel, SPEECH_VOICES } from '../services/modelRegistry';
+import { DEFAULT_LIVE_INSTRUCTION, LIVE_INPUT_MODES, LIVE_LANGUAGES, LIVE_VIDEO_FRAME_RATES, LiveInputMode, LiveSessionConfig } from '../services/liveSettings';
+import type { VadSensitivity } from '../utils/voiceActivity';
+import { DEFAULT_PERSONA } from '../services/personas';
+import { createSpeechPlayer, SpeechPlayer, SpeechPlayerState } from '../services/speechPlayer';
+import { SpeakerIcon, StopIcon } from './Icons';
+import LoadingSpinner from './LoadingSpinner';
+
+interface LiveSessionSettingsProps {
+  config: LiveSessionConfig;
+  onChange: (changes: Partial<LiveSessionConfig>) => void;
+  onError: (error: Error | string) => void;
+}
+
+const formatFrameRate = (rate: number) => rate < 1 ? `1 frame every ${1 / rate} seconds` : `${rate} ${rate === 1 ? 'frame' : 'frames'} per second`;
+
+const PREVIEW_TEXT = "Hi! This is how I'll sound when we talk.";
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-red-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+// Set up before a Live conversation starts; changes apply from the next session.
+const LiveSessionSettings: React.FC<LiveSessionSettingsProps> = ({ config, onChange, onError }) => {
+  const { modeConfigs } = useSettings();
+  const { personas } = usePersonas();
+  const [preview, setPreview] = useState<SpeechPlayerState>({ key: null, isLoading: false });
+  const previewPlayerRef = useRef<SpeechPlayer | null>(null);
+  const voiceRef = useRef(config.voice);
+  voiceRef.current = config.voice;
+
+  useEffect(() => {
+    return () => previewPlayerRef.current?.close();
+  }, []);
+
+  const liveModel = findModel(modeConfigs.live.model);
+  const nativeAudio = !!liveModel?.nativeAudio;
+  const customPersonas = personas.filter(persona => persona.id !== DEFAULT_PERSONA.id);
+
+  const handleTestVoice = () => {
+    if (!previewPlayerRef.current) {
+      previewPlayerRef.current = createSpeechPlayer({
+        getVoice: () => voiceRef.current,
+        onStateChange: setPreview,
+        onError: e => onError(e instanceof Error ? e : 'Failed to generate audio.'),
+      });
+    }
+    const player = previewPlayerRef.current;
+    player.stop();
+    if (!preview.key) player.enqueue('preview', [PREVIEW_TEXT]);
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div>
+        <label htmlFor="live-voice" className={labelClassName}>Voice</label>
+        <div className="flex gap-2">
+          <select
+            id="live-voice"
+            value={config.voice}
+            onChange={(e) => onChange({ voice: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Model default</option>
+            {SPEECH_VOICES.map(({ name, style }) => (
+              <option key={name} value={name}>{name} ({style})</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleTestVoice}
+            title={preview.key ? 'Stop' : 'Test voice'}
+            className="flex-shrink-0 p-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            {preview.isLoading ? <LoadingSpinner className="w-5 h-5" /> : preview.key ? <StopIcon className="w-5 h-5" /> : <SpeakerIcon className="w-5 h-5" />}
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The preview uses the text-to-speech model, so it is close to the Live voice but not identical.</p>
+      </div>
+
+      <div>
+        <label htmlFor="live-language" className={labelClassName}>Response language</label>
+        <select
+          id="live-language"
+          value={config.language}
+          onChange={(e) => onChange({ language: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">Same as mine</option>
+          {LIVE_LANGUAGES.map(({ code, name }) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="live-input-mode" className={labelClassName}>Microphone</label>
+        <select
+          id="live-input-mode"
+          value={config.inputMode}
+          onChange={(e) => onChange({ inputMode: e.target.value as LiveInputMode })}
+          className={inputClassName}
+        >
+          {LIVE_INPUT_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {LIVE_INPUT_MODES.find(mode => mode.value === config.inputMode)?.description}
+        </p>
+      </div>
+
+      {config.inputMode === 'voice-activity' && (
+        <div>
+          <label htmlFor="live-vad-sensitivity" className={labelClassName}>Detection sensitivity</label>
+          <select
+            id="live-vad-sensitivity"
+            value={config.vadSensitivity}
+            onChange={(e) => onChange({ vadSensitivity: e.target.value as VadSensitivity })}
+            className={inputClassName}
+          >
+            <option value="low">Low (noisy rooms)</option>
+            <option value="medium">Medium</option>
+            <option value="high">High (quiet voices)</option>
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="live-video-rate" className={labelClassName}>Camera and screen sharing</label>
+        <select
+          id="live-video-rate"
+          value={config.videoFrameRate}
+          onChange={(e) => onChange({ videoFrameRate: Number(e.target.value) })}
+          className={inputClassName}
+        >
+          {LIVE_VIDEO_FRAME_RATES.map(rate => (
+            <option key={rate} value={rate}>{formatFrameRate(rate)}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Turn the camera or screen sharing on during the conversation. Faster rates follow movement better but use more tokens.</p>
+      </div>
+
+      <div className="sm:col-span-2">
+        <label htmlFor="live-persona" className={labelClassName}>Instructions</label>
+        <select
+          id="live-persona"
+          value={config.personaId ?? ''}
+          onChange={(e) => onChange({ personaId: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">Custom</option>
+          {customPersonas.map(persona => (
+            <option key={persona.id} value={persona.id}>Persona: {persona.name}</option>
+          ))}
+        </select>
+        {config.personaId === null ? (
+          <textarea
+            value={config.systemInstruction}
+            onChange={(e) => onChange({ systemInstruction: e.target.value })}
+            placeholder={DEFAULT_LIVE_INSTRUCTION}
+            rows={3}
+            aria-label="System instruction"
+            className={`mt-2 resize-y ${inputClassName}`}
+          />
+        ) : (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Uses the persona's system instruction. The saved session continues in Chat with the same persona.
+          </p>
+        )}
+      </div>
+
+      <div className="sm:col-span-2 space-y-1">
+        <label className={`flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 ${nativeAudio ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={config.affectiveDialog}
+            onChange={(e) => onChange({ affectiveDialog: e.target.checked })}
+            disabled={!nativeAudio}
+            className="accent-red-600"
+          />
+          Affective dialog: match the tone of replies to how I sound
+        </label>
+        <label className={`flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 ${nativeAudio ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={config.proactiveAudio}
+            onChange={(e) => onChange({ proactiveAudio: e.target.checked })}
+            disabled={!nativeAudio}
+            className="accent-red-600"
+          />
+          Proactive audio: stay quiet when speech isn't meant for the model
+        </label>
+        {!nativeAudio && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {liveModel?.label ?? modeConfigs.live.model} doesn't support these. Choose a native audio model under Settings → Models → Live Conversation.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveSessionSettings;
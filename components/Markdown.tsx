@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown, parseInline, closePendingMarkdown, MarkdownBlock, InlineNode } from '../utils/markdown';
+import CodeBlock from './CodeBlock';
+import { ImageIcon } from './Icons';
+
+// KaTeX is loaded from a CDN in index.html, like JSZip.
+declare const katex: { renderToString: (tex: string, options: Record<string, unknown>) => string } | undefined;
+
+interface MarkdownProps {
+  text: string;
+  // Set while the text is still streaming in, to smooth over half-received markup.
+  streaming?: boolean;
+  onOpenInEditor?: (code: string, language: string) => void;
+  className?: string;
+}
+
+const MathFormula: React.FC<{ tex: string; display: boolean }> = ({ tex, display }) => {
+  const html = useMemo(() => {
+    if (typeof katex === 'undefined') return null;
+    // KaTeX escapes the TeX it is given, and `trust: false` rejects \href, \url and
+    // other commands that could emit arbitrary markup.
+    return katex.renderToString(tex, { displayMode: display, throwOnError: false, trust: false, strict: 'ignore' });
+  }, [tex, display]);
+
+  if (html === null) {
+    return display
+      ? <pre className="my-3 font-mono text-sm overflow-x-auto">{tex}</pre>
+      : <code className="font-mono text-sm">{tex}</code>;
+  }
+  return display
+    ? <div className="my-3 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// Inline data: images show straight away. A remote image waits for a click, since
+// loading it sends a request the model chose, and a prompt injection could put
+// conversation text in its URL.
+const MarkdownImage: React.FC<{ src: string; alt: string }> = ({ src, alt }) => {
+  const [loaded, setLoaded] = useState(false);
+  if (loaded || src.startsWith('data:')) {
+    return <img src={src} alt={alt} className="inline-block max-w-full rounded" />;
+  }
+  let host = src;
+  try {
+    host = new URL(src).host;
+  } catch {}
+  return (
+    <button
+      type="button"
+      onClick={() => setLoaded(true)}
+      title={src}
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+    >
+      <ImageIcon className="w-4 h-4" />
+      Load image{alt ? `: ${alt}` : ''} ({host})
+    </button>
+  );
+};
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'code':
+        return <code key={index} className="px-1 py-0.5 rounded bg-gray-200 dark:bg-gray-700 font-mono text-[0.9em]">{node.text}</code>;
+      case 'math':
+        return <MathFormula key={index} tex={node.tex} display={false} />;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-red-600 dark:text-red-400 underline hover:text-red-500">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'image':
+        return <MarkdownImage key={index} src={node.src} alt={node.alt} />;
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+const Inline: React.FC<{ text: string }> = ({ text }) => {
+  const nodes = useMemo(() => parseInline(text), [text]);
+  return <>{renderInline(nodes)}</>;
+};
+
+const headingClasses = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm'];
+
+const alignClass = (align: 'left' | 'center' | 'right' | null) =>
+  align === 'center' ? 'text-center' : align === 'right' ? 'text-right' : 'text-left';
+
+interface BlockProps {
+  block: MarkdownBlock;
+  onOpenInEditor?: (code: string, language: string) => void;
+}
+
+// Memoised so earlier blocks are left untouched while later ones stream in.
+const Block: React.FC<BlockProps> = React.memo(({ block, onOpenInEditor }) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag className={`${headingClasses[block.level - 1]} font-bold mt-4 mb-2 first:mt-0`}><Inline text={block.text} /></Tag>;
+    }
+    case 'paragraph':
+      return <p className="my-2 first:mt-0 last:mb-0"><Inline text={block.text} /></p>;
+    case 'code':
+      return <CodeBlock code={block.code} language={block.language} onOpenInEditor={onOpenInEditor} />;
+    case 'math':
+      return <MathFormula tex={block.tex} display />;
+    case 'blockquote':
+      return (
+        <blockquote className="my-3 pl-4 border-l-4 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300">
+          <Blocks blocks={block.blocks} onOpenInEditor={onOpenInEditor} />
+        </blockquote>
+      );
+    case 'list': {
+      const isTaskList = block.items.some(item => item.checked !== null);
+      const listClasses = isTaskList ? 'list-none pl-1' : block.ordered ? 'list-decimal pl-6' : 'list-disc pl-6';
+      const items = block.items.map((item, index) => (
+        <li key={index} className="my-1">
+          {item.checked !== null ? (
+            <div className="flex items-start gap-2">
+              <input type="checkbox" checked={item.checked} readOnly className="mt-1.5 accent-red-600" />
+              <div className="flex-grow"><Blocks blocks={item.blocks} onOpenInEditor={onOpenInEditor} /></div>
+            </div>
+          ) : (
+            <Blocks blocks={item.blocks} onOpenInEditor={onOpenInEditor} />
+          )}
+        </li>
+      ));
+      return block.ordered
+        ? <ol start={block.start} className={`my-2 ${listClasses}`}>{items}</ol>
+        : <ul className={`my-2 ${listClasses}`}>{items}</ul>;
+    }
+    case 'table':
+      return (
+        <div className="my-3 overflow-x-auto custom-scrollbar">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, index) => (
+                  <th key={index} className={`px-3 py-2 border border-gray-300 dark:border-gray-600 bg-gray-200/60 dark:bg-gray-700/60 font-semibold ${alignClass(block.align[index])}`}>
+                    <Inline text={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td key={index} className={`px-3 py-2 border border-gray-300 dark:border-gray-600 ${alignClass(block.align[index])}`}>
+                      <Inline text={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'hr':
+      return <hr className="my-4 border-gray-300 dark:border-gray-600" />;
+  }
+}, (previous, next) =>
+  previous.onOpenInEditor === next.onOpenInEditor && JSON.stringify(previous.block) === JSON.stringify(next.block)
+);
+
+const Blocks: React.FC<{ blocks: MarkdownBlock[]; onOpenInEditor?: (code: string, language: string) => void }> = ({ blocks, onOpenInEditor }) => (
+  <>
+    {blocks.map((block, index) => <Block key={index} block={block} onOpenInEditor={onOpenInEditor} />)}
+  </>
+);
+
+const Markdown: React.FC<MarkdownProps> = ({ text, streaming = false, onOpenInEditor, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(streaming ? closePendingMarkdown(text) : text), [text, streaming]);
+
+  return (
+    <div className={`break-words ${className}`}>
+      <Blocks blocks={blocks} onOpenInEditor={onOpenInEditor} />
+    </div>
+  );
+};
+
+export default Markdown;
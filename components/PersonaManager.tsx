@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatMode, Persona } from '../types';
+import { usePersonas } from '../contexts/PersonaContext';
+import { DEFAULT_PERSONA, PERSONA_TEMPLATES } from '../services/personas';
+import { getModelsOfKind } from '../services/modelRegistry';
+import { CHAT_MODE_LABELS } from '../services/modelSettings';
+import { ATTACHMENT_ACCEPT, readFileAsAttachment } from '../utils/attachments';
+import AttachmentList from './AttachmentList';
+import ErrorMessage from './ErrorMessage';
+import { PaperclipIcon, PlusIcon, TrashIcon, XIcon } from './Icons';
+
+interface PersonaManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Opened from a picker, the persona selected there is shown first
+  initialPersonaId?: string;
+}
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-red-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({ isOpen, onClose, initialPersonaId }) => {
+  const { personas, getPersona, savePersona, deletePersona } = usePersonas();
+  // The persona being edited; null while the built-in one is selected
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [temperatureText, setTemperatureText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (persona: Persona | null) => {
+    setDraft(persona);
+    setTemperatureText(persona?.temperature?.toString() ?? '');
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      const persona = getPersona(initialPersonaId);
+      select(persona.id === DEFAULT_PERSONA.id ? null : persona);
+    }
+    // Only when opening; later changes to the list come from this modal
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isSaved = !!draft && personas.some(p => p.id === draft.id);
+
+  const createPersona = (template: Omit<Persona, 'id'>) => {
+    select({ ...template, id: crypto.randomUUID() });
+  };
+
+  const update = (changes: Partial<Persona>) => {
+    setDraft(current => current && { ...current, ...changes });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Give the persona a name.');
+      return;
+    }
+    const temperature = parseFloat(temperatureText);
+    const persona: Persona = { ...draft, name: draft.name.trim() };
+    if (temperatureText.trim() === '' || Number.isNaN(temperature)) delete persona.temperature;
+    else persona.temperature = Math.min(2, Math.max(0, temperature));
+    savePersona(persona);
+    select(persona);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (window.confirm(`Delete the "${draft.name}" persona? Conversations that use it will switch to ${DEFAULT_PERSONA.name}.`)) {
+      deletePersona(draft.id);
+      select(null);
+    }
+  };
+
+  const handleAddDocuments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? [...e.target.files] : [];
+    e.target.value = '';
+    const results = await Promise.allSettled(files.map(readFileAsAttachment));
+    const added = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    setError(failure ? (failure.reason instanceof Error ? failure.reason.message : 'A file could not be attached.') : null);
+    setDraft(current => current && { ...current, documents: [...(current.documents ?? []), ...added] });
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800 animate-fade-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Personas</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row min-h-0 flex-grow">
+          <div className="md:w-1/3 p-4 border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-800 overflow-y-auto custom-scrollbar">
+            <button
+              onClick={() => createPersona({ name: '', systemInstruction: '' })}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md bg-red-600 text-white hover:bg-red-500 font-semibold text-sm transition-colors"
+            >
+              <PlusIcon className="w-4 h-4" />
+              New Persona
+            </button>
+            <nav className="mt-3 flex flex-col gap-1">
+              {personas.map(persona => {
+                const isSelected = persona.id === (draft?.id ?? DEFAULT_PERSONA.id);
+                return (
+                  <button
+                    key={persona.id}
+                    onClick={() => select(persona.id === DEFAULT_PERSONA.id ? null : persona)}
+                    className={`text-left px-3 py-2 rounded-md text-sm truncate transition-colors ${
+                      isSelected
+                        ? 'bg-red-600/10 dark:bg-red-500/10 text-red-600 dark:text-red-300'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {persona.name}
+                  </button>
+                );
+              })}
+            </nav>
+            <p className="mt-4 px-3 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">Templates</p>
+            <div className="mt-1 flex flex-col gap-1">
+              {PERSONA_TEMPLATES.map(template => (
+                <button
+                  key={template.name}
+                  onClick={() => createPersona(template)}
+                  className="flex items-center gap-2 text-left px-3 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <PlusIcon className="w-3.5 h-3.5 flex-shrink-0" />
+                  <span className="truncate">{template.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="md:w-2/3 p-6 space-y-4 overflow-y-auto custom-scrollbar">
+            {!draft ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {DEFAULT_PERSONA.name} is the built-in assistant. Each chat mode uses its own instructions and the models set in Settings.
+                Create a persona to give conversations a different role, model or reference documents.
+              </p>
+            ) : (
+              <>
+                <label className="block">
+                  <span className={labelClassName}>Name</span>
+                  <input value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="e.g. Code reviewer" className={inputClassName} />
+                </label>
+                <label className="block">
+                  <span className={labelClassName}>System instruction</span>
+                  <textarea
+                    value={draft.systemInstruction}
+                    onChange={e => update({ systemInstruction: e.target.value })}
+                    rows={6}
+                    placeholder="Describe the assistant's role, tone and rules."
+                    className={`${inputClassName} resize-y`}
+                  />
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <label className="block">
+                    <span className={labelClassName}>Model</span>
+                    <select
+                      value={draft.model ?? ''}
+                      onChange={e => update({ model: e.target.value || undefined })}
+                      className={inputClassName}
+                    >
+                      <option value="">Mode default</option>
+                      {getModelsOfKind('text').map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className={labelClassName}>Temperature</span>
+                    <input
+                      type="number"
+                      step={0.1}
+                      min={0}
+                      max={2}
+                      value={temperatureText}
+                      placeholder="Mode default"
+                      onChange={e => setTemperatureText(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className={labelClassName}>Chat mode</span>
+                    <select
+                      value={draft.chatMode ?? ''}
+                      onChange={e => update({ chatMode: (e.target.value || undefined) as ChatMode | undefined })}
+                      className={inputClassName}
+                    >
+                      <option value="">Settings default</option>
+                      {(Object.keys(CHAT_MODE_LABELS) as ChatMode[]).map(mode => (
+                        <option key={mode} value={mode}>{CHAT_MODE_LABELS[mode]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className={labelClassName}>Reference documents</span>
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="flex items-center gap-1 text-sm text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      <PaperclipIcon className="w-4 h-4" />
+                      Add files
+                    </button>
+                    <input ref={fileInputRef} type="file" multiple accept={ATTACHMENT_ACCEPT} className="hidden" onChange={handleAddDocuments} />
+                  </div>
+                  {draft.documents?.length ? (
+                    <AttachmentList
+                      attachments={draft.documents}
+                      onRemove={(id) => update({ documents: draft.documents!.filter(d => d.id !== id) })}
+                      className="mt-2"
+                    />
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Files added here are sent at the start of every conversation with this persona.</p>
+                  )}
+                </div>
+                {error && <ErrorMessage error={error} onDismiss={() => setError(null)} />}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 bg-gray-50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-800 rounded-b-xl flex justify-between gap-2">
+          <div>
+            {isSaved && (
+              <button onClick={handleDelete} className="flex items-center gap-2 px-4 py-2 rounded-md text-red-600 dark:text-red-400 hover:bg-red-500/10 transition-colors">
+                <TrashIcon className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
+              Close
+            </button>
+            {draft && (
+              <button onClick={handleSave} className="px-4 py-2 rounded-md bg-red-600 text-white font-semibold hover:bg-red-500 transition-colors">
+                Save
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -1,7 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { generateProject } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { generateProject, isAbortError } from '../services/geminiService';
+import { getLatestAsset, saveAsset } from '../services/storage';
 import LoadingSpinner from './LoadingSpinner';
-import { PackageIcon, SparklesIcon, FolderIcon, FileIcon, DownloadIcon, PlayIcon, BookOpenIcon, BriefcaseIcon, ShoppingCartIcon, XIcon } from './Icons';
+import ErrorMessage from './ErrorMessage';
+import SlashCommands from './SlashCommands';
+import { PackageIcon, SparklesIcon, FolderIcon, FileIcon, DownloadIcon, PlayIcon, BookOpenIcon, BriefcaseIcon, ShoppingCartIcon, XIcon, StopIcon, PlusIcon } from './Icons';
 
 declare const JSZip: any;
 
@@ -10,6 +13,11 @@ interface ProjectFile {
   content: string;
 }
 
+interface GeneratedProject {
+  prompt: string;
+  files: ProjectFile[];
+}
+
 interface TreeNode {
   name: string;
   children?: { [key: string]: TreeNode };
@@ -89,11 +97,35 @@ const ProjectGenerator: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<ProjectFile | null>(null);
   const [fileTree, setFileTree] = useState<TreeNode | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
   const [currentTip, setCurrentTip] = useState(aiTips[0]);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const showProject = (projectFiles: ProjectFile[]) => {
+    setFiles(projectFiles);
+    setFileTree(buildFileTree(projectFiles));
+    if (projectFiles.length > 0) {
+      const firstFile = projectFiles.find(f => f.path.toLowerCase().includes('index.html')) || projectFiles.find(f => f.path.toLowerCase().includes('package.json')) || projectFiles[0];
+      setSelectedFile(firstFile);
+    }
+  };
 
+  // Show the last generated project again when coming back to this mode
+  useEffect(() => {
+    let isMounted = true;
+    getLatestAsset<GeneratedProject>('project').then(asset => {
+      if (!isMounted || !asset) return;
+      setPrompt(asset.data.prompt);
+      showProject(asset.data.files);
+    });
+    return () => { isMounted = false; };
+  }, []);
 
   useEffect(() => {
     let tipInterval: ReturnType<typeof setInterval>;
@@ -105,8 +137,7 @@ const ProjectGenerator: React.FC = () => {
     return () => clearInterval(tipInterval);
   }, [isLoading]);
   
-  const handleGenerateProject = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const runGeneration = async () => {
     if (!prompt.trim() || isLoading) return;
 
     setIsLoading(true);
@@ -115,30 +146,48 @@ const ProjectGenerator: React.FC = () => {
     setSelectedFile(null);
     setFileTree(null);
     setLoadingProgress(0);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     const progressInterval = setInterval(() => {
         setLoadingProgress(prev => Math.min(prev + 1, 95));
     }, 500);
 
     try {
-      const generatedFiles = await generateProject(prompt);
+      const generatedFiles = await generateProject(prompt, controller.signal);
       clearInterval(progressInterval);
       setLoadingProgress(100);
-      setFiles(generatedFiles);
-      const tree = buildFileTree(generatedFiles);
-      setFileTree(tree);
-      if (generatedFiles.length > 0) {
-        const firstFile = generatedFiles.find(f => f.path.toLowerCase().includes('index.html')) || generatedFiles.find(f => f.path.toLowerCase().includes('package.json')) || generatedFiles[0];
-        setSelectedFile(firstFile);
-      }
+      showProject(generatedFiles);
+      saveAsset<GeneratedProject>('project', prompt, { prompt, files: generatedFiles });
     } catch (e: any) {
       clearInterval(progressInterval);
-      setError(e.message || 'An unexpected error occurred.');
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e : 'An unexpected error occurred.');
+      }
     } finally {
       setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const handleGenerateProject = (e: React.FormEvent) => {
+    e.preventDefault();
+    runGeneration();
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Back to the templates and prompt; the project stays in storage.
+  const handleNewProject = () => {
+    setFiles([]);
+    setFileTree(null);
+    setSelectedFile(null);
+  };
+
    const handleDownloadZip = () => {
     const zip = new JSZip();
     files.forEach(file => {
@@ -233,6 +282,11 @@ const ProjectGenerator: React.FC = () => {
     setTimeout(processHtml, 100);
 };
 
+  const handlePromptChange = (value: string) => {
+      setPrompt(value);
+      if(selectedTemplate) setSelectedTemplate(null);
+  };
+
   const handleTemplateSelect = (template: {name: string, prompt: string}) => {
       setPrompt(template.prompt);
       setSelectedTemplate(template.name);
@@ -248,6 +302,9 @@ const ProjectGenerator: React.FC = () => {
                   <div className="bg-red-600 h-4 rounded-full transition-all duration-500" style={{ width: `${loadingProgress}%` }}></div>
               </div>
               <p className="mt-2 text-sm text-red-500 dark:text-red-400">{loadingProgress}% Complete</p>
+              <button onClick={handleStop} className="mt-6 flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-sm font-medium text-gray-800 dark:text-gray-200">
+                  <StopIcon className="w-4 h-4" /> Stop
+              </button>
           </div>
       );
   }
@@ -274,19 +331,16 @@ const ProjectGenerator: React.FC = () => {
                     ))}
                 </div>
                 <form onSubmit={handleGenerateProject} className="w-full max-w-4xl mt-8">
-                    <div className="relative">
+                    <SlashCommands mode="project" value={prompt} onChange={handlePromptChange} placement="below">
                         <textarea
                             value={prompt}
-                            onChange={(e) => {
-                                setPrompt(e.target.value);
-                                if(selectedTemplate) setSelectedTemplate(null);
-                            }}
+                            onChange={(e) => handlePromptChange(e.target.value)}
                             placeholder="e.g., A simple to-do list app using React and Tailwind CSS..."
                             rows={3}
                             className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg p-4 pr-12 resize-y focus:outline-none focus:ring-2 focus:ring-red-500"
                         />
                          {prompt && <button type="button" onClick={() => {setPrompt(''); setSelectedTemplate(null);}} className="absolute top-3 right-3 text-gray-500 hover:text-gray-900 dark:hover:text-white"><XIcon className="w-5 h-5"/></button>}
-                    </div>
+                    </SlashCommands>
                     <button
                         type="submit"
                         disabled={!prompt.trim()}
@@ -296,12 +350,16 @@ const ProjectGenerator: React.FC = () => {
                         <span>Generate Project</span>
                     </button>
                 </form>
+                {error && <ErrorMessage error={error} onRetry={runGeneration} onDismiss={() => setError(null)} className="max-w-4xl mt-4" />}
              </div>
         ) : (
           <>
             <div className="w-full flex items-center justify-between">
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Generated Project</h2>
                 <div className="flex items-center gap-2">
+                    <button onClick={handleNewProject} className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-sm font-medium">
+                        <PlusIcon className="w-5 h-5" /> New Project
+                    </button>
                     <button onClick={handlePreview} className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-sm font-medium">
                         <PlayIcon className="w-5 h-5" /> Preview
                     </button>
@@ -310,7 +368,6 @@ const ProjectGenerator: React.FC = () => {
                     </button>
                 </div>
             </div>
-            {error && <p className="text-red-500 dark:text-red-400 text-center w-full">{error}</p>}
             <div className="w-full flex-grow flex flex-col md:flex-row gap-4 mt-2 overflow-hidden">
                 <div className="w-full md:w-1/3 lg:w-1/4 h-full flex flex-col bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
                   <h3 className="text-base font-semibold p-3 border-b border-gray-200 dark:border-gray-800 flex-shrink-0 text-gray-900 dark:text-white">Project Files</h3>
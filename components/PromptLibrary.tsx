@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PromptMode, SavedPrompt } from '../types';
+import { usePromptLibrary } from '../contexts/PromptLibraryContext';
+import { PROMPT_MODES, parsePromptLibrary, toPromptLibraryJson } from '../services/promptLibrary';
+import { getTemplateVariables } from '../utils/promptTemplates';
+import { downloadBlob } from '../utils/download';
+import ErrorMessage from './ErrorMessage';
+import { DownloadIcon, PlusIcon, TrashIcon, UploadIcon, XIcon } from './Icons';
+
+interface PromptLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-red-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ isOpen, onClose }) => {
+  const { prompts, savePrompt, deletePrompt, importPrompts } = usePromptLibrary();
+  const [draft, setDraft] = useState<SavedPrompt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (prompt: SavedPrompt | null) => {
+    setDraft(prompt);
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      select(prompts[0] ?? null);
+      setNotice(null);
+    }
+    // Only when opening; later changes to the list come from this modal
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isSaved = !!draft && prompts.some(p => p.id === draft.id);
+  const variables = draft ? getTemplateVariables(draft.text) : [];
+
+  const update = (changes: Partial<SavedPrompt>) => {
+    setDraft(current => current && { ...current, ...changes });
+  };
+
+  const toggleMode = (mode: PromptMode) => {
+    if (!draft) return;
+    update({ modes: draft.modes.includes(mode) ? draft.modes.filter(m => m !== mode) : [...draft.modes, mode] });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.text.trim()) {
+      setError('Give the prompt a name and some text.');
+      return;
+    }
+    if (draft.modes.length === 0) {
+      setError('Choose at least one place the prompt can be used.');
+      return;
+    }
+    const prompt = { ...draft, name: draft.name.trim() };
+    savePrompt(prompt);
+    select(prompt);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (window.confirm(`Delete the "${draft.name}" prompt?`)) {
+      deletePrompt(draft.id);
+      select(null);
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([toPromptLibraryJson(prompts)], { type: 'application/json' }), 'prompt-library.json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { added, updated } = importPrompts(parsePromptLibrary(await file.text()));
+      setError(null);
+      setNotice(`Imported: ${added} added${updated ? `, ${updated} updated` : ''}.`);
+    } catch (err) {
+      setNotice(null);
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800 animate-fade-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Prompt Library</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row min-h-0 flex-grow">
+          <div className="md:w-1/3 p-4 border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-800 overflow-y-auto custom-scrollbar">
+            <button
+              onClick={() => select({ id: crypto.randomUUID(), name: '', text: '', modes: ['chat'] })}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md bg-red-600 text-white hover:bg-red-500 font-semibold text-sm transition-colors"
+            >
+              <PlusIcon className="w-4 h-4" />
+              New Prompt
+            </button>
+            <nav className="mt-3 flex flex-col gap-1">
+              {prompts.map(prompt => (
+                <button
+                  key={prompt.id}
+                  onClick={() => select(prompt)}
+                  className={`text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                    prompt.id === draft?.id
+                      ? 'bg-red-600/10 dark:bg-red-500/10 text-red-600 dark:text-red-300'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <span className="block truncate">{prompt.name}</span>
+                  <span className="block text-xs text-gray-400 dark:text-gray-500 truncate">
+                    {prompt.modes.map(mode => PROMPT_MODES.find(m => m.value === mode)?.label).join(', ')}
+                  </span>
+                </button>
+              ))}
+            </nav>
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                <UploadIcon className="w-4 h-4" />
+                Import
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+              <button
+                onClick={handleExport}
+                disabled={prompts.length === 0}
+                className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+              >
+                <DownloadIcon className="w-4 h-4" />
+                Export
+              </button>
+            </div>
+            {notice && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{notice}</p>}
+          </div>
+
+          <div className="md:w-2/3 p-6 space-y-4 overflow-y-auto custom-scrollbar">
+            {!draft ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Saved prompts can be inserted by typing <kbd className="px-1 rounded bg-gray-200 dark:bg-gray-800">/</kbd> in the Chat, Code, Image Gen and Project Gen prompt boxes.
+                Write <code>{'{{name}}'}</code> where a prompt needs filling in; you'll be asked for each value when it is inserted.
+              </p>
+            ) : (
+              <>
+                <label className="block">
+                  <span className={labelClassName}>Name</span>
+                  <input value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="e.g. Explain simply" className={inputClassName} />
+                </label>
+                <label className="block">
+                  <span className={labelClassName}>Prompt</span>
+                  <textarea
+                    value={draft.text}
+                    onChange={e => update({ text: e.target.value })}
+                    rows={8}
+                    placeholder="Explain {{topic}} in three sentences."
+                    className={`${inputClassName} resize-y font-mono text-sm`}
+                  />
+                </label>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {variables.length
+                    ? <>Variables: {variables.map(name => <code key={name} className="mr-1.5 px-1 rounded bg-gray-200 dark:bg-gray-800">{name}</code>)}</>
+                    : <>No variables. Add some with <code>{'{{name}}'}</code>.</>}
+                </p>
+                <fieldset>
+                  <legend className={labelClassName}>Available in</legend>
+                  <div className="flex flex-wrap gap-4">
+                    {PROMPT_MODES.map(mode => (
+                      <label key={mode.value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={draft.modes.includes(mode.value)}
+                          onChange={() => toggleMode(mode.value)}
+                          className="accent-red-600"
+                        />
+                        {mode.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              </>
+            )}
+            {error && <ErrorMessage error={error} onDismiss={() => setError(null)} />}
+          </div>
+        </div>
+
+        <div className="p-6 bg-gray-50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-800 rounded-b-xl flex justify-between gap-2">
+          <div>
+            {isSaved && (
+              <button onClick={handleDelete} className="flex items-center gap-2 px-4 py-2 rounded-md text-red-600 dark:text-red-400 hover:bg-red-500/10 transition-colors">
+                <TrashIcon className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
+              Close
+            </button>
+            {draft && (
+              <button onClick={handleSave} className="px-4 py-2 rounded-md bg-red-600 text-white font-semibold hover:bg-red-500 transition-colors">
+                Save
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { createField, FieldType, FIELD_TYPES, SchemaField } from '../utils/schemaFields';
+import { PlusIcon, TrashIcon } from './Icons';
+
+interface SchemaBuilderProps {
+  fields: SchemaField[];
+  onChange: (fields: SchemaField[]) => void;
+  disabled?: boolean;
+  // Nesting level, for indenting the fields of a group
+  depth?: number;
+}
+
+interface FieldRowProps {
+  field: SchemaField;
+  onChange: (changes: Partial<SchemaField>) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+  depth: number;
+}
+
+const inputClassName = "bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-red-500";
+
+const FieldRow: React.FC<FieldRowProps> = ({ field, onChange, onRemove, disabled, depth }) => (
+  <li className="rounded-lg border border-gray-200 dark:border-gray-700 p-2 space-y-2">
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        value={field.name}
+        onChange={e => onChange({ name: e.target.value })}
+        placeholder="field_name"
+        disabled={disabled}
+        aria-label="Field name"
+        className={`${inputClassName} font-mono flex-grow min-w-[8rem]`}
+      />
+      <select
+        value={field.type}
+        onChange={e => onChange({ type: e.target.value as FieldType })}
+        disabled={disabled}
+        aria-label="Field type"
+        className={inputClassName}
+      >
+        {FIELD_TYPES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+      </select>
+      <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+        <input type="checkbox" checked={field.list} onChange={e => onChange({ list: e.target.checked })} disabled={disabled} className="accent-red-600" />
+        List
+      </label>
+      <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+        <input type="checkbox" checked={field.required} onChange={e => onChange({ required: e.target.checked })} disabled={disabled} className="accent-red-600" />
+        Required
+      </label>
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={disabled}
+        title="Remove field"
+        className="p-1 rounded text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-40"
+      >
+        <TrashIcon className="w-4 h-4" />
+      </button>
+    </div>
+    <input
+      value={field.description}
+      onChange={e => onChange({ description: e.target.value })}
+      placeholder="Description for the model (optional)"
+      disabled={disabled}
+      aria-label="Field description"
+      className={`${inputClassName} w-full`}
+    />
+    {field.type === 'enum' && (
+      <input
+        value={field.options.join(', ')}
+        onChange={e => onChange({ options: e.target.value.split(',').map(option => option.trimStart()) })}
+        placeholder="Choices, separated by commas"
+        disabled={disabled}
+        aria-label="Choices"
+        className={`${inputClassName} w-full`}
+      />
+    )}
+    {field.type === 'object' && (
+      <SchemaBuilder fields={field.fields} onChange={fields => onChange({ fields })} disabled={disabled} depth={depth + 1} />
+    )}
+  </li>
+);
+
+// Edits the fields of a record for structured extraction; groups nest their own fields.
+const SchemaBuilder: React.FC<SchemaBuilderProps> = ({ fields, onChange, disabled, depth = 0 }) => {
+  const updateField = (id: string, changes: Partial<SchemaField>) => {
+    onChange(fields.map(field => field.id === id ? { ...field, ...changes } : field));
+  };
+
+  return (
+    <div className={depth > 0 ? 'pl-3 border-l-2 border-gray-200 dark:border-gray-700' : ''}>
+      <ul className="space-y-2">
+        {fields.map(field => (
+          <FieldRow
+            key={field.id}
+            field={field}
+            onChange={changes => updateField(field.id, changes)}
+            onRemove={() => onChange(fields.filter(other => other.id !== field.id))}
+            disabled={disabled}
+            depth={depth}
+          />
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={() => onChange([...fields, createField()])}
+        disabled={disabled}
+        className="mt-2 flex items-center gap-1 text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+      >
+        <PlusIcon className="w-4 h-4" />
+        {depth > 0 ? 'Add field to group' : 'Add field'}
+      </button>
+    </div>
+  );
+};
+
+export default SchemaBuilder;
@@ -1,5 +1,10 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useSettings, ChatMode, Theme } from '../contexts/SettingsContext';
+import { GenerationMode, GENERATION_MODES, MODE_DEFINITIONS, SAFETY_LEVELS, SafetyLevel } from '../services/modelSettings';
+import { findModel, getModelsOfKind, ModelParameter, SPEECH_VOICES } from '../services/modelRegistry';
+import { getStorageEstimate, StorageEstimate } from '../services/storage';
+import { CHAT_TOOLS, getToolPreference } from '../services/tools';
+import { formatFileSize } from '../utils/attachments';
 import { XIcon } from './Icons';
 
 interface SettingsModalProps {
@@ -7,8 +12,92 @@ interface SettingsModalProps {
   onClose: () => void;
 }
 
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-red-500";
+
+const COMPACTION_THRESHOLDS = [
+  { value: 0, label: 'Never' },
+  { value: 8000, label: '8K tokens' },
+  { value: 16000, label: '16K tokens' },
+  { value: 32000, label: '32K tokens' },
+  { value: 64000, label: '64K tokens' },
+  { value: 128000, label: '128K tokens' },
+];
+
+interface NumberFieldProps {
+  label: string;
+  value?: number;
+  step?: number;
+  hint?: string;
+  onChange: (value: number | undefined) => void;
+}
+
+// Edits are applied on blur so clamping does not fight the user mid-typing.
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step = 1, hint, onChange }) => {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    onChange(draft.trim() === '' || Number.isNaN(parsed) ? undefined : parsed);
+    setDraft(value?.toString() ?? '');
+  };
+
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={draft}
+        placeholder="Model default"
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+        className={inputClassName}
+      />
+      {hint && <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</span>}
+    </label>
+  );
+};
+
+// Mounted with the modal, so the estimate is refreshed each time Settings opens.
+const StorageUsage: React.FC = () => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null | undefined>(undefined);
+
+  useEffect(() => {
+    let isMounted = true;
+    getStorageEstimate()
+      .catch(() => null)
+      .then(result => { if (isMounted) setEstimate(result); });
+    return () => { isMounted = false; };
+  }, []);
+
+  if (estimate === undefined) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Checking storage...</p>;
+  }
+  if (estimate === null) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">This browser doesn't report how much storage is available.</p>;
+  }
+
+  const percent = estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+  return (
+    <div>
+      <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+        <div className={`h-full ${percent > 80 ? 'bg-red-600' : 'bg-red-400'}`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+        {formatFileSize(estimate.usage)} of {formatFileSize(estimate.quota)} used ({percent.toFixed(1)}%) by conversations, attachments and saved results.
+      </p>
+    </div>
+  );
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
-  const { theme, setTheme, defaultChatMode, setDefaultChatMode } = useSettings();
+  const { theme, setTheme, defaultChatMode, setDefaultChatMode, showThoughts, setShowThoughts, compactionThreshold, setCompactionThreshold, toolPreferences, setToolPreference, speechVoice, setSpeechVoice, modeConfigs, updateModeConfig, resetModeConfig } = useSettings();
+  const [selectedMode, setSelectedMode] = useState<GenerationMode>('chat-standard');
 
   if (!isOpen) return null;
   
@@ -20,13 +109,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
     setDefaultChatMode(e.target.value as ChatMode);
   };
 
+  const modeConfig = modeConfigs[selectedMode];
+  const model = findModel(modeConfig.model);
+  const supports = (parameter: ModelParameter) => !!model?.parameters.includes(parameter);
+  const thinking = model?.thinking;
+
   return (
     <div 
         className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
         onClick={onClose}
     >
       <div 
-        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-md border border-gray-200 dark:border-gray-800 animate-fade-in"
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800 animate-fade-in"
         onClick={e => e.stopPropagation()}
       >
         <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
@@ -36,7 +130,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
           {/* Theme Setting */}
           <div>
             <label className="block text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">
@@ -81,6 +175,183 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                 </svg>
               </div>
             </div>
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showThoughts}
+                onChange={(e) => setShowThoughts(e.target.checked)}
+                className="accent-red-600"
+              />
+              Show thought summaries in Thinking Mode
+            </label>
+            <label htmlFor="compaction-select" className="mt-3 block text-sm text-gray-700 dark:text-gray-300">
+              Summarize older messages when a conversation passes
+            </label>
+            <select
+              id="compaction-select"
+              value={compactionThreshold}
+              onChange={(e) => setCompactionThreshold(Number(e.target.value))}
+              className={`mt-1 text-sm ${inputClassName}`}
+            >
+              {COMPACTION_THRESHOLDS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Tools the model can call in Chat */}
+          <div>
+            <label className="block text-lg font-semibold text-gray-800 dark:text-gray-200 mb-1">
+              Chat tools
+            </label>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Tools aren't available in Google Search mode or when comparing models.
+            </p>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-800 rounded-lg border border-gray-200 dark:border-gray-800">
+              {CHAT_TOOLS.map(tool => {
+                const preference = getToolPreference(tool, toolPreferences);
+                return (
+                  <li key={tool.name} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <label className="flex items-center gap-2 text-gray-800 dark:text-gray-200">
+                      <input
+                        type="checkbox"
+                        checked={preference.enabled}
+                        onChange={e => setToolPreference(tool.name, { ...preference, enabled: e.target.checked })}
+                        className="accent-red-600"
+                      />
+                      {tool.label}
+                    </label>
+                    <label className={`flex items-center gap-2 text-gray-600 dark:text-gray-400 ${preference.enabled ? '' : 'opacity-50'}`}>
+                      <input
+                        type="checkbox"
+                        checked={preference.confirm}
+                        disabled={!preference.enabled}
+                        onChange={e => setToolPreference(tool.name, { ...preference, confirm: e.target.checked })}
+                        className="accent-red-600"
+                      />
+                      Ask before running
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {/* Voice for reading replies aloud */}
+          <div>
+            <label htmlFor="speech-voice-select" className="block text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">
+              Voice
+            </label>
+            <select
+              id="speech-voice-select"
+              value={speechVoice}
+              onChange={(e) => setSpeechVoice(e.target.value)}
+              className={`text-sm ${inputClassName}`}
+            >
+              {SPEECH_VOICES.map(({ name, style }) => (
+                <option key={name} value={name}>{name} ({style})</option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Used when Chat reads replies aloud.
+            </p>
+          </div>
+
+          {/* Per-mode model and generation parameters */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="model-mode-select" className="block text-lg font-semibold text-gray-800 dark:text-gray-200">
+                Models
+              </label>
+              <button
+                onClick={() => resetModeConfig(selectedMode)}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <div className="space-y-3">
+              <select
+                id="model-mode-select"
+                value={selectedMode}
+                onChange={e => setSelectedMode(e.target.value as GenerationMode)}
+                className={inputClassName}
+              >
+                {GENERATION_MODES.map(mode => (
+                  <option key={mode} value={mode}>{MODE_DEFINITIONS[mode].label}</option>
+                ))}
+              </select>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Model</span>
+                <select
+                  value={modeConfig.model}
+                  onChange={e => updateModeConfig(selectedMode, { model: e.target.value })}
+                  className={inputClassName}
+                >
+                  {getModelsOfKind(MODE_DEFINITIONS[selectedMode].kind).map(option => (
+                    <option key={option.id} value={option.id}>{option.label} ({option.id})</option>
+                  ))}
+                </select>
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {supports('temperature') && (
+                  <NumberField
+                    label="Temperature"
+                    value={modeConfig.temperature}
+                    step={0.1}
+                    hint="0 – 2"
+                    onChange={temperature => updateModeConfig(selectedMode, { temperature })}
+                  />
+                )}
+                {supports('topP') && (
+                  <NumberField
+                    label="Top P"
+                    value={modeConfig.topP}
+                    step={0.05}
+                    hint="0 – 1"
+                    onChange={topP => updateModeConfig(selectedMode, { topP })}
+                  />
+                )}
+                {supports('maxOutputTokens') && (
+                  <NumberField
+                    label="Max output tokens"
+                    value={modeConfig.maxOutputTokens}
+                    hint={model?.maxOutputTokens ? `Up to ${model.maxOutputTokens}` : undefined}
+                    onChange={maxOutputTokens => updateModeConfig(selectedMode, { maxOutputTokens })}
+                  />
+                )}
+                {supports('thinkingBudget') && thinking && (
+                  <NumberField
+                    label="Thinking budget"
+                    value={modeConfig.thinkingBudget}
+                    hint={`${thinking.min} – ${thinking.max}, -1 for dynamic${thinking.canDisable ? ', 0 to disable' : ''}`}
+                    onChange={thinkingBudget => updateModeConfig(selectedMode, { thinkingBudget })}
+                  />
+                )}
+              </div>
+              {supports('safety') && (
+                <label className="block">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Safety filters</span>
+                  <select
+                    value={modeConfig.safety}
+                    onChange={e => updateModeConfig(selectedMode, { safety: e.target.value as SafetyLevel })}
+                    className={inputClassName}
+                  >
+                    {SAFETY_LEVELS.map(level => (
+                      <option key={level.value} value={level.value}>{level.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          </div>
+
+          {/* Browser storage quota */}
+          <div>
+            <label className="block text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2">
+              Storage
+            </label>
+            <StorageUsage />
           </div>
         </div>
 
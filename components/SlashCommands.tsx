@@ -0,0 +1,216 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { PromptMode, SavedPrompt } from '../types';
+import { usePromptLibrary } from '../contexts/PromptLibraryContext';
+import { fillTemplate, getSlashQuery, getTemplateVariables, SlashQuery } from '../utils/promptTemplates';
+import { BookOpenIcon, XIcon } from './Icons';
+
+interface SlashCommandsProps {
+  mode: PromptMode;
+  // The wrapped input's value and change handler
+  value: string;
+  onChange: (value: string) => void;
+  // Where the menu opens relative to the input
+  placement: 'above' | 'below';
+  className?: string;
+  children: React.ReactNode;
+}
+
+type TextInput = HTMLInputElement | HTMLTextAreaElement;
+
+const isTextInput = (target: EventTarget): target is TextInput =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+// Keys that move the caret without changing the text
+const CARET_KEYS = new Set<string>(['ArrowLeft', 'ArrowRight', 'Home', 'End']);
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-red-500";
+
+interface TemplateVariablesFormProps {
+  prompt: SavedPrompt;
+  onInsert: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for each {{variable}} in a prompt before it is inserted. Rendered in a portal so
+// its form isn't nested inside the form around the wrapped input.
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({ prompt, onInsert, onCancel }) => {
+  const variables = getTemplateVariables(prompt.text);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Submit events bubble through the portal to the wrapped input's form
+    e.stopPropagation();
+    onInsert(fillTemplate(prompt.text, values));
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => { if (e.key === 'Escape') onCancel(); }}
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-md border border-gray-200 dark:border-gray-800 animate-fade-in"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white truncate">{prompt.name}</h2>
+          <button type="button" onClick={onCancel} className="p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 space-y-3">
+          {variables.map((name, i) => (
+            <label key={name} className="block">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{name}</span>
+              <input
+                value={values[name] ?? ''}
+                onChange={e => setValues(current => ({ ...current, [name]: e.target.value }))}
+                autoFocus={i === 0}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="px-6 py-4 bg-gray-50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-800 rounded-b-xl flex justify-end gap-2">
+          <button type="button" onClick={onCancel} className="px-4 py-2 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 rounded-md bg-red-600 text-white font-semibold hover:bg-red-500 transition-colors">
+            Insert
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+// Wraps a prompt input so typing "/" opens a menu of saved prompts for the mode.
+// Choosing one replaces the "/query" with the prompt, after asking for its variables.
+const SlashCommands: React.FC<SlashCommandsProps> = ({ mode, value, onChange, placement, className = '', children }) => {
+  const { prompts } = usePromptLibrary();
+  const [slash, setSlash] = useState<SlashQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // A prompt waiting for its variables, and the slash command it replaces
+  const [pending, setPending] = useState<{ prompt: SavedPrompt; slash: SlashQuery } | null>(null);
+  const inputRef = useRef<TextInput | null>(null);
+
+  const matches = slash
+    ? prompts.filter(p => p.modes.includes(mode) && p.name.toLowerCase().includes(slash.query.toLowerCase()))
+    : [];
+  const isMenuOpen = !pending && matches.length > 0;
+
+  const updateQuery = (target: EventTarget) => {
+    if (pending || !isTextInput(target)) return;
+    inputRef.current = target;
+    const caret = target.selectionStart ?? target.value.length;
+    const next = target.selectionEnd === caret ? getSlashQuery(target.value, caret) : null;
+    if (next?.query !== slash?.query || next?.start !== slash?.start) setActiveIndex(0);
+    setSlash(next);
+  };
+
+  const insert = (text: string, command: SlashQuery) => {
+    const end = command.start + command.query.length + 1;
+    onChange(value.slice(0, command.start) + text + value.slice(end));
+    setSlash(null);
+    setPending(null);
+    const caret = command.start + text.length;
+    // After the new value has rendered
+    setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    }, 0);
+  };
+
+  const choose = (prompt: SavedPrompt) => {
+    if (!slash) return;
+    if (getTemplateVariables(prompt.text).length > 0) {
+      setPending({ prompt, slash });
+    } else {
+      insert(prompt.text, slash);
+    }
+  };
+
+  const cancelPending = () => {
+    setPending(null);
+    setSlash(null);
+    setTimeout(() => inputRef.current?.focus(), 0);
+  };
+
+  const handleKeyDownCapture = (e: React.KeyboardEvent) => {
+    if (!isMenuOpen) return;
+    let handled = true;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex(i => (i + 1) % matches.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex(i => (i - 1 + matches.length) % matches.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        choose(matches[Math.min(activeIndex, matches.length - 1)]);
+        break;
+      case 'Escape':
+        setSlash(null);
+        break;
+      default:
+        handled = false;
+    }
+    if (handled) {
+      // Keeps the input's own Enter handling (like sending a message) from running
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onInputCapture={e => updateQuery(e.target)}
+      onClickCapture={e => updateQuery(e.target)}
+      onKeyUpCapture={e => { if (CARET_KEYS.has(e.key)) updateQuery(e.target); }}
+      onKeyDownCapture={handleKeyDownCapture}
+      onBlurCapture={() => setSlash(null)}
+    >
+      {children}
+      {isMenuOpen && (
+        <ul
+          role="listbox"
+          className={`absolute left-0 z-20 w-full max-w-md max-h-64 overflow-y-auto custom-scrollbar bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl py-1 ${
+            placement === 'above' ? 'bottom-full mb-2' : 'top-full mt-1'}`}
+        >
+          {matches.map((prompt, i) => (
+            <li
+              key={prompt.id}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keeps focus (and the caret) in the input
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => choose(prompt)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`flex items-start gap-2 px-3 py-2 cursor-pointer ${
+                i === activeIndex ? 'bg-red-600/10 dark:bg-red-500/10' : ''}`}
+            >
+              <BookOpenIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" />
+              <span className="min-w-0">
+                <span className="block text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{prompt.name}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{prompt.text}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {pending && (
+        <TemplateVariablesForm
+          prompt={pending.prompt}
+          onInsert={text => insert(text, pending.slash)}
+          onCancel={cancelPending}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SlashCommands;
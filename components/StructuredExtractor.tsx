@@ -0,0 +1,451 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Attachment, Extractor, JsonSchema } from '../types';
+import { extractStructuredData, isAbortError } from '../services/geminiService';
+import { deleteExtractor, getLatestAsset, loadExtractors, saveAsset, saveExtractor } from '../services/storage';
+import { ATTACHMENT_ACCEPT, readFileAsAttachment } from '../utils/attachments';
+import { formatJsonPath, JsonPath, parseJsonSchema, SchemaIssue, validateJson } from '../utils/jsonSchema';
+import { createField, draftToSchema, SchemaDraft, schemaToDraft } from '../utils/schemaFields';
+import { toCsv } from '../utils/csv';
+import { downloadBlob, toFileName } from '../utils/download';
+import SchemaBuilder from './SchemaBuilder';
+import AttachmentList from './AttachmentList';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+import { DownloadIcon, PaperclipIcon, PlusIcon, SparklesIcon, StopIcon, TrashIcon } from './Icons';
+
+// The last run, restored when coming back to this mode
+interface ExtractionRun {
+  name: string;
+  instructions: string;
+  schema: JsonSchema;
+  text: string;
+  attachments: Attachment[];
+  data: unknown;
+}
+
+interface ExtractionResult {
+  data: unknown;
+  issues: SchemaIssue[];
+}
+
+type SchemaTab = 'fields' | 'json';
+
+interface JsonNodeProps {
+  name?: string | number;
+  value: unknown;
+  path: JsonPath;
+  issues: SchemaIssue[];
+  // A required field the model left out, shown so its problem has somewhere to appear
+  missing?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-red-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+const secondaryButtonClassName = "flex items-center gap-1 px-3 py-1.5 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed";
+
+const EMPTY_DRAFT: SchemaDraft = { fields: [createField({ name: 'title' })], asList: false };
+
+const samePath = (a: JsonPath, b: JsonPath) => a.length === b.length && a.every((segment, i) => segment === b[i]);
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null;
+
+// The extracted JSON as a tree, with every field that breaks the schema highlighted
+// and its problems written underneath.
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, path, issues, missing }) => {
+  const messages = issues.filter(issue => samePath(issue.path, path)).map(issue => issue.message);
+  const children = isContainer(value) ? Object.entries(value) : [];
+  const missingChildren = isContainer(value) && !Array.isArray(value)
+    ? issues.filter(issue => issue.path.length === path.length + 1 && samePath(issue.path.slice(0, -1), path) && !(issue.path[path.length] in value))
+    : [];
+
+  return (
+    <div className={path.length > 0 ? 'pl-4' : ''}>
+      <div className={`rounded px-1 ${messages.length > 0 ? 'bg-red-100 dark:bg-red-900/40' : ''}`}>
+        {name !== undefined && (
+          <span className="text-gray-500 dark:text-gray-400">{typeof name === 'number' ? `[${name}]` : name}: </span>
+        )}
+        {missing ? (
+          <span className="italic text-red-600 dark:text-red-400">missing</span>
+        ) : isContainer(value) ? (
+          <span className="text-gray-400 dark:text-gray-500">{Array.isArray(value) ? `list of ${value.length}` : 'group'}</span>
+        ) : (
+          <span className={typeof value === 'string' ? 'text-green-700 dark:text-green-400' : 'text-blue-700 dark:text-blue-400'}>
+            {JSON.stringify(value)}
+          </span>
+        )}
+        {messages.length > 0 && (
+          <span className="block text-xs text-red-600 dark:text-red-400 font-sans">{messages.join(' ')}</span>
+        )}
+      </div>
+      {children.map(([key, child]) => {
+        const segment = Array.isArray(value) ? Number(key) : key;
+        return <JsonNode key={key} name={segment} value={child} path={[...path, segment]} issues={issues} />;
+      })}
+      {missingChildren.map(issue => (
+        <JsonNode key={formatJsonPath(issue.path)} name={issue.path[path.length]} value={undefined} path={issue.path} issues={issues} missing />
+      ))}
+    </div>
+  );
+};
+
+const StructuredExtractor: React.FC = () => {
+  const [extractors, setExtractors] = useState<Extractor[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [schemaTab, setSchemaTab] = useState<SchemaTab>('fields');
+  const [draft, setDraft] = useState<SchemaDraft>(EMPTY_DRAFT);
+  const [schemaText, setSchemaText] = useState('');
+  const [schemaNotice, setSchemaNotice] = useState<string | null>(null);
+
+  const [text, setText] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | string | null>(null);
+  const [result, setResult] = useState<ExtractionResult | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Shows a schema in the field editor when it can, and as JSON otherwise
+  const showSchema = (schema: JsonSchema) => {
+    const editable = schemaToDraft(schema);
+    setSchemaText(JSON.stringify(schema, null, 2));
+    setSchemaNotice(null);
+    if (editable) {
+      setDraft(editable);
+      setSchemaTab('fields');
+    } else {
+      setSchemaTab('json');
+    }
+  };
+
+  const openExtractor = (extractor: Extractor) => {
+    setSelectedId(extractor.id);
+    setName(extractor.name);
+    setInstructions(extractor.instructions);
+    showSchema(extractor.schema);
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all([
+      loadExtractors().catch(e => {
+        console.error("Failed to load extractors:", e);
+        return [] as Extractor[];
+      }),
+      getLatestAsset<ExtractionRun>('extraction'),
+    ]).then(([saved, lastRun]) => {
+      if (!isMounted) return;
+      setExtractors(saved);
+      if (lastRun) {
+        const { data } = lastRun.data;
+        const match = saved.find(extractor => extractor.name === lastRun.data.name);
+        setSelectedId(match?.id ?? null);
+        setName(lastRun.data.name);
+        setInstructions(lastRun.data.instructions);
+        showSchema(lastRun.data.schema);
+        setText(lastRun.data.text);
+        setAttachments(lastRun.data.attachments);
+        setResult({ data, issues: validateJson(data, lastRun.data.schema) });
+      } else if (saved.length > 0) {
+        openExtractor(saved[0]);
+      }
+    });
+    return () => { isMounted = false; };
+  }, []);
+
+  const getSchema = (): { schema: JsonSchema } | { problem: string } => {
+    if (schemaTab === 'fields') {
+      return draft.fields.some(field => field.name.trim())
+        ? { schema: draftToSchema(draft) }
+        : { problem: 'Add at least one named field.' };
+    }
+    try {
+      return { schema: parseJsonSchema(schemaText) };
+    } catch (e) {
+      return { problem: e instanceof Error ? e.message : String(e) };
+    }
+  };
+  const schemaState = getSchema();
+
+  const switchTab = (tab: SchemaTab) => {
+    if (tab === schemaTab) return;
+    setSchemaNotice(null);
+    if (tab === 'json') {
+      setSchemaText(JSON.stringify(draftToSchema(draft), null, 2));
+      setSchemaTab('json');
+      return;
+    }
+    if ('problem' in schemaState) {
+      setSchemaNotice(schemaState.problem);
+      return;
+    }
+    const editable = schemaToDraft(schemaState.schema);
+    if (!editable) {
+      setSchemaNotice("This schema uses JSON Schema features the field editor can't show, so keep editing it as JSON.");
+      return;
+    }
+    setDraft(editable);
+    setSchemaTab('fields');
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    setName('');
+    setInstructions('');
+    setDraft(EMPTY_DRAFT);
+    setSchemaTab('fields');
+    setSchemaNotice(null);
+  };
+
+  const storeExtractor = (id: string) => {
+    if ('problem' in schemaState) {
+      setError(schemaState.problem);
+      return;
+    }
+    if (!name.trim()) {
+      setError('Give the extractor a name before saving it.');
+      return;
+    }
+    const extractor: Extractor = { id, name: name.trim(), instructions, schema: schemaState.schema, updatedAt: Date.now() };
+    saveExtractor(extractor);
+    setExtractors(prev => [...prev.filter(other => other.id !== id), extractor].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedId(id);
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    const extractor = extractors.find(other => other.id === selectedId);
+    if (!extractor || !window.confirm(`Delete the extractor "${extractor.name}"?`)) return;
+    deleteExtractor(extractor.id);
+    setExtractors(prev => prev.filter(other => other.id !== extractor.id));
+    setSelectedId(null);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? [...e.target.files] : [];
+    e.target.value = '';
+    const results = await Promise.allSettled(files.map(readFileAsAttachment));
+    setAttachments(prev => [...prev, ...results.flatMap(r => r.status === 'fulfilled' ? [r.value] : [])]);
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) setError(failure.reason instanceof Error ? failure.reason : 'Failed to attach the file.');
+  };
+
+  const runExtraction = async () => {
+    if ('problem' in schemaState || (!text.trim() && attachments.length === 0) || isLoading) return;
+    const { schema } = schemaState;
+
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const data = await extractStructuredData(instructions, schema, { text, attachments }, controller.signal);
+      setResult({ data, issues: validateJson(data, schema) });
+      saveAsset<ExtractionRun>('extraction', name.trim() || 'Extraction', { name, instructions, schema, text, attachments, data });
+    } catch (e: any) {
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e : 'An unexpected error occurred.');
+      }
+    } finally {
+      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!result) return;
+    const fileName = toFileName(name, 'extraction');
+    if (format === 'json') {
+      downloadBlob(new Blob([JSON.stringify(result.data, null, 2)], { type: 'application/json' }), `${fileName}.json`);
+    } else {
+      downloadBlob(new Blob([toCsv(result.data)], { type: 'text/csv' }), `${fileName}.csv`);
+    }
+  };
+
+  const tabClassName = (tab: SchemaTab) =>
+    `flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition-colors ${schemaTab === tab ? 'bg-white dark:bg-gray-700 shadow text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'}`;
+
+  return (
+    <div className="w-full max-w-7xl flex flex-col gap-6 p-4">
+      <div className="text-center">
+        <h2 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">Structured Extraction</h2>
+        <p className="text-gray-500 dark:text-slate-400 mt-2">Turn tickets, emails and documents into JSON that matches your schema.</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* What to extract */}
+        <section className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="flex-grow min-w-[10rem]">
+              <span className={labelClassName}>Extractor</span>
+              <select
+                value={selectedId ?? ''}
+                onChange={e => {
+                  const extractor = extractors.find(other => other.id === e.target.value);
+                  if (extractor) openExtractor(extractor); else handleNew();
+                }}
+                className={inputClassName}
+              >
+                <option value="">Unsaved extractor</option>
+                {extractors.map(extractor => <option key={extractor.id} value={extractor.id}>{extractor.name}</option>)}
+              </select>
+            </label>
+            <button type="button" onClick={handleNew} className={secondaryButtonClassName}>
+              <PlusIcon className="w-4 h-4" /> New
+            </button>
+            {selectedId && (
+              <button type="button" onClick={handleDelete} title="Delete extractor" className={secondaryButtonClassName}>
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          <label className="block">
+            <span className={labelClassName}>Name</span>
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Support ticket" className={inputClassName} />
+          </label>
+
+          <label className="block">
+            <span className={labelClassName}>Instructions</span>
+            <textarea
+              value={instructions}
+              onChange={e => setInstructions(e.target.value)}
+              rows={3}
+              placeholder="Anything the model should know, such as how to classify or format values"
+              className={`${inputClassName} resize-y`}
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className={labelClassName}>Schema</span>
+              <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg w-56">
+                <button type="button" onClick={() => switchTab('fields')} className={tabClassName('fields')}>Fields</button>
+                <button type="button" onClick={() => switchTab('json')} className={tabClassName('json')}>JSON Schema</button>
+              </div>
+            </div>
+            {schemaTab === 'fields' ? (
+              <>
+                <label className="flex items-center gap-2 mb-3 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.asList}
+                    onChange={e => setDraft({ ...draft, asList: e.target.checked })}
+                    className="accent-red-600"
+                  />
+                  Extract a list of records, one for each found in the input
+                </label>
+                <SchemaBuilder fields={draft.fields} onChange={fields => setDraft({ ...draft, fields })} />
+              </>
+            ) : (
+              <textarea
+                value={schemaText}
+                onChange={e => setSchemaText(e.target.value)}
+                rows={14}
+                spellCheck={false}
+                aria-label="JSON Schema"
+                className={`${inputClassName} font-mono text-sm resize-y`}
+              />
+            )}
+            {schemaNotice && <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-400">{schemaNotice}</p>}
+            {schemaTab === 'json' && 'problem' in schemaState && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400">{schemaState.problem}</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => storeExtractor(selectedId ?? crypto.randomUUID())}
+              className="px-4 py-2 rounded-md bg-red-600 text-white text-sm font-semibold hover:bg-red-500 transition-colors"
+            >
+              {selectedId ? 'Save' : 'Save extractor'}
+            </button>
+            {selectedId && (
+              <button type="button" onClick={() => storeExtractor(crypto.randomUUID())} className={secondaryButtonClassName}>
+                Save as new
+              </button>
+            )}
+          </div>
+        </section>
+
+        {/* Input and result */}
+        <section className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4 space-y-4">
+          <label className="block">
+            <span className={labelClassName}>Input</span>
+            <textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              rows={8}
+              placeholder="Paste a ticket, an email or any other text..."
+              className={`${inputClassName} resize-y`}
+            />
+          </label>
+          {attachments.length > 0 && (
+            <AttachmentList attachments={attachments} onRemove={id => setAttachments(prev => prev.filter(a => a.id !== id))} />
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <input ref={fileInputRef} type="file" multiple accept={ATTACHMENT_ACCEPT} onChange={handleFileSelect} className="hidden" />
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isLoading} className={secondaryButtonClassName}>
+              <PaperclipIcon className="w-4 h-4" /> Attach files
+            </button>
+            {isLoading ? (
+              <button type="button" onClick={() => abortControllerRef.current?.abort()} className={`${secondaryButtonClassName} ml-auto`}>
+                <StopIcon className="w-4 h-4" /> Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={runExtraction}
+                disabled={'problem' in schemaState || (!text.trim() && attachments.length === 0)}
+                className="ml-auto flex items-center gap-2 px-5 py-2 rounded-md bg-red-600 text-white font-semibold hover:bg-red-500 disabled:bg-gray-500 dark:disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors"
+              >
+                <SparklesIcon className="w-5 h-5" /> Extract
+              </button>
+            )}
+          </div>
+
+          {error && <ErrorMessage error={error} onRetry={runExtraction} onDismiss={() => setError(null)} />}
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              <LoadingSpinner className="w-5 h-5" /> Extracting...
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`text-sm font-semibold ${result.issues.length ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                  {result.issues.length === 0
+                    ? 'Matches the schema'
+                    : `${result.issues.length} ${result.issues.length === 1 ? 'problem' : 'problems'} with the schema`}
+                </span>
+                <button type="button" onClick={() => handleExport('json')} className={`${secondaryButtonClassName} ml-auto`}>
+                  <DownloadIcon className="w-4 h-4" /> JSON
+                </button>
+                <button type="button" onClick={() => handleExport('csv')} className={secondaryButtonClassName}>
+                  <DownloadIcon className="w-4 h-4" /> CSV
+                </button>
+              </div>
+              <div className="max-h-[28rem] overflow-auto custom-scrollbar rounded-lg bg-gray-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-800 p-3 font-mono text-sm">
+                <JsonNode value={result.data} path={[]} issues={result.issues} />
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StructuredExtractor;
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { ToolCall, ToolCallStatus } from '../types';
+import { findTool } from '../services/tools';
+import LoadingSpinner from './LoadingSpinner';
+import { WrenchIcon } from './Icons';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+}
+
+const statusLabels: Record<ToolCallStatus, string> = {
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  declined: 'Declined',
+};
+
+const statusClasses: Record<ToolCallStatus, string> = {
+  running: 'text-gray-500 dark:text-gray-400',
+  done: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  declined: 'text-yellow-600 dark:text-yellow-400',
+};
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2) ?? 'null';
+
+// A collapsible record of one tool the model called while answering.
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call }) => (
+  <details className="mb-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+    <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none text-gray-600 dark:text-gray-300">
+      <WrenchIcon className="w-4 h-4 flex-shrink-0" />
+      <span className="font-medium truncate">{findTool(call.name)?.label ?? call.name}</span>
+      <span className={`ml-auto flex items-center gap-1 text-xs ${statusClasses[call.status]}`}>
+        {call.status === 'running' && <LoadingSpinner className="w-3 h-3" />}
+        {statusLabels[call.status]}
+      </span>
+    </summary>
+    <div className="px-3 pb-3 space-y-2">
+      <div>
+        <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Arguments</h4>
+        <pre className="p-2 rounded bg-white dark:bg-gray-900 text-xs overflow-x-auto whitespace-pre-wrap break-words">{formatJson(call.args)}</pre>
+      </div>
+      {call.status === 'done' && (
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Result</h4>
+          <pre className="p-2 rounded bg-white dark:bg-gray-900 text-xs overflow-x-auto whitespace-pre-wrap break-words">{formatJson(call.result)}</pre>
+        </div>
+      )}
+      {call.error && <p className="text-xs text-red-600 dark:text-red-400 whitespace-pre-wrap">{call.error}</p>}
+    </div>
+  </details>
+);
+
+export default ToolCallCard;
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  getUsageRecords, subscribeToUsage, clearUsage, getPriceTable, savePriceTable, getBudgets, saveBudgets,
+  estimateCost, emptyTotals, addToTotals, dayKey, DEFAULT_PRICES, ModelPrice, UsageTotals, UsageBudgets,
+} from '../services/usageLedger';
+import { MODE_DEFINITIONS, GenerationMode, CHAT_MODE_LABELS } from '../services/modelSettings';
+import { getVotes, clearVotes, getContenderStats } from '../services/comparisonVotes';
+import { TrashIcon } from './Icons';
+
+const formatCost = (cost: number) => cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const cardClassName = "bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4";
+const inputClassName = "w-24 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-200 rounded-md py-1 px-2 text-right focus:outline-none focus:ring-2 focus:ring-red-500";
+
+// Commits on blur so partially typed numbers are not saved.
+const PriceInput: React.FC<{ value?: number; placeholder?: string; onCommit: (value: number | undefined) => void }> = ({ value, placeholder, onCommit }) => {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    onCommit(draft.trim() === '' || Number.isNaN(parsed) || parsed < 0 ? undefined : parsed);
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={draft}
+      placeholder={placeholder}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+      className={inputClassName}
+    />
+  );
+};
+
+const SummaryCard: React.FC<{ label: string; totals: UsageTotals; budget?: number }> = ({ label, totals, budget }) => (
+  <div className={cardClassName}>
+    <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+    <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{formatCost(totals.cost)}</p>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+      {totals.requests} requests{totals.failures > 0 && `, ${totals.failures} failed`}
+    </p>
+    {budget ? (
+      <div className="mt-3">
+        <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+          <div
+            className={`h-full ${totals.cost >= budget ? 'bg-red-600' : 'bg-red-400'}`}
+            style={{ width: `${Math.min(100, (totals.cost / budget) * 100)}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">of {formatCost(budget)} budget</p>
+      </div>
+    ) : null}
+  </div>
+);
+
+const UsageDashboard: React.FC = () => {
+  const [records, setRecords] = useState(getUsageRecords);
+  const [prices, setPrices] = useState(getPriceTable);
+  const [budgets, setBudgets] = useState(getBudgets);
+  const [votes, setVotes] = useState(getVotes);
+
+  useEffect(() => {
+    return subscribeToUsage(() => {
+      setRecords(getUsageRecords());
+      setPrices(getPriceTable());
+      setBudgets(getBudgets());
+    });
+  }, []);
+
+  const summary = useMemo(() => {
+    const now = new Date();
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+    let today = emptyTotals();
+    let month = emptyTotals();
+    let allTime = emptyTotals();
+    const byDay = new Map<string, UsageTotals>();
+    const byMode = new Map<GenerationMode, UsageTotals>();
+
+    for (const record of records) {
+      allTime = addToTotals(allTime, record, prices);
+      if (record.timestamp >= startOfMonth) month = addToTotals(month, record, prices);
+      if (record.timestamp >= startOfToday) today = addToTotals(today, record, prices);
+      const day = dayKey(record.timestamp);
+      byDay.set(day, addToTotals(byDay.get(day) || emptyTotals(), record, prices));
+      byMode.set(record.mode, addToTotals(byMode.get(record.mode) || emptyTotals(), record, prices));
+    }
+
+    const mostExpensive = [...records]
+      .map(record => ({ record, cost: estimateCost(record, prices) }))
+      .sort((a, b) => b.cost - a.cost)
+      .slice(0, 10);
+
+    return {
+      today,
+      month,
+      allTime,
+      days: [...byDay.entries()].sort(([a], [b]) => b.localeCompare(a)).slice(0, 14),
+      modes: [...byMode.entries()].sort(([, a], [, b]) => b.cost - a.cost),
+      mostExpensive,
+    };
+  }, [records, prices]);
+
+  const pricedModels = useMemo(
+    () => Array.from(new Set([...Object.keys(DEFAULT_PRICES), ...records.map(record => record.model)])),
+    [records]
+  );
+
+  const handlePriceChange = (model: string, field: keyof ModelPrice, value: number | undefined) => {
+    const current = prices[model] || { input: 0, output: 0 };
+    savePriceTable({ ...prices, [model]: { ...current, [field]: field === 'perImage' ? value : value ?? 0 } });
+  };
+
+  const handleBudgetChange = (field: keyof UsageBudgets, value: number | undefined) => {
+    saveBudgets({ ...budgets, [field]: value || undefined });
+  };
+
+  const handleResetPrices = () => {
+    savePriceTable({});
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear all recorded usage? This cannot be undone.')) {
+      clearUsage();
+    }
+  };
+
+  const handleClearVotes = () => {
+    if (window.confirm('Clear all comparison votes? This cannot be undone.')) {
+      clearVotes();
+      setVotes([]);
+    }
+  };
+
+  const modeLabel = (mode: GenerationMode) => MODE_DEFINITIONS[mode]?.label ?? mode;
+
+  return (
+    <div className="w-full max-w-6xl flex flex-col gap-6 p-4 md:p-8">
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">Usage & Cost</h2>
+          <p className="text-gray-500 dark:text-slate-400 mt-2">Token usage recorded in this browser, with costs estimated from your price table.</p>
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={records.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 rounded-md transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <TrashIcon className="w-4 h-4" /> Clear history
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <SummaryCard label="Today" totals={summary.today} budget={budgets.dailyUsd} />
+        <SummaryCard label="This month" totals={summary.month} budget={budgets.monthlyUsd} />
+        <SummaryCard label="All time" totals={summary.allTime} />
+      </div>
+
+      <div className={cardClassName}>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Soft budgets</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">You'll be asked to confirm before sending once a budget is reached.</p>
+        <div className="flex flex-wrap gap-6 mt-3 text-sm">
+          <label className="flex items-center gap-2">
+            Daily (USD)
+            <PriceInput value={budgets.dailyUsd} placeholder="None" onCommit={value => handleBudgetChange('dailyUsd', value)} />
+          </label>
+          <label className="flex items-center gap-2">
+            Monthly (USD)
+            <PriceInput value={budgets.monthlyUsd} placeholder="None" onCommit={value => handleBudgetChange('monthlyUsd', value)} />
+          </label>
+        </div>
+      </div>
+
+      {votes.length > 0 && (
+        <div className={`${cardClassName} overflow-x-auto`}>
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Model comparisons</h3>
+            <button onClick={handleClearVotes} className="text-sm text-red-600 dark:text-red-400 hover:underline">Clear votes</button>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">How often each mode and model was picked in Chat's compare mode, over {votes.length} comparisons.</p>
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 dark:text-gray-400">
+              <tr><th className="py-1">Mode</th><th>Model</th><th className="text-right">Picked</th><th className="text-right">Win rate</th></tr>
+            </thead>
+            <tbody>
+              {getContenderStats(votes).map(stats => (
+                <tr key={`${stats.mode}:${stats.model}`} className="border-t border-gray-200 dark:border-gray-800">
+                  <td className="py-1.5">{CHAT_MODE_LABELS[stats.mode]}</td>
+                  <td className="font-mono text-xs">{stats.model}</td>
+                  <td className="text-right">{stats.wins} of {stats.comparisons}</td>
+                  <td className="text-right font-medium">{Math.round(stats.wins / stats.comparisons * 100)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {records.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-8">No requests recorded yet. Usage appears here as you use the other modes.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className={`${cardClassName} overflow-x-auto`}>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">By day</h3>
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400">
+                <tr><th className="py-1">Day</th><th className="text-right">Requests</th><th className="text-right">Tokens</th><th className="text-right">Cost</th></tr>
+              </thead>
+              <tbody>
+                {summary.days.map(([day, totals]) => (
+                  <tr key={day} className="border-t border-gray-200 dark:border-gray-800">
+                    <td className="py-1.5">{day}</td>
+                    <td className="text-right">{totals.requests}</td>
+                    <td className="text-right">{formatTokens(totals.promptTokens + totals.outputTokens + totals.thinkingTokens)}</td>
+                    <td className="text-right font-medium">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`${cardClassName} overflow-x-auto`}>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">By mode</h3>
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400">
+                <tr><th className="py-1">Mode</th><th className="text-right">Requests</th><th className="text-right">In / Out / Thinking</th><th className="text-right">Avg latency</th><th className="text-right">Cost</th></tr>
+              </thead>
+              <tbody>
+                {summary.modes.map(([mode, totals]) => (
+                  <tr key={mode} className="border-t border-gray-200 dark:border-gray-800">
+                    <td className="py-1.5">{modeLabel(mode)}</td>
+                    <td className="text-right">{totals.requests}{totals.failures > 0 && <span className="text-red-500"> ({totals.failures} failed)</span>}</td>
+                    <td className="text-right">{formatTokens(totals.promptTokens)} / {formatTokens(totals.outputTokens)} / {formatTokens(totals.thinkingTokens)}</td>
+                    <td className="text-right">{(totals.latencyMs / totals.requests / 1000).toFixed(1)}s</td>
+                    <td className="text-right font-medium">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`${cardClassName} overflow-x-auto lg:col-span-2`}>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Most expensive requests</h3>
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400">
+                <tr><th className="py-1">When</th><th>Mode</th><th>Model</th><th className="text-right">In / Out / Thinking</th><th className="text-right">Latency</th><th className="text-right">Cost</th></tr>
+              </thead>
+              <tbody>
+                {summary.mostExpensive.map(({ record, cost }) => (
+                  <tr key={record.id} className="border-t border-gray-200 dark:border-gray-800">
+                    <td className="py-1.5">{new Date(record.timestamp).toLocaleString()}</td>
+                    <td>{modeLabel(record.mode)}{!record.success && <span className="text-red-500"> (failed)</span>}</td>
+                    <td className="font-mono text-xs">{record.model}</td>
+                    <td className="text-right">{formatTokens(record.promptTokens)} / {formatTokens(record.outputTokens)} / {formatTokens(record.thinkingTokens)}</td>
+                    <td className="text-right">{(record.latencyMs / 1000).toFixed(1)}s</td>
+                    <td className="text-right font-medium">{formatCost(cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className={`${cardClassName} overflow-x-auto`}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Price table</h3>
+          <button onClick={handleResetPrices} className="text-sm text-red-600 dark:text-red-400 hover:underline">Reset to defaults</button>
+        </div>
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-500 dark:text-gray-400">
+            <tr><th className="py-1">Model</th><th className="text-right">Input $/1M tokens</th><th className="text-right">Output $/1M tokens</th><th className="text-right">$/image</th></tr>
+          </thead>
+          <tbody>
+            {pricedModels.map(model => (
+              <tr key={model} className="border-t border-gray-200 dark:border-gray-800">
+                <td className="py-1.5 font-mono text-xs">{model}</td>
+                <td className="text-right"><PriceInput value={prices[model]?.input} placeholder="0" onCommit={value => handlePriceChange(model, 'input', value)} /></td>
+                <td className="text-right"><PriceInput value={prices[model]?.output} placeholder="0" onCommit={value => handlePriceChange(model, 'output', value)} /></td>
+                <td className="text-right"><PriceInput value={prices[model]?.perImage} placeholder="—" onCommit={value => handlePriceChange(model, 'perImage', value)} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
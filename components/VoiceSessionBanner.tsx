@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import type { VoiceSession } from '../types';
+import { getAsset } from '../services/storage';
+import { audioExtension, downloadBlob, toFileName } from '../utils/download';
+import { DownloadIcon, MicrophoneIcon } from './Icons';
+
+interface VoiceSessionBannerProps {
+  session: VoiceSession;
+  title: string;
+}
+
+// Sits above a conversation that was held in Live mode, with its recording if one was made.
+const VoiceSessionBanner: React.FC<VoiceSessionBannerProps> = ({ session, title }) => {
+  const [recording, setRecording] = useState<{ blob: Blob; url: string } | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    setRecording(null);
+    setIsMissing(false);
+    if (!session.recordingId) return;
+    let isMounted = true;
+    let url: string | null = null;
+    getAsset<Blob>(session.recordingId).then(asset => {
+      if (!isMounted) return;
+      if (asset?.data instanceof Blob) {
+        url = URL.createObjectURL(asset.data);
+        setRecording({ blob: asset.data, url });
+      } else {
+        setIsMissing(true);
+      }
+    });
+    return () => {
+      isMounted = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [session.recordingId]);
+
+  const minutes = Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000));
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-2 px-6 py-2 border-b border-gray-200 dark:border-gray-800 text-sm text-gray-600 dark:text-gray-400">
+      <span className="flex items-center gap-2">
+        <MicrophoneIcon className="w-4 h-4 text-red-500 dark:text-red-400" />
+        Voice session on {new Date(session.startedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}, {minutes} min
+      </span>
+      {recording && (
+        <>
+          <audio controls src={recording.url} className="h-8 max-w-full" />
+          <button
+            onClick={() => downloadBlob(recording.blob, `${toFileName(title, 'voice-session')}.${audioExtension(recording.blob.type)}`)}
+            className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Download
+          </button>
+        </>
+      )}
+      {isMissing && <span className="text-gray-400 dark:text-gray-500">The recording is no longer stored.</span>}
+    </div>
+  );
+};
+
+export default VoiceSessionBanner;
@@ -0,0 +1,57 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { Persona } from '../types';
+import { DEFAULT_PERSONA } from '../services/personas';
+import { loadPersonas, savePersona as storePersona, deletePersona as removePersona } from '../services/storage';
+
+interface PersonaContextType {
+  // The built-in persona first, then the user's, by name
+  personas: Persona[];
+  // Falls back to the built-in persona for unknown or deleted ids
+  getPersona: (id?: string) => Persona;
+  savePersona: (persona: Persona) => void;
+  deletePersona: (id: string) => void;
+}
+
+const PersonaContext = createContext<PersonaContextType | undefined>(undefined);
+
+export const PersonaProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadPersonas()
+      .then(saved => { if (isMounted) setCustomPersonas(saved); })
+      .catch(e => console.error("Failed to load personas:", e));
+    return () => { isMounted = false; };
+  }, []);
+
+  const personas = [DEFAULT_PERSONA, ...customPersonas];
+
+  const getPersona = (id?: string) => customPersonas.find(p => p.id === id) ?? DEFAULT_PERSONA;
+
+  const savePersona = (persona: Persona) => {
+    setCustomPersonas(prev =>
+      [...prev.filter(p => p.id !== persona.id), persona].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    storePersona(persona);
+  };
+
+  const deletePersona = (id: string) => {
+    setCustomPersonas(prev => prev.filter(p => p.id !== id));
+    removePersona(id);
+  };
+
+  return (
+    <PersonaContext.Provider value={{ personas, getPersona, savePersona, deletePersona }}>
+      {children}
+    </PersonaContext.Provider>
+  );
+};
+
+export const usePersonas = (): PersonaContextType => {
+  const context = useContext(PersonaContext);
+  if (context === undefined) {
+    throw new Error('usePersonas must be used within a PersonaProvider');
+  }
+  return context;
+};
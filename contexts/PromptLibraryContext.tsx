@@ -0,0 +1,60 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { SavedPrompt } from '../types';
+import { loadPrompts, savePrompts, deletePrompt as removePrompt } from '../services/storage';
+
+interface PromptLibraryContextType {
+  // Sorted by name
+  prompts: SavedPrompt[];
+  savePrompt: (prompt: SavedPrompt) => void;
+  deletePrompt: (id: string) => void;
+  // Imported prompts replace saved ones with the same id
+  importPrompts: (imported: SavedPrompt[]) => { added: number; updated: number };
+}
+
+const PromptLibraryContext = createContext<PromptLibraryContextType | undefined>(undefined);
+
+const byName = (a: SavedPrompt, b: SavedPrompt) => a.name.localeCompare(b.name);
+
+export const PromptLibraryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [prompts, setPrompts] = useState<SavedPrompt[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadPrompts()
+      .then(saved => { if (isMounted) setPrompts(saved); })
+      .catch(e => console.error("Failed to load the prompt library:", e));
+    return () => { isMounted = false; };
+  }, []);
+
+  const savePrompt = (prompt: SavedPrompt) => {
+    setPrompts(prev => [...prev.filter(p => p.id !== prompt.id), prompt].sort(byName));
+    savePrompts([prompt]);
+  };
+
+  const deletePrompt = (id: string) => {
+    setPrompts(prev => prev.filter(p => p.id !== id));
+    removePrompt(id);
+  };
+
+  const importPrompts = (imported: SavedPrompt[]) => {
+    const importedIds = new Set<string>(imported.map(p => p.id));
+    const updated = prompts.filter(p => importedIds.has(p.id)).length;
+    setPrompts(prev => [...prev.filter(p => !importedIds.has(p.id)), ...imported].sort(byName));
+    savePrompts(imported);
+    return { added: importedIds.size - updated, updated };
+  };
+
+  return (
+    <PromptLibraryContext.Provider value={{ prompts, savePrompt, deletePrompt, importPrompts }}>
+      {children}
+    </PromptLibraryContext.Provider>
+  );
+};
+
+export const usePromptLibrary = (): PromptLibraryContextType => {
+  const context = useContext(PromptLibraryContext);
+  if (context === undefined) {
+    throw new Error('usePromptLibrary must be used within a PromptLibraryProvider');
+  }
+  return context;
+};
@@ -1,20 +1,50 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { GenerationMode, ModeConfig, ModeConfigs, getModeConfigs, saveModeConfigs, validateModeConfig, validateCompareSlots, MODE_DEFINITIONS } from '../services/modelSettings';
+import { DEFAULT_SPEECH_VOICE, SPEECH_VOICES } from '../services/modelRegistry';
+import type { ToolPreference } from '../services/tools';
+import type { ChatMode, CompareSlot } from '../types';
 
+export type { ChatMode };
 export type Theme = 'light' | 'dark';
-export type ChatMode = 'standard' | 'fast' | 'thinking' | 'search';
 
 interface SettingsContextType {
   theme: Theme;
   setTheme: (theme: Theme) => void;
   defaultChatMode: ChatMode;
   setDefaultChatMode: (mode: ChatMode) => void;
+  showThoughts: boolean;
+  setShowThoughts: (show: boolean) => void;
+  // Estimated tokens after which older chat turns are summarized; 0 turns it off
+  compactionThreshold: number;
+  setCompactionThreshold: (tokens: number) => void;
+  // The columns of a side-by-side comparison, two to four
+  compareSlots: CompareSlot[];
+  setCompareSlots: (slots: CompareSlot[]) => void;
+  // Keyed by tool name; tools without an entry use their defaults
+  toolPreferences: Record<string, ToolPreference>;
+  setToolPreference: (name: string, preference: ToolPreference) => void;
+  // The text-to-speech voice for reading replies aloud
+  speechVoice: string;
+  setSpeechVoice: (voice: string) => void;
+  modeConfigs: ModeConfigs;
+  updateModeConfig: (mode: GenerationMode, changes: Partial<ModeConfig>) => void;
+  resetModeConfig: (mode: GenerationMode) => void;
 }
 
+const DEFAULT_COMPACTION_THRESHOLD = 32000;
+const DEFAULT_COMPARE_SLOTS: CompareSlot[] = [{ mode: 'standard' }, { mode: 'fast' }];
+
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [theme, setThemeState] = useState<Theme>('dark');
   const [defaultChatMode, setDefaultChatModeState] = useState<ChatMode>('standard');
+  const [showThoughts, setShowThoughtsState] = useState(false);
+  const [compactionThreshold, setCompactionThresholdState] = useState(DEFAULT_COMPACTION_THRESHOLD);
+  const [compareSlots, setCompareSlotsState] = useState<CompareSlot[]>(DEFAULT_COMPARE_SLOTS);
+  const [toolPreferences, setToolPreferences] = useState<Record<string, ToolPreference>>({});
+  const [speechVoice, setSpeechVoiceState] = useState(DEFAULT_SPEECH_VOICE);
+  const [modeConfigs, setModeConfigs] = useState<ModeConfigs>(getModeConfigs);
 
   useEffect(() => {
     const storedTheme = localStorage.getItem('theme') as Theme;
@@ -31,6 +61,36 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     if (storedChatMode) {
       setDefaultChatModeState(storedChatMode);
     }
+
+    setShowThoughtsState(localStorage.getItem('showThoughts') === 'true');
+
+    const storedThreshold = localStorage.getItem('compactionThreshold');
+    if (storedThreshold !== null && Number(storedThreshold) >= 0) {
+      setCompactionThresholdState(Number(storedThreshold));
+    }
+
+    try {
+      const storedSlots = validateCompareSlots(JSON.parse(localStorage.getItem('compareSlots') || 'null'));
+      if (storedSlots) {
+        setCompareSlotsState(storedSlots);
+      }
+    } catch (e) {
+      console.error("Failed to load comparison settings:", e);
+    }
+
+    try {
+      const storedTools = JSON.parse(localStorage.getItem('toolPreferences') || 'null');
+      if (storedTools && typeof storedTools === 'object') {
+        setToolPreferences(storedTools);
+      }
+    } catch (e) {
+      console.error("Failed to load tool settings:", e);
+    }
+
+    const storedVoice = localStorage.getItem('speechVoice');
+    if (storedVoice && SPEECH_VOICES.some(voice => voice.name === storedVoice)) {
+      setSpeechVoiceState(storedVoice);
+    }
   }, []);
 
   const setTheme = (newTheme: Theme) => {
@@ -42,7 +102,47 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     setDefaultChatModeState(newMode);
     localStorage.setItem('defaultChatMode', newMode);
   };
+
+  const setShowThoughts = (show: boolean) => {
+    setShowThoughtsState(show);
+    localStorage.setItem('showThoughts', String(show));
+  };
   
+  const setCompactionThreshold = (tokens: number) => {
+    setCompactionThresholdState(tokens);
+    localStorage.setItem('compactionThreshold', String(tokens));
+  };
+
+  const setCompareSlots = (slots: CompareSlot[]) => {
+    setCompareSlotsState(slots);
+    localStorage.setItem('compareSlots', JSON.stringify(slots));
+  };
+
+  const setToolPreference = (name: string, preference: ToolPreference) => {
+    const next = { ...toolPreferences, [name]: preference };
+    setToolPreferences(next);
+    localStorage.setItem('toolPreferences', JSON.stringify(next));
+  };
+
+  const setSpeechVoice = (voice: string) => {
+    setSpeechVoiceState(voice);
+    localStorage.setItem('speechVoice', voice);
+  };
+
+  const storeModeConfig = (mode: GenerationMode, config: ModeConfig) => {
+    const next = { ...modeConfigs, [mode]: validateModeConfig(mode, config) };
+    setModeConfigs(next);
+    saveModeConfigs(next);
+  };
+
+  const updateModeConfig = (mode: GenerationMode, changes: Partial<ModeConfig>) => {
+    storeModeConfig(mode, { ...modeConfigs[mode], ...changes });
+  };
+
+  const resetModeConfig = (mode: GenerationMode) => {
+    storeModeConfig(mode, MODE_DEFINITIONS[mode].defaults);
+  };
+
   useEffect(() => {
     if (theme === 'dark') {
       document.documentElement.classList.add('dark');
@@ -52,7 +152,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   }, [theme]);
 
   return (
-    <SettingsContext.Provider value={{ theme, setTheme, defaultChatMode, setDefaultChatMode }}>
+    <SettingsContext.Provider value={{ theme, setTheme, defaultChatMode, setDefaultChatMode, showThoughts, setShowThoughts, compactionThreshold, setCompactionThreshold, compareSlots, setCompareSlots, toolPreferences, setToolPreference, speechVoice, setSpeechVoice, modeConfigs, updateModeConfig, resetModeConfig }}>
       {children}
     </SettingsContext.Provider>
   );
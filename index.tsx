@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { PersonaProvider } from './contexts/PersonaContext';
+import { PromptLibraryProvider } from './contexts/PromptLibraryContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,7 +14,11 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <SettingsProvider>
-      <App />
+      <PersonaProvider>
+        <PromptLibraryProvider>
+          <App />
+        </PromptLibraryProvider>
+      </PersonaProvider>
     </SettingsProvider>
   </React.StrictMode>
 );
\ No newline at end of file
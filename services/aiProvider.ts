@@ -0,0 +1,86 @@
+import type {
+  Content,
+  CreateChatParameters,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateImagesParameters,
+  GenerateImagesResponse,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  SendMessageParameters,
+} from "@google/genai";
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { AuthError } from './errors';
+
+export type ProviderName = 'gemini' | 'mock';
+
+// The subset of the SDK's Chat class the app relies on. A per-message config is
+// merged over the session config rather than replacing it.
+export interface ChatSession {
+  readonly model: string;
+  sendMessage(params: SendMessageParameters): Promise<GenerateContentResponse>;
+  sendMessageStream(params: SendMessageParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  getHistory(curated?: boolean): Content[];
+}
+
+// The subset of the SDK's live Session class the app relies on.
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+}
+
+export interface AIProvider {
+  readonly name: ProviderName;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse>;
+  createChat(params: CreateChatParameters): ChatSession;
+  connectLive(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+let activeProvider: AIProvider | null = null;
+
+// Stands in for Gemini when no API key is configured. Every request fails with an
+// AuthError, so the missing key shows up wherever a request is made.
+const createMissingKeyProvider = (): AIProvider => {
+  const fail = async (): Promise<never> => {
+    throw new AuthError();
+  };
+  return {
+    name: 'gemini',
+    generateContent: fail,
+    generateContentStream: fail,
+    generateImages: fail,
+    createChat: ({ model, history }) => ({ model, sendMessage: fail, sendMessageStream: fail, getHistory: () => history ?? [] }),
+    connectLive: fail,
+  };
+};
+
+// The mock is only used when asked for, so a deployment missing its key fails
+// visibly instead of serving canned replies that look real.
+const resolveDefaultProvider = (): AIProvider => {
+  if (process.env.AI_PROVIDER === 'mock') {
+    return createMockProvider();
+  }
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    console.error("API_KEY environment variable not set. Set GEMINI_API_KEY, or AI_PROVIDER=mock for the offline mock provider.");
+    return createMissingKeyProvider();
+  }
+  return createGeminiProvider(apiKey);
+};
+
+// Resolved lazily so that importing the service layer never throws.
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveDefaultProvider();
+  }
+  return activeProvider;
+};
+
+export const setProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,52 @@
+import type { ChatMode, ComparisonVote } from '../types';
+
+export interface ContenderStats {
+  mode: ChatMode;
+  model: string;
+  wins: number;
+  comparisons: number;
+}
+
+const VOTES_KEY = 'comparisonVotes';
+// Oldest votes are dropped past this point to keep localStorage small.
+const MAX_VOTES = 2000;
+
+export const getVotes = (): ComparisonVote[] => {
+  try {
+    return JSON.parse(localStorage.getItem(VOTES_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to load comparison votes:", e);
+    return [];
+  }
+};
+
+const saveVotes = (votes: ComparisonVote[]) => {
+  try {
+    localStorage.setItem(VOTES_KEY, JSON.stringify(votes));
+  } catch (e) {
+    console.error("Failed to save comparison votes:", e);
+  }
+};
+
+export const recordVote = (vote: Omit<ComparisonVote, 'id' | 'timestamp'>) => {
+  saveVotes([...getVotes(), { id: crypto.randomUUID(), timestamp: Date.now(), ...vote }].slice(-MAX_VOTES));
+};
+
+export const clearVotes = () => saveVotes([]);
+
+// Wins per mode and model combination, best win rate first.
+export const getContenderStats = (votes: ComparisonVote[]): ContenderStats[] => {
+  const byContender = new Map<string, ContenderStats>();
+  for (const vote of votes) {
+    vote.contenders.forEach((contender, i) => {
+      const key = `${contender.mode}:${contender.model}`;
+      const stats = byContender.get(key) ?? { ...contender, wins: 0, comparisons: 0 };
+      byContender.set(key, {
+        ...stats,
+        wins: stats.wins + (i === vote.winner ? 1 : 0),
+        comparisons: stats.comparisons + 1,
+      });
+    });
+  }
+  return [...byContender.values()].sort((a, b) => b.wins / b.comparisons - a.wins / a.comparisons || b.comparisons - a.comparisons);
+};
@@ -0,0 +1,141 @@
+import type { GenerateContentResponse } from "@google/genai";
+
+export type AIErrorKind =
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'auth'
+  | 'safety-blocked'
+  | 'network'
+  | 'bad-response'
+  | 'unavailable-model'
+  | 'unknown';
+
+interface AIServiceErrorOptions {
+  cause?: unknown;
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind = 'unknown';
+  readonly retryable: boolean;
+  // How long the API asked us to wait before trying again, when it said so.
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: AIServiceErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AIServiceError';
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class RateLimitedError extends AIServiceError {
+  readonly kind = 'rate-limited';
+  constructor(options: AIServiceErrorOptions = {}) {
+    super("Rate limit exceeded. Wait a moment before trying again.", { retryable: true, ...options });
+    this.name = 'RateLimitedError';
+  }
+}
+
+// A daily or project quota that is used up; unlike a rate limit, it won't clear in seconds.
+export class QuotaExceededError extends AIServiceError {
+  readonly kind = 'quota-exceeded';
+  constructor(options: AIServiceErrorOptions = {}) {
+    super("The quota for this model or project is used up. Check your plan's quota and billing, or choose another model in Settings.", options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class AuthError extends AIServiceError {
+  readonly kind = 'auth';
+  constructor(options: AIServiceErrorOptions = {}) {
+    super("The API key is missing, invalid or lacks permission. Check GEMINI_API_KEY in .env.local.", options);
+    this.name = 'AuthError';
+  }
+}
+
+export class SafetyBlockedError extends AIServiceError {
+  readonly kind = 'safety-blocked';
+  constructor(reason: string, options: AIServiceErrorOptions = {}) {
+    super(`The request was blocked by safety filters (${reason}). Try rephrasing your prompt.`, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NetworkError extends AIServiceError {
+  readonly kind = 'network';
+  constructor(options: AIServiceErrorOptions = {}) {
+    super("Could not reach the AI service. Check your internet connection.", { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class BadResponseError extends AIServiceError {
+  readonly kind = 'bad-response';
+  constructor(detail: string, options: AIServiceErrorOptions = {}) {
+    super(`The model returned an unexpected response: ${detail}`, options);
+    this.name = 'BadResponseError';
+  }
+}
+
+export class ModelUnavailableError extends AIServiceError {
+  readonly kind = 'unavailable-model';
+  constructor(options: AIServiceErrorOptions = {}) {
+    super("The model is unavailable or overloaded right now. It may not be offered in your region.", options);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+const parseRetryAfterMs = (message: string): number | undefined => {
+  // The API reports RetryInfo as e.g. "retryDelay": "27s" or "retryDelay":"1.5s"
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const toAIServiceError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error);
+  const options = { cause: error };
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    // Only a rate limit that says when to come back is worth retrying
+    const retryAfterMs = parseRetryAfterMs(message);
+    const rateLimited = (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) && retryAfterMs !== undefined && !/PerDay/i.test(message);
+    return rateLimited ? new RateLimitedError({ ...options, retryAfterMs }) : new QuotaExceededError(options);
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+    return new AuthError(options);
+  }
+  if (status === 404) {
+    return new ModelUnavailableError(options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ModelUnavailableError({ ...options, retryable: true });
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new NetworkError(options);
+  }
+  return new AIServiceError(message || 'An unexpected error occurred.', options);
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+// Throws when the prompt or the first candidate was stopped by a safety filter.
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(String(blockReason));
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(String(finishReason))) {
+    throw new SafetyBlockedError(String(finishReason));
+  }
+};
@@ -0,0 +1,68 @@
+import type { Extractor } from '../types';
+
+// Added once, when the extractor store is first created.
+export const STARTER_EXTRACTORS: Extractor[] = [
+  {
+    id: 'starter-support-ticket',
+    name: 'Support ticket',
+    instructions: 'Classify the ticket and pull out who is affected and what they need. Write the summary in one sentence.',
+    schema: {
+      type: 'object',
+      properties: {
+        customer: { type: 'string', description: 'Name or email of the person who wrote in' },
+        product: { type: 'string' },
+        category: { type: 'string', enum: ['bug', 'billing', 'account', 'feature request', 'question'] },
+        priority: { type: 'string', enum: ['low', 'normal', 'high', 'urgent'] },
+        summary: { type: 'string' },
+        steps_to_reproduce: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['category', 'priority', 'summary'],
+    },
+    updatedAt: 0,
+  },
+  {
+    id: 'starter-email',
+    name: 'Email action items',
+    instructions: 'List every request or commitment in the email as a separate action item. Use ISO dates for deadlines.',
+    schema: {
+      type: 'object',
+      properties: {
+        sender: { type: 'string' },
+        subject: { type: 'string' },
+        action_items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              task: { type: 'string' },
+              owner: { type: 'string' },
+              due: { type: 'string', format: 'date' },
+            },
+            required: ['task'],
+          },
+        },
+      },
+      required: ['action_items'],
+    },
+    updatedAt: 0,
+  },
+  {
+    id: 'starter-contacts',
+    name: 'Contacts',
+    instructions: 'Find every person mentioned with any contact details.',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          company: { type: 'string' },
+          email: { type: 'string' },
+          phone: { type: 'string' },
+        },
+        required: ['name'],
+      },
+    },
+    updatedAt: 0,
+  },
+];
@@ -0,0 +1,32 @@
+import { GoogleGenAI } from "@google/genai";
+import type { SendMessageParameters } from "@google/genai";
+import type { AIProvider } from './aiProvider';
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  // Affective dialog and proactive audio are only on the v1alpha Live API
+  let alphaAi: GoogleGenAI | null = null;
+  const getAlphaAi = () => alphaAi ??= new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+  return {
+    name: 'gemini',
+    generateContent: (params) => ai.models.generateContent(params),
+    generateContentStream: (params) => ai.models.generateContentStream(params),
+    generateImages: (params) => ai.models.generateImages(params),
+    createChat: (params) => {
+      const chat = ai.chats.create(params);
+      // The SDK replaces the session config with a per-message one; merge them instead
+      // so a message can carry an abort signal without dropping the system instruction.
+      const withSessionConfig = (message: SendMessageParameters): SendMessageParameters =>
+        message.config ? { ...message, config: { ...params.config, ...message.config } } : message;
+      return {
+        model: params.model,
+        sendMessage: (message) => chat.sendMessage(withSessionConfig(message)),
+        sendMessageStream: (message) => chat.sendMessageStream(withSessionConfig(message)),
+        getHistory: (curated) => chat.getHistory(curated),
+      };
+    },
+    connectLive: (params) =>
+      (params.config?.enableAffectiveDialog || params.config?.proactivity ? getAlphaAi() : ai).live.connect(params),
+  };
+};
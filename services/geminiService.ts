@@ -1,267 +1,589 @@
-import { GoogleGenAI, Chat, Modality, Type, Content } from "@google/genai";
-import type { GroundingSource } from '../types';
+import { Modality, Type, Content, LiveCallbacks, GenerateContentResponse, PartListUnion } from "@google/genai";
+import type { FunctionCall, FunctionDeclaration } from "@google/genai";
+import type { GenerateImagesResponse } from "@google/genai";
+import type { Attachment, ChatMode, Citation, GroundingSource, JsonSchema, Persona, ToolCall } from '../types';
+import { getProvider, ChatSession, LiveSession } from './aiProvider';
+import { assertNotBlocked, AIServiceError, BadResponseError, toAIServiceError } from './errors';
+import { withRetry } from './retry';
+import { CHAT_GENERATION_MODES, getModeConfig, GenerationMode, ModeConfig, toGenerationConfig, toImageSafetyFilter, validateModeConfig } from './modelSettings';
+import { getBudgetWarning, recordUsage } from './usageLedger';
+import { toFunctionResponsePart } from './tools';
+import { findModel } from './modelRegistry';
+import { DEFAULT_LIVE_CONFIG, findLiveLanguage, LiveSessionConfig } from './liveSettings';
+import { toMessageParts } from '../utils/attachments';
 
-const API_KEY = process.env.API_KEY;
+// Cancelled requests are rethrown untouched so callers can tell them apart from failures.
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+interface RequestTarget {
+  mode: GenerationMode;
+  model: string;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+type UsageSource = Pick<GenerateContentResponse, 'usageMetadata'> | GenerateImagesResponse;
 
-export const createChatSession = (history?: Content[]): Chat => {
-  const chat = ai.chats.create({
-    model: 'gemini-2.5-flash',
+const trackUsage = (target: RequestTarget, startedAt: number, source?: UsageSource, error?: AIServiceError) => {
+  const usage = source && 'usageMetadata' in source ? source.usageMetadata : undefined;
+  const images = source && 'generatedImages' in source
+    ? (source.generatedImages || []).filter(image => image.image?.imageBytes).length
+    : 0;
+  recordUsage({
+    ...target,
+    promptTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: usage?.candidatesTokenCount ?? 0,
+    thinkingTokens: usage?.thoughtsTokenCount ?? 0,
+    images,
+    latencyMs: Math.round(performance.now() - startedAt),
+    success: !error,
+    errorKind: error?.kind,
+  });
+};
+
+// Soft budgets only warn. Returns false if the user declines to go over one.
+export const confirmOverBudget = (): boolean => {
+  const warning = getBudgetWarning();
+  return !warning || window.confirm(`${warning}\n\nSend the request anyway?`);
+};
+
+// Declining is treated like pressing Stop.
+const confirmWithinBudget = () => {
+  if (!confirmOverBudget()) {
+    throw new DOMException("Cancelled because the usage budget was reached.", 'AbortError');
+  }
+};
+
+interface RequestOptions {
+  // False for requests whose caller has already asked, or asks once for a batch of them
+  confirmBudget?: boolean;
+}
+
+/**
+ * Retries transient failures and turns everything else into a typed AIServiceError.
+ * `request` passes each raw response through `track` so its token usage lands in the ledger.
+ */
+const runRequest = async <T>(
+  action: string,
+  target: RequestTarget,
+  signal: AbortSignal | undefined,
+  request: (track: <R extends UsageSource>(response: R) => R) => Promise<T>,
+  { confirmBudget = true }: RequestOptions = {}
+): Promise<T> => {
+  if (confirmBudget) confirmWithinBudget();
+  const startedAt = performance.now();
+  let lastResponse: UsageSource | undefined;
+  const track = <R extends UsageSource>(response: R): R => {
+    lastResponse = response;
+    return response;
+  };
+  try {
+    const result = await withRetry(() => request(track), { signal });
+    trackUsage(target, startedAt, lastResponse);
+    return result;
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error(`Error ${action}:`, error);
+    const serviceError = toAIServiceError(error);
+    trackUsage(target, startedAt, lastResponse, serviceError);
+    throw serviceError;
+  }
+};
+
+// The model and generation parameters currently configured for a mode in Settings,
+// with a persona's model and temperature in their place if it sets them.
+const modeRequest = (mode: GenerationMode, persona?: Persona) => {
+  const overrides: Partial<ModeConfig> = {};
+  if (persona?.model) overrides.model = persona.model;
+  if (persona?.temperature !== undefined) overrides.temperature = persona.temperature;
+  const config = Object.keys(overrides).length > 0
+    ? validateModeConfig(mode, { ...getModeConfig(mode), ...overrides })
+    : getModeConfig(mode);
+  const target: RequestTarget = { mode, model: config.model };
+  return { target, model: config.model, generationConfig: toGenerationConfig(config) };
+};
+
+const requireText = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+  const text = response.text;
+  if (!text) {
+    throw new BadResponseError("the reply was empty.");
+  }
+  return text;
+};
+
+const toToolsConfig = (functionDeclarations?: FunctionDeclaration[]) =>
+  functionDeclarations?.length ? { tools: [{ functionDeclarations }] } : {};
+
+// A persona's system instruction replaces the mode's own. Function declarations let the
+// model call local tools; see streamChatWithTools.
+export const createChatSession = (history?: Content[], persona?: Persona, functionDeclarations?: FunctionDeclaration[]): ChatSession => {
+  const { model, generationConfig } = modeRequest('chat-standard', persona);
+  const chat = getProvider().createChat({
+    model,
     history,
     config: {
-      systemInstruction: 'You are Gemini, a helpful and creative AI assistant. Respond with clarity and personality.',
+      ...generationConfig,
+      systemInstruction: persona?.systemInstruction || 'You are Gemini, a helpful and creative AI assistant. Respond with clarity and personality.',
+      ...toToolsConfig(functionDeclarations),
     },
   });
   return chat;
 };
 
-export const createFastChatSession = (history?: Content[]): Chat => {
-  const chat = ai.chats.create({
-    model: 'gemini-flash-lite-latest',
+export const createFastChatSession = (history?: Content[], persona?: Persona, functionDeclarations?: FunctionDeclaration[]): ChatSession => {
+  const { model, generationConfig } = modeRequest('chat-fast', persona);
+  const chat = getProvider().createChat({
+    model,
     history,
     config: {
-      systemInstruction: 'You are Gemini Lite, a fast and helpful AI assistant. Keep responses brief and to the point.',
+      ...generationConfig,
+      systemInstruction: persona?.systemInstruction || 'You are Gemini Lite, a fast and helpful AI assistant. Keep responses brief and to the point.',
+      ...toToolsConfig(functionDeclarations),
     },
   });
   return chat;
 };
 
-export const generateGroundedContent = async (
-  prompt: string
-): Promise<{ text: string; sources: GroundingSource[] }> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
+export const createSearchChatSession = (history?: Content[], persona?: Persona): ChatSession => {
+  const { model, generationConfig } = modeRequest('chat-search', persona);
+  return getProvider().createChat({
+    model,
+    history,
+    config: {
+      ...generationConfig,
+      ...(persona?.systemInstruction && { systemInstruction: persona.systemInstruction }),
+      tools: [{ googleSearch: {} }],
+    },
+  });
+};
 
-    const text = response.text;
-    const sources: GroundingSource[] = [];
-
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-    if (groundingMetadata?.groundingChunks) {
-      for (const chunk of groundingMetadata.groundingChunks) {
-        if (chunk.web) {
-          sources.push({
-            uri: chunk.web.uri,
-            title: chunk.web.title || chunk.web.uri,
-          });
-        }
-      }
+// With `includeThoughts`, replies also carry summaries of the model's reasoning (see getThoughtText).
+export const createThinkingChatSession = (history?: Content[], includeThoughts = false, persona?: Persona, functionDeclarations?: FunctionDeclaration[]): ChatSession => {
+  const { model, generationConfig } = modeRequest('chat-thinking', persona);
+  return getProvider().createChat({
+    model,
+    history,
+    config: {
+      ...generationConfig,
+      ...(persona?.systemInstruction && { systemInstruction: persona.systemInstruction }),
+      thinkingConfig: { ...generationConfig.thinkingConfig, includeThoughts },
+      ...toToolsConfig(functionDeclarations),
+    },
+  });
+};
+
+// A session for a chat mode, with the generation mode its usage is recorded under.
+// Search mode can't be combined with function calling, so it ignores the declarations.
+export const createModeChatSession = (
+  chatMode: ChatMode,
+  history: Content[],
+  persona: Persona,
+  includeThoughts: boolean,
+  functionDeclarations?: FunctionDeclaration[]
+): { session: ChatSession; mode: GenerationMode } => {
+  const session =
+    chatMode === 'search' ? createSearchChatSession(history, persona)
+    : chatMode === 'thinking' ? createThinkingChatSession(history, includeThoughts, persona, functionDeclarations)
+    : chatMode === 'fast' ? createFastChatSession(history, persona, functionDeclarations)
+    : createChatSession(history, persona, functionDeclarations);
+  return { session, mode: CHAT_GENERATION_MODES[chatMode] };
+};
+
+// The thought summary parts of a response, which `response.text` leaves out.
+export const getThoughtText = (response: GenerateContentResponse): string =>
+  (response.candidates?.[0]?.content?.parts || [])
+    .filter(part => part.thought && part.text)
+    .map(part => part.text)
+    .join('');
+
+// The answer text of a response. Unlike `response.text`, doesn't warn about the
+// function call parts of a tool-calling reply.
+export const getReplyText = (response: GenerateContentResponse): string =>
+  (response.candidates?.[0]?.content?.parts || [])
+    .filter(part => !part.thought && part.text)
+    .map(part => part.text)
+    .join('');
+
+/**
+ * The web sources behind a search-grounded reply, plus the citations tying spans
+ * of the reply text to them. Returns null for chunks without grounding metadata.
+ */
+export const getGrounding = (response: GenerateContentResponse): { sources: GroundingSource[]; citations: Citation[] } | null => {
+  const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+  if (!groundingMetadata?.groundingChunks) return null;
+
+  const sources: GroundingSource[] = [];
+  // Grounding chunk index -> index in `sources`, skipping chunks that aren't web pages
+  const sourceIndexByChunk = new Map<number, number>();
+  groundingMetadata.groundingChunks.forEach((chunk, index) => {
+    if (chunk.web?.uri) {
+      sourceIndexByChunk.set(index, sources.length);
+      sources.push({
+        uri: chunk.web.uri,
+        title: chunk.web.title || chunk.web.uri,
+      });
     }
+  });
 
-    return { text, sources };
-  } catch (error) {
-    console.error("Error generating grounded content:", error);
-    throw new Error("Failed to generate grounded response. The model may not be available in your region.");
+  const citations: Citation[] = [];
+  for (const support of groundingMetadata.groundingSupports || []) {
+    const sourceIndices = (support.groundingChunkIndices || [])
+      .map(index => sourceIndexByChunk.get(index))
+      .filter((index): index is number => index !== undefined);
+    if (support.segment?.endIndex !== undefined && sourceIndices.length > 0) {
+      citations.push({ endIndex: support.segment.endIndex, sourceIndices });
+    }
   }
+  return { sources, citations };
 };
 
-export const generateComplexContent = async (prompt: string): Promise<string> => {
+// Only opening the stream is retried; a failure mid-stream surfaces to the caller.
+export async function* streamChatMessage(
+  chat: ChatSession,
+  message: PartListUnion,
+  mode: GenerationMode,
+  signal?: AbortSignal,
+  { confirmBudget = true }: RequestOptions = {}
+): AsyncGenerator<GenerateContentResponse> {
+  if (confirmBudget) confirmWithinBudget();
+  const target = { mode, model: chat.model };
+  const startedAt = performance.now();
+  // The API reports usage for the whole reply on the final chunks.
+  let usageChunk: GenerateContentResponse | undefined;
+  try {
+    const stream = await withRetry(() => chat.sendMessageStream({ message, config: { abortSignal: signal } }), { signal });
+    for await (const chunk of stream) {
+      if (chunk.usageMetadata) usageChunk = chunk;
+      assertNotBlocked(chunk);
+      yield chunk;
+    }
+    trackUsage(target, startedAt, usageChunk);
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error("Error streaming chat message:", error);
+    const serviceError = toAIServiceError(error);
+    trackUsage(target, startedAt, usageChunk, serviceError);
+    throw serviceError;
+  }
+}
+
+// Rounds of tool calls allowed before a reply is treated as stuck.
+const MAX_TOOL_STEPS = 8;
+
+export type ChatStreamEvent =
+  | { type: 'chunk'; chunk: GenerateContentResponse }
+  // Sent as a call starts running and again with its result
+  | { type: 'tool-call'; call: ToolCall };
+
+/**
+ * Streams a reply like streamChatMessage, but when the model calls tools, runs them
+ * with `runTool` and sends the results back, until the model answers without calling any.
+ * The budget is checked once for the whole reply, not on every round.
+ */
+export async function* streamChatWithTools(
+  chat: ChatSession,
+  message: PartListUnion,
+  mode: GenerationMode,
+  runTool: (call: ToolCall) => Promise<ToolCall>,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  confirmWithinBudget();
+  let next = message;
+  for (let step = 0; ; step++) {
+    const requested: FunctionCall[] = [];
+    for await (const chunk of streamChatMessage(chat, next, mode, signal, { confirmBudget: false })) {
+      requested.push(...(chunk.functionCalls ?? []));
+      yield { type: 'chunk', chunk };
+    }
+    if (requested.length === 0) return;
+    if (step === MAX_TOOL_STEPS) {
+      throw new BadResponseError(`the model was still calling tools after ${MAX_TOOL_STEPS} rounds.`);
+    }
+    const results: ToolCall[] = [];
+    for (const { id, name, args } of requested) {
+      const call: ToolCall = { id: id ?? crypto.randomUUID(), name: name ?? '', args: args ?? {}, status: 'running' };
+      yield { type: 'tool-call', call };
+      const result = await runTool(call);
+      results.push(result);
+      yield { type: 'tool-call', call: result };
+    }
+    next = results.map(toFunctionResponsePart);
+  }
+}
+
+// A short title and a one-line summary for a new conversation, from its first exchange.
+export const generateConversationTitle = async (transcript: string, signal?: AbortSignal): Promise<{ title: string; summary: string }> => {
+  const prompt = `Give this conversation a short title (at most six words, no quotes or trailing punctuation) and a one-sentence summary of what it is about.\n\n${transcript}`;
+  const { target, model, generationConfig } = modeRequest('chat-fast');
+  return runRequest("titling conversation", target, signal, async (track) => {
+    const response = track(await getProvider().generateContent({
+      model,
+      contents: prompt,
+      config: {
+        ...generationConfig,
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            summary: { type: Type.STRING },
+          },
+          required: ['title', 'summary'],
+        },
+      },
+    }));
+
+    let parsed: { title?: unknown; summary?: unknown };
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
-            config: {
-                thinkingConfig: { thinkingBudget: 32768 },
-            },
-        });
-        return response.text;
+      parsed = JSON.parse(requireText(response));
     } catch (error) {
-        console.error("Error generating complex content:", error);
-        throw new Error("Failed to generate complex response. The model may be unavailable or the query too complex.");
+      throw new BadResponseError("the title JSON could not be parsed.", { cause: error });
+    }
+    if (typeof parsed?.title !== 'string' || !parsed.title.trim() || typeof parsed.summary !== 'string') {
+      throw new BadResponseError("the title JSON does not match the expected shape.");
     }
+    return { title: parsed.title.trim(), summary: parsed.summary.trim() };
+  }, { confirmBudget: false });
 };
 
-export const generateImage = async (prompt: string, style: string): Promise<string> => {
-  try {
-    const fullPrompt = `${prompt}, in a ${style.toLowerCase()} style`;
-    
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+// Folds the transcript of older chat turns into the running summary that replaces them in history.
+export const summarizeConversation = async (transcript: string, previousSummary?: string, signal?: AbortSignal): Promise<string> => {
+  const earlier = previousSummary ? `Summary of the conversation before this part:\n${previousSummary}\n\n` : '';
+  const prompt = `${earlier}Conversation:\n${transcript}\n\nWrite a concise summary of the whole conversation so far for the assistant to continue from. Keep the facts, decisions, names, numbers and open questions; leave out pleasantries.`;
+  const { target, model, generationConfig } = modeRequest('chat-fast');
+  return runRequest("summarizing conversation", target, signal, async (track) => {
+    const response = track(await getProvider().generateContent({
+      model,
+      contents: prompt,
+      config: {
+        ...generationConfig,
+        abortSignal: signal,
+      },
+    }));
+    return requireText(response);
+  }, { confirmBudget: false });
+};
+
+export const generateImage = async (prompt: string, style: string, signal?: AbortSignal): Promise<string> => {
+  const fullPrompt = `${prompt}, in a ${style.toLowerCase()} style`;
+
+  const config = getModeConfig('image');
+  const target: RequestTarget = { mode: 'image', model: config.model };
+  return runRequest("generating image", target, signal, async (track) => {
+    const response = track(await getProvider().generateImages({
+        model: config.model,
         prompt: fullPrompt,
         config: {
+          safetyFilterLevel: toImageSafetyFilter(config),
           numberOfImages: 1,
           outputMimeType: 'image/png',
           aspectRatio: '1:1',
+          abortSignal: signal,
         },
-    });
+    }));
 
-    if (response.generatedImages && response.generatedImages.length > 0) {
-      const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-      return `data:image/png;base64,${base64ImageBytes}`;
-    } else {
-      throw new Error("No image was generated.");
+    const image = response.generatedImages?.[0];
+    if (image?.image?.imageBytes) {
+      return `data:image/png;base64,${image.image.imageBytes}`;
     }
-  } catch (error) {
-    console.error("Error generating image:", error);
-    throw new Error("Failed to generate image. Please check the prompt or API key.");
-  }
+    if (image?.raiFilteredReason) {
+      throw new BadResponseError(`no image was generated (${image.raiFilteredReason}). Try rephrasing your prompt.`);
+    }
+    throw new BadResponseError("no image was generated.");
+  });
 };
 
 export const editImage = async (
   base64ImageData: string,
   mimeType: string,
-  prompt: string
+  prompt: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  try {
-    const imagePart = {
-      inlineData: {
-        data: base64ImageData,
-        mimeType: mimeType,
-      },
-    };
-    const textPart = {
-      text: prompt,
-    };
+  const imagePart = {
+    inlineData: {
+      data: base64ImageData,
+      mimeType: mimeType,
+    },
+  };
+  const textPart = {
+    text: prompt,
+  };
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+  const { target, model, generationConfig } = modeRequest('edit');
+  return runRequest("editing image", target, signal, async (track) => {
+    const response = track(await getProvider().generateContent({
+      model,
       contents: {
         parts: [imagePart, textPart],
       },
       config: {
+        ...generationConfig,
         responseModalities: [Modality.IMAGE],
+        abortSignal: signal,
       },
-    });
+    }));
 
-    for (const part of response.candidates[0].content.parts) {
+    assertNotBlocked(response);
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
       if (part.inlineData) {
         const base64ImageBytes: string = part.inlineData.data;
         return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
       }
     }
-    throw new Error("No edited image was generated.");
-  } catch (error) {
-    console.error("Error editing image:", error);
-    throw new Error("Failed to edit image. Please check the prompt or try a different image.");
-  }
+    throw new BadResponseError("no edited image was generated.");
+  });
 };
 
-export const generateSpeech = async (text: string): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+// Without a voice the model picks its default one.
+export const generateSpeech = async (text: string, signal?: AbortSignal, voice?: string, options?: RequestOptions): Promise<string> => {
+  const { target, model, generationConfig } = modeRequest('tts');
+  return runRequest("generating speech", target, signal, async (track) => {
+    const response = track(await getProvider().generateContent({
+      model,
       contents: [{ parts: [{ text }] }],
       config: {
+        ...generationConfig,
         responseModalities: [Modality.AUDIO],
+        ...(voice && { speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } } }),
+        abortSignal: signal,
       },
-    });
+    }));
 
+    assertNotBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (base64Audio) {
       return base64Audio;
     } else {
-      throw new Error("No audio was generated.");
+      throw new BadResponseError("no audio was generated.");
     }
-  } catch (error) {
-    console.error("Error generating speech:", error);
-    throw new Error("Failed to generate speech. The model may be unavailable in your region.");
-  }
+  }, options);
 };
 
 export const transcribeAudio = async (
   base64AudioData: string,
-  mimeType: string
+  mimeType: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  try {
-    const audioPart = {
-      inlineData: {
-        data: base64AudioData,
-        mimeType: mimeType,
-      },
-    };
-    const textPart = {
-      text: "Transcribe the following audio:",
-    };
+  const audioPart = {
+    inlineData: {
+      data: base64AudioData,
+      mimeType: mimeType,
+    },
+  };
+  const textPart = {
+    text: "Transcribe the following audio:",
+  };
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+  const { target, model, generationConfig } = modeRequest('transcription');
+  return runRequest("transcribing audio", target, signal, async (track) => {
+    const response = track(await getProvider().generateContent({
+      model,
       contents: {
         parts: [textPart, audioPart],
       },
-    });
+      config: {
+        ...generationConfig,
+        abortSignal: signal,
+      },
+    }));
 
-    return response.text;
-  } catch (error) {
-    console.error("Error transcribing audio:", error);
-    throw new Error("Failed to transcribe audio. The model may be unavailable or the audio format is not supported.");
-  }
+    return requireText(response);
+  });
 };
 
-export const generateCode = async (prompt: string, language: string): Promise<string> => {
+export const generateCode = async (prompt: string, language: string, signal?: AbortSignal): Promise<string> => {
     const fullPrompt = `Generate a snippet of ${language} code that does the following: ${prompt}. Only return the raw code inside a markdown block, with no explanation.`;
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
+    const { target, model, generationConfig } = modeRequest('code');
+    return runRequest("generating code", target, signal, async (track) => {
+        const response = track(await getProvider().generateContent({
+            model,
             contents: fullPrompt,
-        });
-        return response.text;
-    } catch (error) {
-        console.error("Error generating code:", error);
-        throw new Error("Failed to generate code.");
-    }
+            config: {
+                ...generationConfig,
+                abortSignal: signal,
+            },
+        }));
+        return requireText(response);
+    });
 };
 
-export const explainCode = async (code: string, language: string): Promise<string> => {
+export const explainCode = async (code: string, language: string, signal?: AbortSignal): Promise<string> => {
     const fullPrompt = `Explain the following ${language} code snippet. Break it down and describe what it does.\n\n\`\`\`${language}\n${code}\n\`\`\``;
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
+    const { target, model, generationConfig } = modeRequest('code');
+    return runRequest("explaining code", target, signal, async (track) => {
+        const response = track(await getProvider().generateContent({
+            model,
             contents: fullPrompt,
-        });
-        return response.text;
-    } catch (error) {
-        console.error("Error explaining code:", error);
-        throw new Error("Failed to explain code.");
-    }
+            config: {
+                ...generationConfig,
+                abortSignal: signal,
+            },
+        }));
+        return requireText(response);
+    });
 };
 
-export const debugCode = async (code: string, language: string): Promise<string> => {
+export const debugCode = async (code: string, language: string, signal?: AbortSignal): Promise<string> => {
     const fullPrompt = `Analyze the following ${language} code for bugs, errors, or improvements. Provide a corrected version of the code inside a markdown block and then explain the issue and the fix.\n\n\`\`\`${language}\n${code}\n\`\`\``;
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
+    const { target, model, generationConfig } = modeRequest('code');
+    return runRequest("debugging code", target, signal, async (track) => {
+        const response = track(await getProvider().generateContent({
+            model,
             contents: fullPrompt,
-        });
-        return response.text;
-    } catch (error) {
-        console.error("Error debugging code:", error);
-        throw new Error("Failed to debug code.");
-    }
+            config: {
+                ...generationConfig,
+                abortSignal: signal,
+            },
+        }));
+        return requireText(response);
+    });
 };
 
-export const formatCode = async (code: string, language: string): Promise<string> => {
+export const formatCode = async (code: string, language: string, signal?: AbortSignal): Promise<string> => {
     const fullPrompt = `Format the following ${language} code according to standard conventions. Only return the formatted code inside a markdown block.\n\n\`\`\`${language}\n${code}\n\`\`\``;
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+    const { target, model, generationConfig } = modeRequest('code-format');
+    return runRequest("formatting code", target, signal, async (track) => {
+        const response = track(await getProvider().generateContent({
+            model,
             contents: fullPrompt,
-        });
-        return response.text;
+            config: {
+                ...generationConfig,
+                abortSignal: signal,
+            },
+        }));
+        return requireText(response);
+    });
+};
+
+const parseProjectFiles = (jsonString: string): { path: string; content: string }[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonString);
     } catch (error) {
-        console.error("Error formatting code:", error);
-        throw new Error("Failed to format code.");
+        throw new BadResponseError("the project JSON could not be parsed.", { cause: error });
     }
+    const isFileList = Array.isArray(parsed) && parsed.every(file =>
+        typeof file?.path === 'string' && typeof file?.content === 'string'
+    );
+    if (!isFileList) {
+        throw new BadResponseError("the project JSON does not match the expected file list.");
+    }
+    return parsed as { path: string; content: string }[];
 };
 
-export const generateProject = async (prompt: string): Promise<{ path: string; content: string }[]> => {
+export const generateProject = async (prompt: string, signal?: AbortSignal): Promise<{ path: string; content: string }[]> => {
     const systemInstruction = `You are an expert software architect and developer. Based on the user's prompt, generate a complete, runnable file and folder structure for a web application. Output the result as a single JSON object that adheres to the provided schema. The JSON object should be an array of file objects, where each object has a 'path' (e.g., 'src/components/Button.tsx') and 'content' (the full, raw file content as a string). Ensure all necessary files, including package.json, entry points (index.html, index.js), components, and basic styles are included.`;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
+    const { target, model, generationConfig } = modeRequest('project');
+    return runRequest("generating project", target, signal, async (track) => {
+        const response = track(await getProvider().generateContent({
+            model,
             contents: prompt,
             config: {
+                ...generationConfig,
                 systemInstruction,
+                abortSignal: signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.ARRAY,
@@ -281,14 +603,99 @@ export const generateProject = async (prompt: string): Promise<{ path: string; c
                     },
                 },
             },
-        });
-        
-        const jsonString = response.text;
-        const projectFiles = JSON.parse(jsonString);
-        return projectFiles;
+        }));
+
+        return parseProjectFiles(requireText(response));
+    });
+};
 
+/**
+ * Pulls data matching `schema` out of the input text and files. The reply is parsed
+ * but not validated, so the caller can show where it departs from the schema.
+ */
+export const extractStructuredData = async (
+  instructions: string,
+  schema: JsonSchema,
+  input: { text: string; attachments: Attachment[] },
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const systemInstruction = `You extract structured data from documents. Fill in the JSON schema using only information found in the input. Leave out optional fields the input doesn't mention, and never invent values.${instructions.trim() ? `\n\n${instructions.trim()}` : ''}`;
+
+  const { target, model, generationConfig } = modeRequest('extract');
+  return runRequest("extracting data", target, signal, async (track) => {
+    const response = track(await getProvider().generateContent({
+      model,
+      contents: { role: 'user', parts: toMessageParts({ role: 'user', ...input }) },
+      config: {
+        ...generationConfig,
+        systemInstruction,
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+      },
+    }));
+    const text = requireText(response);
+    try {
+      return JSON.parse(text);
     } catch (error) {
-        console.error("Error generating project:", error);
-        throw new Error("Failed to generate project. The request may be too complex or the model may be unavailable.");
+      throw new BadResponseError("the extracted JSON could not be parsed.", { cause: error });
     }
+  });
+};
+
+// `systemInstruction` is the one to use: a persona's is resolved by the caller.
+export const connectLiveSession = (
+    callbacks: LiveCallbacks,
+    session: Omit<LiveSessionConfig, 'personaId'> = DEFAULT_LIVE_CONFIG,
+): Promise<LiveSession> => {
+    confirmWithinBudget();
+    const config = getModeConfig('live');
+    const nativeAudio = !!findModel(config.model)?.nativeAudio;
+    const language = findLiveLanguage(session.language);
+    // Native audio models choose their own language, so they are asked in the instruction instead
+    const systemInstruction = language && nativeAudio
+        ? `${session.systemInstruction}\n\nAlways respond in ${language.name}.`
+        : session.systemInstruction;
+    let turnStartedAt = performance.now();
+    // Live sessions report usage per turn, so each turn is its own ledger entry.
+    const onmessage: LiveCallbacks['onmessage'] = (message) => {
+        const usage = message.usageMetadata;
+        if (usage) {
+            recordUsage({
+                mode: 'live',
+                model: config.model,
+                promptTokens: usage.promptTokenCount ?? 0,
+                outputTokens: usage.responseTokenCount ?? 0,
+                thinkingTokens: usage.thoughtsTokenCount ?? 0,
+                images: 0,
+                latencyMs: Math.round(performance.now() - turnStartedAt),
+                success: true,
+            });
+        }
+        if (message.serverContent?.turnComplete) {
+            turnStartedAt = performance.now();
+        }
+        callbacks.onmessage(message);
+    };
+    return getProvider().connectLive({
+        model: config.model,
+        config: {
+            temperature: config.temperature,
+            topP: config.topP,
+            maxOutputTokens: config.maxOutputTokens,
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            systemInstruction,
+            speechConfig: {
+                ...(session.voice && { voiceConfig: { prebuiltVoiceConfig: { voiceName: session.voice } } }),
+                ...(language && !nativeAudio && { languageCode: language.code }),
+            },
+            ...(nativeAudio && session.affectiveDialog && { enableAffectiveDialog: true }),
+            ...(nativeAudio && session.proactiveAudio && { proactivity: { proactiveAudio: true } }),
+            // Push to talk and voice detection mark the start and end of each turn themselves
+            ...(session.inputMode !== 'always' && { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }),
+        },
+        callbacks: { ...callbacks, onmessage },
+    });
 };
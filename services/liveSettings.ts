@@ -0,0 +1,103 @@
+import { SPEECH_VOICES } from './modelRegistry';
+import type { VadSensitivity } from '../utils/voiceActivity';
+
+// How microphone audio reaches the model: continuously, only while a key or button
+// is held, or only while speech is detected on this device.
+export type LiveInputMode = 'always' | 'push-to-talk' | 'voice-activity';
+
+export const LIVE_INPUT_MODES: { value: LiveInputMode; label: string; description: string }[] = [
+  { value: 'always', label: 'Always on', description: 'The microphone streams the whole time and the model decides when you have finished.' },
+  { value: 'push-to-talk', label: 'Push to talk', description: 'Hold the space bar or the talk button while speaking.' },
+  { value: 'voice-activity', label: 'Voice detection', description: 'Audio is only sent while speech is detected, so background noise doesn\'t interrupt.' },
+];
+
+// Frames per second sent while the camera or a screen is shared. Each frame costs
+// tokens, so slower rates suit screens and whiteboards that change little.
+export const LIVE_VIDEO_FRAME_RATES = [0.5, 1, 2];
+
+// How a Live conversation is set up. The last one used is kept for the next session.
+export interface LiveSessionConfig {
+  // A prebuilt voice name; empty uses the model's default
+  voice: string;
+  // BCP-47 code of the language to answer in; empty follows the user
+  language: string;
+  // The persona whose instruction is used; null uses `systemInstruction`
+  personaId: string | null;
+  systemInstruction: string;
+  // Adapts the tone of replies to how the user sounds. Native audio models only.
+  affectiveDialog: boolean;
+  // Lets the model stay quiet when speech isn't meant for it. Native audio models only.
+  proactiveAudio: boolean;
+  inputMode: LiveInputMode;
+  // Used in voice detection mode
+  vadSensitivity: VadSensitivity;
+  videoFrameRate: number;
+}
+
+export const DEFAULT_LIVE_INSTRUCTION = 'You are a friendly and helpful AI assistant. Keep your responses concise and conversational.';
+
+export const DEFAULT_LIVE_CONFIG: LiveSessionConfig = {
+  voice: '',
+  language: '',
+  personaId: null,
+  systemInstruction: DEFAULT_LIVE_INSTRUCTION,
+  affectiveDialog: false,
+  proactiveAudio: false,
+  inputMode: 'always',
+  vadSensitivity: 'medium',
+  videoFrameRate: 1,
+};
+
+// Languages the Live API can be asked to speak.
+export const LIVE_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-US', name: 'Spanish (US)' },
+  { code: 'fr-FR', name: 'French' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'tr-TR', name: 'Turkish' },
+  { code: 'ar-XA', name: 'Arabic' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'id-ID', name: 'Indonesian' },
+  { code: 'vi-VN', name: 'Vietnamese' },
+  { code: 'th-TH', name: 'Thai' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'ko-KR', name: 'Korean' },
+  { code: 'cmn-CN', name: 'Mandarin Chinese' },
+];
+
+export const findLiveLanguage = (code: string) => LIVE_LANGUAGES.find(language => language.code === code);
+
+const LIVE_CONFIG_KEY = 'liveSessionConfig';
+
+// Unknown voices and languages, from an older list, fall back to the defaults.
+export const loadLiveConfig = (): LiveSessionConfig => {
+  try {
+    const stored: Partial<LiveSessionConfig> = JSON.parse(localStorage.getItem(LIVE_CONFIG_KEY) || '{}');
+    const config = { ...DEFAULT_LIVE_CONFIG, ...stored };
+    if (config.voice && !SPEECH_VOICES.some(voice => voice.name === config.voice)) config.voice = '';
+    if (config.language && !findLiveLanguage(config.language)) config.language = '';
+    if (!LIVE_INPUT_MODES.some(mode => mode.value === config.inputMode)) config.inputMode = DEFAULT_LIVE_CONFIG.inputMode;
+    if (!['low', 'medium', 'high'].includes(config.vadSensitivity)) config.vadSensitivity = DEFAULT_LIVE_CONFIG.vadSensitivity;
+    if (!LIVE_VIDEO_FRAME_RATES.includes(config.videoFrameRate)) config.videoFrameRate = DEFAULT_LIVE_CONFIG.videoFrameRate;
+    return config;
+  } catch (e) {
+    console.error("Failed to load Live settings:", e);
+    return DEFAULT_LIVE_CONFIG;
+  }
+};
+
+export const saveLiveConfig = (config: LiveSessionConfig) => {
+  try {
+    localStorage.setItem(LIVE_CONFIG_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Failed to save Live settings:", e);
+  }
+};
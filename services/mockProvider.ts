@@ -0,0 +1,358 @@
+import {
+  FinishReason,
+  GenerateContentResponse,
+  GenerateImagesResponse,
+  LiveServerMessage,
+  Modality,
+  Type,
+} from "@google/genai";
+import type { Content, ContentListUnion, GenerateContentConfig, Part, PartListUnion, Schema } from "@google/genai";
+import type { AIProvider, ChatSession, LiveSession } from './aiProvider';
+import { encode } from '../utils/audioUtils';
+
+// 64x64 red and grey checkerboard.
+const PLACEHOLDER_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAAAa0lEQVR42u3XoQ0AIAxFQabp/gNhCYIlWKCoGgiXICs49fJbj0jfmCt9t903AAAAAIAS4JWPnu4BAAAAAGoAJQYAAACwB5QYAAAAwB5QYgAAAAB7QIkBAAAA7AElBgAAALAHlBgAAADgG8AGefD5w7TluPcAAAAASUVORK5CYII=';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const LIVE_INPUT_BYTES_PER_TURN = 16000 * 2 * 3; // ~3s of 16-bit mono audio at 16kHz
+const RESPONSE_DELAY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const SAMPLE_PROJECT = [
+  {
+    path: 'index.html',
+    content: '<!DOCTYPE html>\n<html lang="en">\n<head>\n  <meta charset="UTF-8" />\n  <title>Mock Project</title>\n  <link rel="stylesheet" href="styles.css" />\n</head>\n<body>\n  <h1>Hello from the mock provider</h1>\n  <button id="counter">Clicked 0 times</button>\n  <script src="script.js"></script>\n</body>\n</html>\n',
+  },
+  {
+    path: 'styles.css',
+    content: 'body {\n  font-family: sans-serif;\n  display: grid;\n  place-items: center;\n  min-height: 100vh;\n  margin: 0;\n}\n',
+  },
+  {
+    path: 'script.js',
+    content: "let clicks = 0;\nconst button = document.getElementById('counter');\nbutton.addEventListener('click', () => {\n  clicks += 1;\n  button.textContent = `Clicked ${clicks} times`;\n});\n",
+  },
+  {
+    path: 'package.json',
+    content: '{\n  "name": "mock-project",\n  "version": "0.0.0",\n  "private": true,\n  "scripts": {\n    "start": "npx serve ."\n  }\n}\n',
+  },
+  {
+    path: 'README.md',
+    content: '# Mock Project\n\nGenerated offline by the mock provider.\n',
+  },
+];
+
+const SAMPLE_SOURCES = [
+  { uri: 'https://example.com/mock-source-1', title: 'Mock Source One' },
+  { uri: 'https://example.org/mock-source-2', title: 'Mock Source Two' },
+];
+
+const MOCK_THOUGHT = "**Reading the question**\n\nThe offline mock provider doesn't reason, so this stands in for the model's thought summary.";
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const silentPcm = (seconds: number): string =>
+  encode(new Uint8Array(Math.round(OUTPUT_SAMPLE_RATE * seconds) * 2));
+
+const partsToText = (parts: PartListUnion | undefined): string => {
+  if (!parts) return '';
+  const list = Array.isArray(parts) ? parts : [parts];
+  return list.map(part => {
+    if (typeof part === 'string') return part;
+    if (part.inlineData) return `[${part.inlineData.mimeType} attachment] `;
+    return part.text || '';
+  }).join('');
+};
+
+const lastPromptText = (contents: ContentListUnion): string => {
+  if (typeof contents === 'string') return contents;
+  const list = Array.isArray(contents) ? contents : [contents];
+  const last = list[list.length - 1];
+  if (!last) return '';
+  if (typeof last === 'string') return last;
+  if ('parts' in last && Array.isArray((last as Content).parts)) {
+    return partsToText((last as Content).parts);
+  }
+  return partsToText(list as PartListUnion);
+};
+
+const mockReply = (prompt: string): string => {
+  const excerpt = prompt.trim().replace(/\s+/g, ' ').slice(0, 80);
+  return `This is a canned reply from the offline mock provider.\n\nYou said: "${excerpt}"\n\n- No API key or network is needed.\n- Responses are deterministic, so they are safe to demo and test against.`;
+};
+
+const sampleFromSchema = (schema: Schema | undefined): unknown => {
+  switch (schema?.type) {
+    case Type.ARRAY:
+      return [sampleFromSchema(schema.items)];
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(schema.properties || {})) {
+        result[key] = sampleFromSchema(value);
+      }
+      return result;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema?.enum?.[0] ?? 'sample';
+  }
+};
+
+// Like sampleFromSchema, for plain JSON Schema (lower-case types, formats and enums).
+const sampleFromJsonSchema = (schema: unknown): unknown => {
+  const { type, properties, items, enum: options, format } = (schema || {}) as Record<string, any>;
+  if (Array.isArray(options) && options.length > 0) return options[0];
+  switch (Array.isArray(type) ? type.find(t => t !== 'null') : type) {
+    case 'array':
+      return [sampleFromJsonSchema(items)];
+    case 'object':
+      return Object.fromEntries(Object.entries(properties || {}).map(([key, value]) => [key, sampleFromJsonSchema(value)]));
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return format === 'date' ? '2025-01-01' : format === 'date-time' ? '2025-01-01T00:00:00Z' : 'sample';
+  }
+};
+
+const isProjectSchema = (schema: Schema | undefined): boolean =>
+  schema?.type === Type.ARRAY && !!schema.items?.properties?.path && !!schema.items?.properties?.content;
+
+const toResponse = (parts: Part[]): GenerateContentResponse =>
+  Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts }, finishReason: FinishReason.STOP }],
+  });
+
+// Rough token counts (about four characters per token) so usage tracking has something to show.
+const estimateTokens = (text: string) => Math.max(1, Math.ceil(text.length / 4));
+
+// The API bills a generated image or audio clip as a fixed block of tokens.
+const MEDIA_OUTPUT_TOKENS = 1290;
+
+const withUsage = (response: GenerateContentResponse, prompt: string): GenerateContentResponse => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const promptTokenCount = estimateTokens(prompt);
+  const candidatesTokenCount = parts.filter(part => !part.thought).reduce(
+    (total, part) => total + (
+      part.text ? estimateTokens(part.text)
+      : part.functionCall ? estimateTokens(JSON.stringify(part.functionCall))
+      : MEDIA_OUTPUT_TOKENS
+    ), 0
+  );
+  const thoughtsTokenCount = parts.filter(part => part.thought).reduce(
+    (total, part) => total + estimateTokens(part.text || ''), 0
+  );
+  response.usageMetadata = {
+    promptTokenCount,
+    candidatesTokenCount,
+    thoughtsTokenCount,
+    totalTokenCount: promptTokenCount + candidatesTokenCount + thoughtsTokenCount,
+  };
+  return response;
+};
+
+const buildResponse = (prompt: string, config: GenerateContentConfig | undefined): GenerateContentResponse =>
+  withUsage(buildReply(prompt, config), prompt);
+
+const buildReply = (prompt: string, config: GenerateContentConfig | undefined): GenerateContentResponse => {
+  const modalities = config?.responseModalities || [];
+  if (modalities.includes(Modality.AUDIO)) {
+    return toResponse([{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: silentPcm(1) } }]);
+  }
+  if (modalities.includes(Modality.IMAGE)) {
+    return toResponse([{ inlineData: { mimeType: 'image/png', data: PLACEHOLDER_PNG } }]);
+  }
+  if (config?.responseMimeType === 'application/json') {
+    const schema = config.responseSchema as Schema | undefined;
+    const json = config.responseJsonSchema ? sampleFromJsonSchema(config.responseJsonSchema)
+      : isProjectSchema(schema) ? SAMPLE_PROJECT
+      : sampleFromSchema(schema);
+    return toResponse([{ text: JSON.stringify(json, null, 2) }]);
+  }
+  const text = mockReply(prompt);
+  const parts: Part[] = [{ text }];
+  if (config?.thinkingConfig?.includeThoughts) {
+    parts.unshift({ text: MOCK_THOUGHT, thought: true });
+  }
+  const response = toResponse(parts);
+  if (config?.tools?.some(tool => 'googleSearch' in tool)) {
+    // Like the API, segment offsets are in UTF-8 bytes.
+    const byteLength = (value: string) => new TextEncoder().encode(value).length;
+    response.candidates![0].groundingMetadata = {
+      groundingChunks: SAMPLE_SOURCES.map(web => ({ web })),
+      groundingSupports: [
+        { segment: { startIndex: 0, endIndex: byteLength(text.split('\n')[0]) }, groundingChunkIndices: [0] },
+        { segment: { endIndex: byteLength(text) }, groundingChunkIndices: [0, 1] },
+      ],
+    };
+  }
+  return response;
+};
+
+async function* streamResponse(response: GenerateContentResponse, signal?: AbortSignal): AsyncGenerator<GenerateContentResponse> {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const text = parts.filter(part => !part.thought).map(part => part.text || '').join('');
+  if (!text) {
+    yield response;
+    return;
+  }
+  const thoughts = parts.filter(part => part.thought);
+  if (thoughts.length > 0) {
+    await wait(STREAM_CHUNK_DELAY_MS, signal);
+    yield toResponse(thoughts);
+  }
+  const chunks = text.match(/\S+\s*/g) || [text];
+  for (const [index, chunk] of chunks.entries()) {
+    await wait(STREAM_CHUNK_DELAY_MS, signal);
+    const partial = toResponse([{ text: chunk }]);
+    // Like the API, the final chunk carries the usage and grounding for the whole reply.
+    if (index === chunks.length - 1) {
+      partial.usageMetadata = response.usageMetadata;
+      partial.candidates![0].groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    }
+    yield partial;
+  }
+}
+
+const MATH_PATTERN = /[\d(][\d.\s()]*(?:[-+*/^%][\s(]*[\d.]+[\d.\s()]*)+/;
+const DATE_PATTERN = /\b(time|date|today|what day)\b/i;
+
+const hasFunction = (config: GenerateContentConfig | undefined, name: string) =>
+  !!config?.tools?.some(tool => 'functionDeclarations' in tool && tool.functionDeclarations?.some(declaration => declaration.name === name));
+
+// Calls the calculator for arithmetic and the clock for questions about the date, when
+// the chat offers those tools, so the tool loop can be tried offline.
+const mockFunctionCall = (prompt: string, config: GenerateContentConfig | undefined): Part | null => {
+  const expression = prompt.match(MATH_PATTERN)?.[0].trim();
+  if (expression && hasFunction(config, 'calculator')) {
+    return { functionCall: { id: crypto.randomUUID(), name: 'calculator', args: { expression } } };
+  }
+  if (DATE_PATTERN.test(prompt) && hasFunction(config, 'current_datetime')) {
+    return { functionCall: { id: crypto.randomUUID(), name: 'current_datetime', args: {} } };
+  }
+  return null;
+};
+
+const createMockChat = (model: string, config: GenerateContentConfig | undefined, initialHistory: Content[] = []): ChatSession => {
+  const history: Content[] = [...initialHistory];
+
+  const respond = (message: PartListUnion) => {
+    const parts = (Array.isArray(message) ? message : [message]).map(part => typeof part === 'string' ? { text: part } : part);
+    const results = parts.filter(part => part.functionResponse);
+    if (results.length > 0) {
+      const text = results.map(({ functionResponse }) =>
+        `The ${functionResponse!.name} tool returned \`${JSON.stringify(functionResponse!.response)}\`.`
+      ).join('\n\n');
+      history.push({ role: 'user', parts: results });
+      history.push({ role: 'model', parts: [{ text }] });
+      return withUsage(toResponse([{ text }]), text);
+    }
+
+    const prompt = partsToText(message);
+    const call = mockFunctionCall(prompt, config);
+    const response = call ? withUsage(toResponse([call]), prompt) : buildResponse(prompt, config);
+    history.push({ role: 'user', parts: [{ text: prompt }] });
+    history.push({ role: 'model', parts: call ? [call] : [{ text: response.text || '' }] });
+    return response;
+  };
+
+  return {
+    model,
+    sendMessage: async ({ message, config: messageConfig }) => {
+      await wait(RESPONSE_DELAY_MS, messageConfig?.abortSignal);
+      return respond(message);
+    },
+    sendMessageStream: async ({ message, config: messageConfig }) =>
+      streamResponse(respond(message), messageConfig?.abortSignal),
+    getHistory: () => [...history],
+  };
+};
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+  generateContent: async ({ contents, config }) => {
+    await wait(RESPONSE_DELAY_MS, config?.abortSignal);
+    return buildResponse(lastPromptText(contents), config);
+  },
+  generateContentStream: async ({ contents, config }) =>
+    streamResponse(buildResponse(lastPromptText(contents), config), config?.abortSignal),
+  generateImages: async ({ config }) => {
+    await wait(RESPONSE_DELAY_MS, config?.abortSignal);
+    return Object.assign(new GenerateImagesResponse(), {
+      generatedImages: Array.from({ length: config?.numberOfImages || 1 }, () => ({
+        image: { imageBytes: PLACEHOLDER_PNG, mimeType: 'image/png' },
+      })),
+    });
+  },
+  createChat: ({ model, config, history }) => createMockChat(model, config, history),
+  connectLive: async ({ callbacks }) => {
+    let receivedBytes = 0;
+    let closed = false;
+    let turn = 0;
+
+    const emit = (serverContent: LiveServerMessage['serverContent']) => {
+      if (!closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), { serverContent }));
+    };
+
+    const reply = () => {
+      receivedBytes = 0;
+      turn += 1;
+      emit({ inputTranscription: { text: `(mock speech ${turn})` } });
+      emit({ modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: silentPcm(1) } }] } });
+      emit({ outputTranscription: { text: `This is mock reply number ${turn}.` } });
+      emit({ turnComplete: true });
+    };
+
+    // Replies with a canned turn after every few seconds of microphone audio, or
+    // when the client marks the end of what it sent.
+    const session: LiveSession = {
+      sendRealtimeInput: ({ media, audio, activityEnd, audioStreamEnd }) => {
+        if (closed) return;
+        if (activityEnd || audioStreamEnd) {
+          if (receivedBytes > 0) reply();
+          return;
+        }
+        const blob = audio || media;
+        if (!blob || typeof blob !== 'object' || !('data' in blob) || !blob.data) return;
+        receivedBytes += Math.floor(blob.data.length * 3 / 4);
+        if (receivedBytes >= LIVE_INPUT_BYTES_PER_TURN) reply();
+      },
+      sendClientContent: ({ turns }) => {
+        const prompt = turns ? lastPromptText(turns) : '';
+        emit({ outputTranscription: { text: mockReply(prompt) } });
+        emit({ turnComplete: true });
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onclose?.(new CloseEvent('close'));
+      },
+    };
+
+    setTimeout(() => {
+      if (!closed) callbacks.onopen?.();
+    }, 0);
+    return session;
+  },
+});
@@ -0,0 +1,125 @@
+export type ModelKind = 'text' | 'image' | 'image-edit' | 'tts' | 'live';
+
+export type ModelParameter = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget' | 'safety';
+
+export interface ThinkingRange {
+  min: number;
+  max: number;
+  // Whether a budget of 0 turns thinking off entirely.
+  canDisable: boolean;
+}
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  kind: ModelKind;
+  parameters: ModelParameter[];
+  maxOutputTokens?: number;
+  thinking?: ThinkingRange;
+  // Live models that generate speech directly rather than reading out text. Only
+  // these support affective dialog and proactive audio, and they pick the
+  // language to speak themselves.
+  nativeAudio?: boolean;
+}
+
+const TEXT_PARAMETERS: ModelParameter[] = ['temperature', 'topP', 'maxOutputTokens', 'thinkingBudget', 'safety'];
+
+export const MODEL_REGISTRY: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    kind: 'text',
+    parameters: TEXT_PARAMETERS,
+    maxOutputTokens: 65536,
+    thinking: { min: 1, max: 24576, canDisable: true },
+  },
+  {
+    id: 'gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    kind: 'text',
+    parameters: TEXT_PARAMETERS,
+    maxOutputTokens: 65536,
+    thinking: { min: 128, max: 32768, canDisable: false },
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    label: 'Gemini 2.5 Flash-Lite',
+    kind: 'text',
+    parameters: TEXT_PARAMETERS,
+    maxOutputTokens: 65536,
+    thinking: { min: 512, max: 24576, canDisable: true },
+  },
+  {
+    id: 'gemini-flash-latest',
+    label: 'Gemini Flash (latest)',
+    kind: 'text',
+    parameters: TEXT_PARAMETERS,
+    maxOutputTokens: 65536,
+    thinking: { min: 1, max: 24576, canDisable: true },
+  },
+  {
+    id: 'gemini-flash-lite-latest',
+    label: 'Gemini Flash-Lite (latest)',
+    kind: 'text',
+    parameters: TEXT_PARAMETERS,
+    maxOutputTokens: 65536,
+    thinking: { min: 512, max: 24576, canDisable: true },
+  },
+  { id: 'imagen-4.0-generate-001', label: 'Imagen 4', kind: 'image', parameters: ['safety'] },
+  { id: 'imagen-4.0-fast-generate-001', label: 'Imagen 4 Fast', kind: 'image', parameters: ['safety'] },
+  { id: 'imagen-4.0-ultra-generate-001', label: 'Imagen 4 Ultra', kind: 'image', parameters: ['safety'] },
+  {
+    id: 'gemini-2.5-flash-image',
+    label: 'Gemini 2.5 Flash Image',
+    kind: 'image-edit',
+    parameters: ['temperature', 'topP', 'maxOutputTokens', 'safety'],
+    maxOutputTokens: 32768,
+  },
+  { id: 'gemini-2.5-flash-preview-tts', label: 'Gemini 2.5 Flash TTS', kind: 'tts', parameters: ['temperature'] },
+  { id: 'gemini-2.5-pro-preview-tts', label: 'Gemini 2.5 Pro TTS', kind: 'tts', parameters: ['temperature'] },
+  {
+    id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    label: 'Gemini 2.5 Flash Native Audio',
+    kind: 'live',
+    parameters: ['temperature', 'topP', 'maxOutputTokens'],
+    maxOutputTokens: 8192,
+    nativeAudio: true,
+  },
+  {
+    id: 'gemini-live-2.5-flash-preview',
+    label: 'Gemini 2.5 Flash Live',
+    kind: 'live',
+    parameters: ['temperature', 'topP', 'maxOutputTokens'],
+    maxOutputTokens: 8192,
+  },
+];
+
+export const findModel = (id: string): ModelInfo | undefined =>
+  MODEL_REGISTRY.find(model => model.id === id);
+
+export const getModelsOfKind = (kind: ModelKind): ModelInfo[] =>
+  MODEL_REGISTRY.filter(model => model.kind === kind);
+
+// Prebuilt voices of the text-to-speech models, with the style Google describes for each.
+export const SPEECH_VOICES: { name: string; style: string }[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Sulafat', style: 'Warm' },
+];
+
+export const DEFAULT_SPEECH_VOICE = 'Kore';
@@ -0,0 +1,217 @@
+import { HarmBlockThreshold, HarmCategory, SafetyFilterLevel, GenerateContentConfig, SafetySetting } from "@google/genai";
+import { findModel, ModelKind, ModelParameter } from './modelRegistry';
+import type { ChatMode, CompareSlot } from '../types';
+
+export type GenerationMode =
+  | 'chat-standard'
+  | 'chat-fast'
+  | 'chat-thinking'
+  | 'chat-search'
+  | 'code'
+  | 'code-format'
+  | 'project'
+  | 'extract'
+  | 'image'
+  | 'edit'
+  | 'tts'
+  | 'transcription'
+  | 'live';
+
+export type SafetyLevel = 'default' | 'block-none' | 'block-few' | 'block-some' | 'block-most';
+
+// Unset numeric parameters fall back to the model's own defaults.
+export interface ModeConfig {
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+  safety: SafetyLevel;
+}
+
+export type ModeConfigs = Record<GenerationMode, ModeConfig>;
+
+interface ModeDefinition {
+  label: string;
+  kind: ModelKind;
+  defaults: ModeConfig;
+}
+
+export const MODE_DEFINITIONS: Record<GenerationMode, ModeDefinition> = {
+  'chat-standard': { label: 'Chat: Standard', kind: 'text', defaults: { model: 'gemini-2.5-flash', safety: 'default' } },
+  'chat-fast': { label: 'Chat: Fast', kind: 'text', defaults: { model: 'gemini-flash-lite-latest', safety: 'default' } },
+  'chat-thinking': { label: 'Chat: Thinking', kind: 'text', defaults: { model: 'gemini-2.5-pro', thinkingBudget: 32768, safety: 'default' } },
+  'chat-search': { label: 'Chat: Google Search', kind: 'text', defaults: { model: 'gemini-2.5-flash', safety: 'default' } },
+  'code': { label: 'Code Assistant', kind: 'text', defaults: { model: 'gemini-2.5-pro', safety: 'default' } },
+  // Formatting is mechanical, so it stays on a faster, cheaper model than the other code actions
+  'code-format': { label: 'Code Formatting', kind: 'text', defaults: { model: 'gemini-2.5-flash', safety: 'default' } },
+  'project': { label: 'Project Generator', kind: 'text', defaults: { model: 'gemini-2.5-pro', safety: 'default' } },
+  'extract': { label: 'Structured Extraction', kind: 'text', defaults: { model: 'gemini-2.5-flash', safety: 'default' } },
+  'image': { label: 'Image Generation', kind: 'image', defaults: { model: 'imagen-4.0-generate-001', safety: 'default' } },
+  'edit': { label: 'Image Editing', kind: 'image-edit', defaults: { model: 'gemini-2.5-flash-image', safety: 'default' } },
+  'tts': { label: 'Text to Speech', kind: 'tts', defaults: { model: 'gemini-2.5-flash-preview-tts', safety: 'default' } },
+  'transcription': { label: 'Transcription', kind: 'text', defaults: { model: 'gemini-2.5-flash', safety: 'default' } },
+  'live': { label: 'Live Conversation', kind: 'live', defaults: { model: 'gemini-2.5-flash-native-audio-preview-09-2025', safety: 'default' } },
+};
+
+export const GENERATION_MODES = Object.keys(MODE_DEFINITIONS) as GenerationMode[];
+
+// The generation mode whose settings and usage each chat mode uses.
+export const CHAT_GENERATION_MODES: Record<ChatMode, GenerationMode> = {
+  standard: 'chat-standard',
+  fast: 'chat-fast',
+  thinking: 'chat-thinking',
+  search: 'chat-search',
+};
+
+export const CHAT_MODE_LABELS: Record<ChatMode, string> = {
+  standard: 'Standard',
+  fast: 'Fast Mode',
+  thinking: 'Thinking Mode',
+  search: 'Google Search',
+};
+
+export const MIN_COMPARE_SLOTS = 2;
+export const MAX_COMPARE_SLOTS = 4;
+
+// Checks saved comparison columns against the chat modes and the model registry.
+// Returns null if any column is unusable, so the caller can fall back to its defaults.
+export const validateCompareSlots = (raw: unknown): CompareSlot[] | null => {
+  if (!Array.isArray(raw) || raw.length < MIN_COMPARE_SLOTS || raw.length > MAX_COMPARE_SLOTS) return null;
+  const slots: CompareSlot[] = [];
+  for (const slot of raw) {
+    if (!slot || typeof slot !== 'object' || !Object.keys(CHAT_MODE_LABELS).includes(slot.mode)) return null;
+    if (slot.model !== undefined && (typeof slot.model !== 'string' || findModel(slot.model)?.kind !== 'text')) return null;
+    slots.push({ mode: slot.mode, ...(slot.model !== undefined && { model: slot.model }) });
+  }
+  return slots;
+};
+
+export const SAFETY_LEVELS: { value: SafetyLevel; label: string }[] = [
+  { value: 'default', label: 'Model default' },
+  { value: 'block-none', label: 'Block none' },
+  { value: 'block-few', label: 'Block few (high risk only)' },
+  { value: 'block-some', label: 'Block some (medium and above)' },
+  { value: 'block-most', label: 'Block most (low and above)' },
+];
+
+const STORAGE_KEY = 'modelSettings';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Checks a (possibly stale or hand-edited) config against the model registry.
+ * Unknown models fall back to the mode's default, parameters the model does not
+ * accept are dropped and the rest are clamped to the model's supported range.
+ */
+export const validateModeConfig = (mode: GenerationMode, raw: unknown): ModeConfig => {
+  const definition = MODE_DEFINITIONS[mode];
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof ModeConfig, unknown>>;
+
+  const requested = typeof input.model === 'string' ? findModel(input.model) : undefined;
+  const model = requested?.kind === definition.kind ? requested : findModel(definition.defaults.model)!;
+  const supports = (parameter: ModelParameter) => model.parameters.includes(parameter);
+
+  const config: ModeConfig = { model: model.id, safety: 'default' };
+
+  const temperature = asNumber(input.temperature);
+  if (supports('temperature') && temperature !== undefined) {
+    config.temperature = clamp(temperature, 0, 2);
+  }
+  const topP = asNumber(input.topP);
+  if (supports('topP') && topP !== undefined) {
+    config.topP = clamp(topP, 0, 1);
+  }
+  const maxOutputTokens = asNumber(input.maxOutputTokens);
+  if (supports('maxOutputTokens') && maxOutputTokens !== undefined) {
+    config.maxOutputTokens = clamp(Math.round(maxOutputTokens), 1, model.maxOutputTokens ?? Infinity);
+  }
+  const thinkingBudget = asNumber(input.thinkingBudget);
+  if (supports('thinkingBudget') && model.thinking && thinkingBudget !== undefined) {
+    const { min, max, canDisable } = model.thinking;
+    // -1 asks the model to pick its own budget.
+    if (thinkingBudget === -1 || (thinkingBudget === 0 && canDisable)) {
+      config.thinkingBudget = thinkingBudget;
+    } else {
+      config.thinkingBudget = clamp(Math.round(thinkingBudget), min, max);
+    }
+  }
+  if (supports('safety') && SAFETY_LEVELS.some(level => level.value === input.safety)) {
+    config.safety = input.safety as SafetyLevel;
+  }
+  return config;
+};
+
+export const getDefaultModeConfigs = (): ModeConfigs =>
+  Object.fromEntries(
+    GENERATION_MODES.map(mode => [mode, validateModeConfig(mode, MODE_DEFINITIONS[mode].defaults)])
+  ) as ModeConfigs;
+
+const loadModeConfigs = (): ModeConfigs => {
+  let stored: Partial<Record<GenerationMode, unknown>> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to load model settings:", e);
+  }
+  return Object.fromEntries(
+    GENERATION_MODES.map(mode => [mode, validateModeConfig(mode, stored[mode] ?? MODE_DEFINITIONS[mode].defaults)])
+  ) as ModeConfigs;
+};
+
+// Loaded eagerly so sessions created during the first render already see saved settings.
+let activeConfigs: ModeConfigs = loadModeConfigs();
+
+export const getModeConfigs = (): ModeConfigs => activeConfigs;
+
+export const getModeConfig = (mode: GenerationMode): ModeConfig => activeConfigs[mode];
+
+export const saveModeConfigs = (configs: ModeConfigs) => {
+  activeConfigs = configs;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(configs));
+};
+
+const HARM_THRESHOLDS: Record<Exclude<SafetyLevel, 'default'>, HarmBlockThreshold> = {
+  'block-none': HarmBlockThreshold.BLOCK_NONE,
+  'block-few': HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  'block-some': HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  'block-most': HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+const HARM_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+const toSafetySettings = (safety: SafetyLevel): SafetySetting[] | undefined => {
+  if (safety === 'default') return undefined;
+  const threshold = HARM_THRESHOLDS[safety];
+  return HARM_CATEGORIES.map(category => ({ category, threshold }));
+};
+
+// The generation parameters of a mode, ready to spread into a generateContent config.
+export const toGenerationConfig = (config: ModeConfig): GenerateContentConfig => {
+  const generationConfig: GenerateContentConfig = {};
+  if (config.temperature !== undefined) generationConfig.temperature = config.temperature;
+  if (config.topP !== undefined) generationConfig.topP = config.topP;
+  if (config.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = config.maxOutputTokens;
+  if (config.thinkingBudget !== undefined) generationConfig.thinkingConfig = { thinkingBudget: config.thinkingBudget };
+  const safetySettings = toSafetySettings(config.safety);
+  if (safetySettings) generationConfig.safetySettings = safetySettings;
+  return generationConfig;
+};
+
+const IMAGE_SAFETY_FILTERS: Record<Exclude<SafetyLevel, 'default'>, SafetyFilterLevel> = {
+  'block-none': SafetyFilterLevel.BLOCK_NONE,
+  'block-few': SafetyFilterLevel.BLOCK_ONLY_HIGH,
+  'block-some': SafetyFilterLevel.BLOCK_MEDIUM_AND_ABOVE,
+  'block-most': SafetyFilterLevel.BLOCK_LOW_AND_ABOVE,
+};
+
+export const toImageSafetyFilter = (config: ModeConfig): SafetyFilterLevel | undefined =>
+  config.safety === 'default' ? undefined : IMAGE_SAFETY_FILTERS[config.safety];
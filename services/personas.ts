@@ -0,0 +1,45 @@
+import type { Content } from "@google/genai";
+import type { Persona } from '../types';
+import { toMessageParts } from '../utils/attachments';
+
+// The built-in assistant. It has no overrides, so each chat mode uses its own
+// system instruction and the models configured in Settings.
+export const DEFAULT_PERSONA: Persona = {
+  id: 'default',
+  name: 'Gemini',
+  systemInstruction: '',
+};
+
+// Starting points offered when creating a persona.
+export const PERSONA_TEMPLATES: Omit<Persona, 'id'>[] = [
+  {
+    name: 'Code reviewer',
+    systemInstruction: 'You are a meticulous senior engineer reviewing code. Point out bugs, security issues, unclear naming and missing tests, most important first. Quote the lines you are commenting on and suggest concrete fixes. Say so plainly when the code is fine.',
+    temperature: 0.2,
+    chatMode: 'thinking',
+  },
+  {
+    name: 'Release-notes writer',
+    systemInstruction: 'You turn commit logs, pull request descriptions and changelists into release notes for end users. Group changes under New, Improved and Fixed, write one short sentence per change in plain language, and leave out internal refactors and version bumps.',
+    temperature: 0.5,
+    chatMode: 'standard',
+  },
+  {
+    name: 'SQL helper',
+    systemInstruction: 'You are a database expert who writes and explains SQL. Ask which dialect is in use if it matters. Return queries in fenced sql code blocks, prefer readable joins and CTEs over nested subqueries, and warn about queries that could be slow or lock tables.',
+    temperature: 0.1,
+    chatMode: 'standard',
+  },
+];
+
+// The opening turns that carry a persona's reference documents, sent ahead of the conversation.
+export const toPersonaContext = (persona: Persona): Content[] => {
+  if (!persona.documents?.length) return [];
+  return [
+    {
+      role: 'user',
+      parts: toMessageParts({ role: 'user', text: 'Use these reference documents when answering in this conversation.', attachments: persona.documents }),
+    },
+    { role: 'model', parts: [{ text: "Understood. I'll refer to them." }] },
+  ];
+};
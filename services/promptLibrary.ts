@@ -0,0 +1,80 @@
+import type { PromptMode, SavedPrompt } from '../types';
+
+export const PROMPT_MODES: { value: PromptMode; label: string }[] = [
+  { value: 'chat', label: 'Chat' },
+  { value: 'code', label: 'Code' },
+  { value: 'image', label: 'Image Gen' },
+  { value: 'project', label: 'Project Gen' },
+];
+
+// Added to the library once, when it is first created.
+export const STARTER_PROMPTS: SavedPrompt[] = [
+  {
+    id: 'starter-explain',
+    name: 'Explain simply',
+    text: 'Explain {{topic}} to someone who is new to it, in a few short paragraphs with one everyday analogy.',
+    modes: ['chat'],
+  },
+  {
+    id: 'starter-summarize',
+    name: 'Summarize',
+    text: 'Summarize the following in {{number}} bullet points, most important first:\n\n{{text}}',
+    modes: ['chat'],
+  },
+  {
+    id: 'starter-function',
+    name: 'Function',
+    text: 'A {{language}} function named {{name}} that {{task}}. Validate its inputs and include a short doc comment.',
+    modes: ['code'],
+  },
+  {
+    id: 'starter-product-shot',
+    name: 'Product shot',
+    text: 'A studio product photo of {{product}} on a {{color}} background, soft lighting, shallow depth of field',
+    modes: ['image'],
+  },
+  {
+    id: 'starter-landing-page',
+    name: 'Landing page',
+    text: 'A landing page for {{product}} using {{framework}} and Tailwind CSS, with a hero section, a feature list, a pricing table and a sign-up form.',
+    modes: ['project'],
+  },
+];
+
+const LIBRARY_FORMAT = 'gemini-studio-prompts';
+const LIBRARY_VERSION = 1;
+
+export const toPromptLibraryJson = (prompts: SavedPrompt[]): string =>
+  JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, exportedAt: new Date().toISOString(), prompts }, null, 2);
+
+const isPromptMode = (value: unknown): value is PromptMode =>
+  PROMPT_MODES.some(mode => mode.value === value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readPrompt = (value: unknown, index: number): SavedPrompt => {
+  const invalid = () => new Error(`Prompt ${index + 1} in the file is missing its id, name, text or modes.`);
+  if (!isRecord(value)) throw invalid();
+  const { id, name, text, modes } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof text !== 'string') throw invalid();
+  if (!Array.isArray(modes) || modes.length === 0 || !modes.every(isPromptMode)) throw invalid();
+  return { id, name, text, modes };
+};
+
+// Parses and validates an exported prompt library, throwing an Error that says what is wrong.
+export const parsePromptLibrary = (text: string): SavedPrompt[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== LIBRARY_FORMAT || !Array.isArray(raw.prompts)) {
+    throw new Error("The file isn't a Gemini Studio prompt library export.");
+  }
+  if (typeof raw.version !== 'number' || raw.version > LIBRARY_VERSION) {
+    throw new Error("The file was exported by a newer version of Gemini Studio.");
+  }
+  return raw.prompts.map(readPrompt);
+};
@@ -0,0 +1,53 @@
+import { toAIServiceError } from './errors';
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// "Full jitter" backoff: a random delay up to the exponential cap for this attempt.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+/**
+ * Runs `request`, retrying transient failures with jittered exponential backoff.
+ * Errors are normalised to AIServiceError; aborts are rethrown untouched.
+ */
+export const withRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 16000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const serviceError = toAIServiceError(error);
+      // A long server-requested wait is handed back to the caller as a hint instead.
+      const waitTooLong = (serviceError.retryAfterMs ?? 0) > maxDelayMs;
+      if (!serviceError.retryable || waitTooLong || attempt + 1 >= maxAttempts) {
+        throw serviceError;
+      }
+      const delay = Math.max(serviceError.retryAfterMs ?? 0, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+      console.warn(`Retrying after ${serviceError.kind} error (attempt ${attempt + 2} of ${maxAttempts}) in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
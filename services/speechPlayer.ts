@@ -0,0 +1,150 @@
+import { confirmOverBudget, generateSpeech } from './geminiService';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+
+const SAMPLE_RATE = 24000;
+// How many queued sentences have their audio requested ahead of time, so the
+// next one is usually ready when the current one ends.
+const PREFETCH = 2;
+
+export interface SpeechPlayerState {
+  // What the sentence playing or about to play belongs to, such as a message id
+  key: string | null;
+  // Waiting for audio with nothing playing
+  isLoading: boolean;
+}
+
+export interface SpeechPlayerOptions {
+  // Read for each sentence, so a new choice applies from the next one
+  getVoice: () => string;
+  onStateChange: (state: SpeechPlayerState) => void;
+  // Playback stops after an error; nothing more is spoken until more is queued
+  onError: (error: unknown) => void;
+}
+
+export interface SpeechPlayer {
+  // Queues sentences after everything already waiting. Over a usage budget, the
+  // first call for a key asks whether to go ahead; if declined, the key is skipped.
+  enqueue: (key: string, sentences: string[]) => void;
+  // Moves on to the next sentence
+  skip: () => void;
+  // Stops playback and drops everything queued
+  stop: () => void;
+  close: () => void;
+}
+
+interface QueuedSentence {
+  key: string;
+  text: string;
+  audio?: Promise<string>;
+}
+
+interface CurrentSentence {
+  key: string;
+  source: AudioBufferSourceNode | null;
+}
+
+/**
+ * Speaks sentences one after another with the text-to-speech model. Audio for the
+ * next few is fetched while one plays, so a streamed reply can be read out as it
+ * arrives without long pauses between sentences.
+ */
+export const createSpeechPlayer = ({ getVoice, onStateChange, onError }: SpeechPlayerOptions): SpeechPlayer => {
+  let queue: QueuedSentence[] = [];
+  let current: CurrentSentence | null = null;
+  // Aborted on stop, so requests for dropped sentences don't keep running
+  let controller = new AbortController();
+  let audioCtx: AudioContext | null = null;
+  // The answer to the budget prompt for the key being queued; cleared on stop
+  let budgetCheck: { key: string; approved: boolean } | null = null;
+
+  const notify = () => {
+    const key = current?.key ?? null;
+    onStateChange({ key, isLoading: !!current && !current.source });
+  };
+
+  const requestAudio = (sentence: QueuedSentence) => {
+    if (!sentence.audio) {
+      sentence.audio = generateSpeech(sentence.text, controller.signal, getVoice(), { confirmBudget: false });
+      // Failures are reported when the sentence's turn comes
+      sentence.audio.catch(() => {});
+    }
+    return sentence.audio;
+  };
+
+  const playNext = async () => {
+    const sentence = queue.shift();
+    if (!sentence) {
+      current = null;
+      notify();
+      return;
+    }
+    const playing: CurrentSentence = { key: sentence.key, source: null };
+    current = playing;
+    notify();
+    const audio = requestAudio(sentence);
+    queue.slice(0, PREFETCH).forEach(requestAudio);
+
+    try {
+      const base64Audio = await audio;
+      if (current !== playing) return; // Skipped or stopped while loading
+      if (!audioCtx || audioCtx.state === 'closed') {
+        audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+      }
+      await audioCtx.resume();
+      const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtx, SAMPLE_RATE, 1);
+      if (current !== playing) return;
+
+      const source = audioCtx.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(audioCtx.destination);
+      source.onended = () => {
+        if (current === playing) playNext();
+      };
+      source.start(0);
+      playing.source = source;
+      notify();
+    } catch (e) {
+      if (current !== playing) return;
+      stop();
+      onError(e);
+    }
+  };
+
+  const enqueue = (key: string, sentences: string[]) => {
+    if (budgetCheck?.key !== key) budgetCheck = { key, approved: confirmOverBudget() };
+    if (!budgetCheck.approved) return;
+    queue.push(...sentences.map(text => ({ key, text })));
+    if (!current) {
+      playNext();
+    } else {
+      queue.slice(0, PREFETCH).forEach(requestAudio);
+    }
+  };
+
+  const skip = () => {
+    if (!current) return;
+    const source = current.source;
+    current = null;
+    source?.stop();
+    playNext();
+  };
+
+  const stop = () => {
+    controller.abort();
+    controller = new AbortController();
+    queue = [];
+    budgetCheck = null;
+    const source = current?.source;
+    current = null;
+    source?.stop();
+    notify();
+  };
+
+  const close = () => {
+    stop();
+    if (audioCtx && audioCtx.state !== 'closed') audioCtx.close();
+    audioCtx = null;
+  };
+
+  return { enqueue, skip, stop, close };
+};
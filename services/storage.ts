@@ -0,0 +1,331 @@
+import type { Conversation, Extractor, Persona, SavedPrompt } from '../types';
+import { STARTER_PROMPTS } from './promptLibrary';
+import { STARTER_EXTRACTORS } from './extractors';
+import { migrateConversation } from '../utils/conversationTree';
+
+// Conversations and generated assets live in IndexedDB: unlike localStorage it has
+// room for images and audio, and writes don't block the main thread.
+
+export type AssetKind = 'image' | 'edited-image' | 'project' | 'transcription' | 'code' | 'extraction' | 'recording';
+
+export interface StoredAsset<T = unknown> {
+  id: string;
+  kind: AssetKind;
+  title: string;
+  createdAt: number;
+  data: T;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'gemini-studio';
+const CONVERSATIONS = 'conversations';
+const ASSETS = 'assets';
+const META = 'meta';
+const PERSONAS = 'personas';
+const PROMPTS = 'prompts';
+const EXTRACTORS = 'extractors';
+
+// Each entry upgrades the schema from the previous version. Never edit a shipped
+// migration; add a new one and the database version follows.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // 1: conversations, generated assets indexed by kind, and a key-value store for bookkeeping
+  (db) => {
+    db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+    const assets = db.createObjectStore(ASSETS, { keyPath: 'id' });
+    assets.createIndex('kind', 'kind');
+    db.createObjectStore(META);
+  },
+  // 2: assistant personas
+  (db) => {
+    db.createObjectStore(PERSONAS, { keyPath: 'id' });
+  },
+  // 3: the prompt library, seeded with a few starter prompts
+  (db) => {
+    const prompts = db.createObjectStore(PROMPTS, { keyPath: 'id' });
+    STARTER_PROMPTS.forEach(prompt => prompts.put(prompt));
+  },
+  // 4: saved structured-extraction setups, seeded with a few starters
+  (db) => {
+    const extractors = db.createObjectStore(EXTRACTORS, { keyPath: 'id' });
+    STARTER_EXTRACTORS.forEach(extractor => extractors.put(extractor));
+  },
+];
+const DB_VERSION = MIGRATIONS.length;
+
+// Conversations saved by earlier versions of the app, all under one localStorage key.
+const LEGACY_CONVERSATIONS_KEY = 'gemini-studio-conversations';
+
+// Older assets of a kind are dropped past this point.
+const MAX_ASSETS_PER_KIND = 50;
+// Kinds that belong to a conversation, and are deleted with it instead
+const UNPRUNED_KINDS: AssetKind[] = ['recording'];
+
+// Streaming replies update a conversation many times a second; writes are batched so
+// each conversation is written at most once per interval.
+const SAVE_INTERVAL_MS = 500;
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// Moves conversations out of localStorage the first time the database is opened.
+// If any of them can't be read, the old data is left in place and the import is
+// tried again next time; conversations already imported are kept as they are.
+const importLegacyData = async (db: IDBDatabase) => {
+  const transaction = db.transaction([CONVERSATIONS, META], 'readwrite');
+  const meta = transaction.objectStore(META);
+  if (await toPromise(meta.get('legacyImported'))) return;
+
+  const store = transaction.objectStore(CONVERSATIONS);
+  const existingIds = new Set<IDBValidKey>(await toPromise(store.getAllKeys()));
+  let complete = true;
+  try {
+    const saved = localStorage.getItem(LEGACY_CONVERSATIONS_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(parsed)) throw new Error("The saved conversations aren't a list.");
+    parsed.forEach((raw, i) => {
+      try {
+        const conversation = migrateConversation(raw);
+        if (!existingIds.has(conversation.id)) store.put(conversation);
+      } catch (e) {
+        complete = false;
+        console.error(`Failed to import conversation ${i + 1} from localStorage:`, e);
+      }
+    });
+  } catch (e) {
+    complete = false;
+    console.error("Failed to import conversations from localStorage:", e);
+  }
+  if (complete) meta.put(true, 'legacyImported');
+  await transactionDone(transaction);
+  if (complete) localStorage.removeItem(LEGACY_CONVERSATIONS_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app in another tab upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await importLegacyData(db).catch(e => console.error("Failed to import localStorage data:", e));
+      return db;
+    });
+    // Let a later call try again rather than caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const loadConversations = async (): Promise<Conversation[]> => {
+  // Include conversations another mode saved just before this load
+  await flushPendingSaves();
+  const db = await openDatabase();
+  const conversations: Conversation[] = await toPromise(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).getAll());
+  return conversations.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const pendingConversations = new Map<string, Conversation>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const flushPendingSaves = async () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (pendingConversations.size === 0) return;
+  const conversations = [...pendingConversations.values()];
+  pendingConversations.clear();
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(CONVERSATIONS, 'readwrite');
+    const store = transaction.objectStore(CONVERSATIONS);
+    conversations.forEach(conversation => store.put(conversation));
+    await transactionDone(transaction);
+  } catch (e) {
+    console.error("Failed to save conversations:", e);
+  }
+};
+
+export const saveConversation = (conversation: Conversation) => {
+  pendingConversations.set(conversation.id, conversation);
+  if (!saveTimer) {
+    saveTimer = setTimeout(flushPendingSaves, SAVE_INTERVAL_MS);
+  }
+};
+
+// A voice session's recording goes with it.
+export const deleteConversation = async (id: string) => {
+  pendingConversations.delete(id);
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([CONVERSATIONS, ASSETS], 'readwrite');
+    const store = transaction.objectStore(CONVERSATIONS);
+    const conversation: Conversation | undefined = await toPromise(store.get(id));
+    const recordingId = conversation?.voiceSession?.recordingId;
+    if (recordingId) transaction.objectStore(ASSETS).delete(recordingId);
+    store.delete(id);
+    await transactionDone(transaction);
+  } catch (e) {
+    console.error("Failed to delete conversation:", e);
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => { flushPendingSaves(); });
+}
+
+export const loadPersonas = async (): Promise<Persona[]> => {
+  const db = await openDatabase();
+  const personas: Persona[] = await toPromise(db.transaction(PERSONAS).objectStore(PERSONAS).getAll());
+  return personas.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePersona = async (persona: Persona) => {
+  try {
+    const db = await openDatabase();
+    await toPromise(db.transaction(PERSONAS, 'readwrite').objectStore(PERSONAS).put(persona));
+  } catch (e) {
+    console.error("Failed to save persona:", e);
+  }
+};
+
+export const deletePersona = async (id: string) => {
+  try {
+    const db = await openDatabase();
+    await toPromise(db.transaction(PERSONAS, 'readwrite').objectStore(PERSONAS).delete(id));
+  } catch (e) {
+    console.error("Failed to delete persona:", e);
+  }
+};
+
+export const loadPrompts = async (): Promise<SavedPrompt[]> => {
+  const db = await openDatabase();
+  const prompts: SavedPrompt[] = await toPromise(db.transaction(PROMPTS).objectStore(PROMPTS).getAll());
+  return prompts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Saves several prompts in one transaction, as an import does.
+export const savePrompts = async (prompts: SavedPrompt[]) => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROMPTS, 'readwrite');
+    prompts.forEach(prompt => transaction.objectStore(PROMPTS).put(prompt));
+    await transactionDone(transaction);
+  } catch (e) {
+    console.error("Failed to save prompts:", e);
+  }
+};
+
+export const deletePrompt = async (id: string) => {
+  try {
+    const db = await openDatabase();
+    await toPromise(db.transaction(PROMPTS, 'readwrite').objectStore(PROMPTS).delete(id));
+  } catch (e) {
+    console.error("Failed to delete prompt:", e);
+  }
+};
+
+export const loadExtractors = async (): Promise<Extractor[]> => {
+  const db = await openDatabase();
+  const extractors: Extractor[] = await toPromise(db.transaction(EXTRACTORS).objectStore(EXTRACTORS).getAll());
+  return extractors.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveExtractor = async (extractor: Extractor) => {
+  try {
+    const db = await openDatabase();
+    await toPromise(db.transaction(EXTRACTORS, 'readwrite').objectStore(EXTRACTORS).put(extractor));
+  } catch (e) {
+    console.error("Failed to save extractor:", e);
+  }
+};
+
+export const deleteExtractor = async (id: string) => {
+  try {
+    const db = await openDatabase();
+    await toPromise(db.transaction(EXTRACTORS, 'readwrite').objectStore(EXTRACTORS).delete(id));
+  } catch (e) {
+    console.error("Failed to delete extractor:", e);
+  }
+};
+
+// Newest first.
+export const listAssets = async <T>(kind: AssetKind): Promise<StoredAsset<T>[]> => {
+  const db = await openDatabase();
+  const assets: StoredAsset<T>[] = await toPromise(db.transaction(ASSETS).objectStore(ASSETS).index('kind').getAll(kind));
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getLatestAsset = async <T>(kind: AssetKind): Promise<StoredAsset<T> | null> => {
+  try {
+    return (await listAssets<T>(kind))[0] ?? null;
+  } catch (e) {
+    console.error(`Failed to load ${kind}:`, e);
+    return null;
+  }
+};
+
+export const getAsset = async <T>(id: string): Promise<StoredAsset<T> | null> => {
+  try {
+    const db = await openDatabase();
+    return (await toPromise(db.transaction(ASSETS).objectStore(ASSETS).get(id))) ?? null;
+  } catch (e) {
+    console.error("Failed to load asset:", e);
+    return null;
+  }
+};
+
+// Saves a new asset, or replaces the one with the same `id`.
+export const saveAsset = async <T>(kind: AssetKind, title: string, data: T, id: string = crypto.randomUUID()): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const asset: StoredAsset<T> = { id, kind, title, createdAt: Date.now(), data };
+    await toPromise(db.transaction(ASSETS, 'readwrite').objectStore(ASSETS).put(asset));
+
+    if (UNPRUNED_KINDS.includes(kind)) return;
+    const stale = (await listAssets(kind)).slice(MAX_ASSETS_PER_KIND);
+    if (stale.length > 0) {
+      const transaction = db.transaction(ASSETS, 'readwrite');
+      stale.forEach(old => transaction.objectStore(ASSETS).delete(old.id));
+      await transactionDone(transaction);
+    }
+  } catch (e) {
+    console.error(`Failed to save ${kind}:`, e);
+  }
+};
+
+// How much of the browser's storage quota this origin is using, where supported.
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
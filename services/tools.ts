@@ -0,0 +1,184 @@
+import type { FunctionDeclaration, Part } from "@google/genai";
+import type { Conversation, ToolCall } from '../types';
+import { evaluateExpression } from '../utils/mathExpression';
+import { convertUnits, SUPPORTED_UNITS } from '../utils/unitConversion';
+import { runInSandbox } from '../utils/sandbox';
+import { searchConversations } from '../utils/conversationSearch';
+
+// What a tool can use besides its arguments.
+export interface ToolContext {
+  conversations: Conversation[];
+  signal?: AbortSignal;
+}
+
+// A function the model can call in Chat. `parameters` is a JSON schema for the
+// arguments object; `run` returns JSON-friendly data or throws an Error for the model to see.
+export interface ChatTool {
+  name: string;
+  label: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  // Asked before running unless the user changes it in Settings
+  confirmByDefault: boolean;
+  run: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+export interface ToolPreference {
+  enabled: boolean;
+  confirm: boolean;
+}
+
+const MAX_SEARCH_RESULTS = 5;
+
+const requireString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`"${key}" must be a non-empty string.`);
+  return value;
+};
+
+const requireNumber = (args: Record<string, unknown>, key: string): number => {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${key}" must be a number.`);
+  return value;
+};
+
+export const CHAT_TOOLS: ChatTool[] = [
+  {
+    name: 'calculator',
+    label: 'Calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, exp, ln, log (base 10) and log2. Angles are in radians.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'For example "(3.5 + 2) * 4^2" or "sqrt(2) / 2".' },
+      },
+      required: ['expression'],
+    },
+    confirmByDefault: false,
+    run: async (args) => ({ result: evaluateExpression(requireString(args, 'expression')) }),
+  },
+  {
+    name: 'convert_units',
+    label: 'Unit converter',
+    description: `Converts a value between units of length, mass, volume, time, speed, data size or temperature. Known units: ${SUPPORTED_UNITS.join(', ')}.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        from: { type: 'string', description: 'The unit of `value`, for example "mi" or "fahrenheit".' },
+        to: { type: 'string', description: 'The unit to convert to.' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+    confirmByDefault: false,
+    run: async (args) => {
+      const value = requireNumber(args, 'value');
+      const from = requireString(args, 'from');
+      const to = requireString(args, 'to');
+      return { value: convertUnits(value, from, to), unit: to };
+    },
+  },
+  {
+    name: 'current_datetime',
+    label: 'Date and time',
+    description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'An IANA time zone such as "Europe/Paris".' },
+      },
+    },
+    confirmByDefault: false,
+    run: async (args) => {
+      const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const now = new Date();
+      let local: string;
+      try {
+        local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+      } catch {
+        throw new Error(`Unknown time zone "${timeZone}".`);
+      }
+      return { iso: now.toISOString(), local, timeZone };
+    },
+  },
+  {
+    name: 'run_javascript',
+    label: 'JavaScript',
+    description: 'Runs JavaScript in an isolated worker, separate from the app and its saved data, with a 5 second limit. Use it for calculation and data processing, not for loading anything from the web. Returns the value of the last expression (awaited if it is a promise) and anything written with console.log.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+      },
+      required: ['code'],
+    },
+    confirmByDefault: true,
+    run: async (args, { signal }) => runInSandbox(requireString(args, 'code'), { signal }),
+  },
+  {
+    name: 'search_conversations',
+    label: 'Conversation search',
+    description: "Searches the user's saved chat conversations for messages containing every word of the query. Returns matching conversations with short snippets, newest first.",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+      },
+      required: ['query'],
+    },
+    confirmByDefault: false,
+    run: async (args, { conversations }) => {
+      const results = searchConversations(conversations, requireString(args, 'query'));
+      return {
+        total: results.length,
+        conversations: results.slice(0, MAX_SEARCH_RESULTS).map(({ conversation, messages }) => ({
+          title: conversation.title,
+          lastUpdated: new Date(conversation.timestamp).toISOString(),
+          snippets: messages.map(match => match.snippet),
+        })),
+      };
+    },
+  },
+];
+
+export const findTool = (name: string): ChatTool | undefined =>
+  CHAT_TOOLS.find(tool => tool.name === name);
+
+export const getToolPreference = (tool: ChatTool, preferences: Record<string, ToolPreference>): ToolPreference =>
+  preferences[tool.name] ?? { enabled: true, confirm: tool.confirmByDefault };
+
+export const toFunctionDeclarations = (tools: ChatTool[]): FunctionDeclaration[] =>
+  tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters }));
+
+export interface ToolRunOptions {
+  preferences: Record<string, ToolPreference>;
+  context: ToolContext;
+  // Asks the user whether a tool that needs confirmation may run
+  confirm: (tool: ChatTool, args: Record<string, unknown>) => boolean;
+}
+
+// Runs a call the model made. Failures and refusals become part of the result, for the
+// model to read; only cancelling the request throws.
+export const runToolCall = async (call: ToolCall, { preferences, context, confirm }: ToolRunOptions): Promise<ToolCall> => {
+  const tool = findTool(call.name);
+  if (!tool || !getToolPreference(tool, preferences).enabled) {
+    return { ...call, status: 'failed', error: `There is no tool called "${call.name}".` };
+  }
+  if (getToolPreference(tool, preferences).confirm && !confirm(tool, call.args)) {
+    return { ...call, status: 'declined', error: 'The user declined to run this tool.' };
+  }
+  try {
+    return { ...call, status: 'done', result: await tool.run(call.args, context) };
+  } catch (e) {
+    if (context.signal?.aborted) throw e;
+    return { ...call, status: 'failed', error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+export const toFunctionResponsePart = (call: ToolCall): Part => ({
+  functionResponse: {
+    id: call.id,
+    name: call.name,
+    response: call.status === 'done' ? { output: call.result } : { error: call.error },
+  },
+});
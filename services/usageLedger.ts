@@ -0,0 +1,204 @@
+import type { GenerationMode } from './modelSettings';
+import type { AIErrorKind } from './errors';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  mode: GenerationMode;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  // Imagen bills per generated image rather than per token.
+  images: number;
+  latencyMs: number;
+  success: boolean;
+  errorKind?: AIErrorKind;
+}
+
+// US dollars per million tokens, or per image for image models.
+export interface ModelPrice {
+  input: number;
+  output: number;
+  perImage?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageBudgets {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+const LEDGER_KEY = 'usageLedger';
+const PRICES_KEY = 'usagePrices';
+const BUDGETS_KEY = 'usageBudgets';
+// Oldest records are dropped past this point to keep localStorage small.
+const MAX_RECORDS = 5000;
+// Every streamed turn and tool round adds a record; the ledger is written at most once
+// per interval rather than re-serialized on each one.
+const SAVE_INTERVAL_MS = 2000;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-flash-latest': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-2.5-pro-preview-tts': { input: 1, output: 20 },
+  'gemini-2.5-flash-native-audio-preview-09-2025': { input: 3, output: 12 },
+  'gemini-live-2.5-flash-preview': { input: 0.5, output: 2 },
+  'imagen-4.0-generate-001': { input: 0, output: 0, perImage: 0.04 },
+  'imagen-4.0-fast-generate-001': { input: 0, output: 0, perImage: 0.02 },
+  'imagen-4.0-ultra-generate-001': { input: 0, output: 0, perImage: 0.06 },
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (e) {
+    console.error(`Failed to load ${key}:`, e);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key}:`, e);
+  }
+};
+
+let records: UsageRecord[] | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const getUsageRecords = (): UsageRecord[] => {
+  if (!records) {
+    records = readJson<UsageRecord[]>(LEDGER_KEY, []);
+  }
+  return records;
+};
+
+export const recordUsage = (record: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+  const entry: UsageRecord = { id: crypto.randomUUID(), timestamp: Date.now(), ...record };
+  records = [...getUsageRecords(), entry].slice(-MAX_RECORDS);
+  if (!saveTimer) {
+    saveTimer = setTimeout(flushUsage, SAVE_INTERVAL_MS);
+  }
+  notify();
+};
+
+const flushUsage = () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (records) writeJson(LEDGER_KEY, records);
+};
+
+export const clearUsage = () => {
+  records = [];
+  flushUsage();
+  notify();
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', flushUsage);
+}
+
+// Returns an unsubscribe function, for use in effects.
+export const subscribeToUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPriceTable = (): PriceTable => ({ ...DEFAULT_PRICES, ...readJson<PriceTable>(PRICES_KEY, {}) });
+
+export const savePriceTable = (prices: PriceTable) => {
+  writeJson(PRICES_KEY, prices);
+  notify();
+};
+
+export const getBudgets = (): UsageBudgets => readJson<UsageBudgets>(BUDGETS_KEY, {});
+
+export const saveBudgets = (budgets: UsageBudgets) => {
+  writeJson(BUDGETS_KEY, budgets);
+  notify();
+};
+
+export const estimateCost = (record: UsageRecord, prices: PriceTable): number => {
+  const price = prices[record.model];
+  if (!price) return 0;
+  // Thinking tokens are billed at the output rate.
+  return (
+    (record.promptTokens * price.input + (record.outputTokens + record.thinkingTokens) * price.output) / 1_000_000 +
+    record.images * (price.perImage ?? 0)
+  );
+};
+
+export const emptyTotals = (): UsageTotals => ({
+  requests: 0, failures: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cost: 0, latencyMs: 0,
+});
+
+export const addToTotals = (totals: UsageTotals, record: UsageRecord, prices: PriceTable): UsageTotals => ({
+  requests: totals.requests + 1,
+  failures: totals.failures + (record.success ? 0 : 1),
+  promptTokens: totals.promptTokens + record.promptTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  thinkingTokens: totals.thinkingTokens + record.thinkingTokens,
+  cost: totals.cost + estimateCost(record, prices),
+  latencyMs: totals.latencyMs + record.latencyMs,
+});
+
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const spentSince = (since: number, prices: PriceTable) =>
+  getUsageRecords()
+    .filter(record => record.timestamp >= since)
+    .reduce((total, record) => total + estimateCost(record, prices), 0);
+
+/**
+ * Describes the first soft budget that has been reached, or returns null.
+ * Budgets never block a request; callers decide whether to ask the user first.
+ */
+export const getBudgetWarning = (): string | null => {
+  const { dailyUsd, monthlyUsd } = getBudgets();
+  const prices = getPriceTable();
+  const now = new Date();
+
+  if (dailyUsd) {
+    const spentToday = spentSince(new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime(), prices);
+    if (spentToday >= dailyUsd) {
+      return `You have spent an estimated $${spentToday.toFixed(2)} today, over your daily budget of $${dailyUsd.toFixed(2)}.`;
+    }
+  }
+  if (monthlyUsd) {
+    const spentThisMonth = spentSince(new Date(now.getFullYear(), now.getMonth(), 1).getTime(), prices);
+    if (spentThisMonth >= monthlyUsd) {
+      return `You have spent an estimated $${spentThisMonth.toFixed(2)} this month, over your monthly budget of $${monthlyUsd.toFixed(2)}.`;
+    }
+  }
+  return null;
+};
@@ -4,15 +4,179 @@ export interface GroundingSource {
   title: string;
 }
 
+// A file sent inline with a chat turn.
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Base64-encoded file contents
+  data: string;
+}
+
+// Marks the end of a span of a reply that is backed by search results.
+export interface Citation {
+  // UTF-8 byte offset into the message text, as reported by the API
+  endIndex: number;
+  // Indices into the message's `sources`
+  sourceIndices: number[];
+}
+
+export type ToolCallStatus = 'running' | 'done' | 'failed' | 'declined';
+
+// A local tool the model called while writing a reply, and what it got back.
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  // JSON-friendly data returned by the tool
+  result?: unknown;
+  error?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  attachments?: Attachment[];
   sources?: GroundingSource[];
+  citations?: Citation[];
+  // Summaries of the model's reasoning, from Thinking mode
+  thoughts?: string;
+  // In the order they were made, across every step of the reply
+  toolCalls?: ToolCall[];
+  // Set on a reply that was stopped, or cut off by an error, before the model finished
+  incomplete?: 'stopped' | 'failed';
+  // When it was said, in the transcript of a voice session
+  timestamp?: number;
+}
+
+export interface CodeSnippet {
+  code: string;
+  language: string;
+}
+
+// Stands in for a message and everything before it when history is sent to the
+// model. The messages themselves are kept, so a compaction can be undone.
+export interface Compaction {
+  summary: string;
+  // How many messages the summary covers
+  messageCount: number;
+  createdAt: number;
+  // Undone by the user: the full history is sent again
+  disabled?: boolean;
+}
+
+// A message in a conversation tree. Edits and regenerations become sibling nodes,
+// and each node remembers which of its children is the branch being shown.
+export interface MessageNode extends ChatMessage {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  selectedChildId: string | null;
+  compaction?: Compaction;
+}
+
+export type ChatMode = 'standard' | 'fast' | 'thinking' | 'search';
+
+// One column of a side-by-side comparison
+export interface CompareSlot {
+  mode: ChatMode;
+  // Replaces the model configured for the mode
+  model?: string;
+}
+
+// The user's pick between two or more answers to the same prompt.
+export interface ComparisonVote {
+  id: string;
+  timestamp: number;
+  contenders: { mode: ChatMode; model: string }[];
+  // Index into `contenders`
+  winner: number;
+}
+
+// A named assistant profile. Unset fields fall back to Settings.
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  // Replaces the configured model in every chat mode
+  model?: string;
+  temperature?: number;
+  chatMode?: ChatMode;
+  // Reference files sent at the start of every conversation
+  documents?: Attachment[];
+}
+
+// The places a saved prompt can be inserted with a slash command.
+export type PromptMode = 'chat' | 'code' | 'image' | 'project';
+
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  // May contain {{variable}} placeholders, filled in when inserting
+  text: string;
+  modes: PromptMode[];
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// The subset of JSON Schema that structured extraction validates. Other keywords are
+// kept and sent to the model as they are.
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+// Saved instructions and schema for pulling the same kind of data out of many inputs.
+export interface Extractor {
+  id: string;
+  name: string;
+  instructions: string;
+  schema: JsonSchema;
+  updatedAt: number;
+}
+
+export type TagColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+// A conversation that was held in Live mode. It can be continued by text in Chat.
+export interface VoiceSession {
+  startedAt: number;
+  endedAt: number;
+  // Asset id of a recording of both sides, if one was made
+  recordingId?: string;
 }
 
 export interface Conversation {
   id: string;
   title: string;
-  messages: ChatMessage[];
+  // The root is the assistant's greeting.
+  rootId: string;
+  nodes: Record<string, MessageNode>;
+  // When the conversation last had a new message
   timestamp: number;
+  // One-line description written by the model after the first exchange
+  summary?: string;
+  personaId?: string;
+  pinned?: boolean;
+  // Name of the folder it's filed under in the history sidebar
+  folder?: string;
+  tags?: TagColor[];
+  // Read each reply aloud as it streams in
+  autoSpeak?: boolean;
+  voiceSession?: VoiceSession;
 }
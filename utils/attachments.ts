@@ -0,0 +1,80 @@
+import type { Part } from '@google/genai';
+import type { Attachment, ChatMessage } from '../types';
+
+// Files attached to chat turns are sent inline with the request and stored with the
+// conversation, so they are kept small.
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'text';
+
+// Source and log files are sent as plain text, whatever the browser calls them.
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'log', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'xml', 'toml', 'ini', 'env',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cc',
+  'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'html', 'htm', 'css', 'scss', 'less', 'vue', 'svelte',
+]);
+
+// Value for the file picker's `accept` attribute.
+export const ATTACHMENT_ACCEPT = ['image/*', 'audio/*', 'application/pdf', 'text/*', ...[...TEXT_EXTENSIONS].map(ext => `.${ext}`)].join(',');
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return 'text';
+};
+
+// The MIME type to send a file as, or null if it can't be attached.
+const resolveMimeType = (file: File): string | null => {
+  const type = file.type;
+  if (type.startsWith('image/') || type.startsWith('audio/') || type === 'application/pdf') return type;
+  if (type.startsWith('text/') || TEXT_EXTENSIONS.has(extensionOf(file.name))) return 'text/plain';
+  return null;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const readFileAsAttachment = (file: File): Promise<Attachment> =>
+  new Promise((resolve, reject) => {
+    const mimeType = resolveMimeType(file);
+    if (!mimeType) {
+      reject(new Error(`"${file.name}" can't be attached. Attach images, PDFs, audio or text files.`));
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      reject(new Error(`"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`));
+      return;
+    }
+    const reader = new FileReader();
+    // onload rather than onloadend, which also fires after onerror with no result
+    reader.onload = () => {
+      const data = typeof reader.result === 'string' ? reader.result.split(',')[1] : undefined;
+      if (data === undefined) {
+        reject(new Error(`Could not read "${file.name}".`));
+        return;
+      }
+      resolve({ id: crypto.randomUUID(), name: file.name || 'pasted-file', mimeType, size: file.size, data });
+    };
+    reader.onerror = () => reject(new Error(`Failed to read "${file.name}".`));
+    reader.readAsDataURL(file);
+  });
+
+export const toDataUrl = (attachment: Attachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// The parts sent to the model for a message: attachments first, then the text.
+export const toMessageParts = (message: ChatMessage): Part[] => {
+  const parts: Part[] = (message.attachments ?? []).map(attachment => ({
+    inlineData: { data: attachment.data, mimeType: attachment.mimeType },
+  }));
+  if (message.text || parts.length === 0) {
+    parts.push({ text: message.text });
+  }
+  return parts;
+};
@@ -0,0 +1,90 @@
+import { createChunker, createResampler, downmix, floatToPcm16, measureLevel } from './audioUtils';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`;
+// 100 ms per chunk
+const CHUNK_SIZE = 1600;
+
+// Runs on the audio rendering thread. The DSP comes from audioUtils as source text;
+// sampleRate is the worklet scope's global for the device rate.
+const WORKLET_SOURCE = `
+const downmix = ${downmix};
+const createResampler = ${createResampler};
+const createChunker = ${createChunker};
+const floatToPcm16 = ${floatToPcm16};
+const measureLevel = ${measureLevel};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    this.resample = createResampler(sampleRate, targetRate);
+    this.chunker = createChunker(chunkSize);
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (channels && channels.length > 0) {
+      for (const chunk of this.chunker.push(this.resample(downmix(channels)))) {
+        const pcm = floatToPcm16(chunk);
+        this.port.postMessage({ pcm: pcm.buffer, level: measureLevel(chunk) }, [pcm.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface AudioCaptureOptions {
+  // 16 kHz mono PCM, CHUNK_SIZE samples at a time
+  onChunk: (pcm: Int16Array) => void;
+  // RMS level of each chunk, from 0 to 1
+  onLevel?: (level: number) => void;
+}
+
+export interface AudioCapture {
+  stop: () => Promise<void>;
+}
+
+/**
+ * Streams a microphone as 16 kHz PCM chunks. Capture runs at the device's own
+ * rate and is resampled in an AudioWorklet, off the main thread. Stopping leaves
+ * the stream's tracks alone; they belong to the caller.
+ */
+export const startAudioCapture = async (stream: MediaStream, { onChunk, onLevel }: AudioCaptureOptions): Promise<AudioCapture> => {
+  const audioCtx = new AudioContext();
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await audioCtx.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = audioCtx.createMediaStreamSource(stream);
+    const worklet = new AudioWorkletNode(audioCtx, 'pcm-capture', {
+      processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSize: CHUNK_SIZE },
+    });
+    worklet.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; level: number }>) => {
+      onChunk(new Int16Array(event.data.pcm));
+      onLevel?.(event.data.level);
+    };
+    // The worklet writes no output; connecting it keeps the graph rendering
+    source.connect(worklet);
+    worklet.connect(audioCtx.destination);
+
+    return {
+      stop: async () => {
+        worklet.port.onmessage = null;
+        source.disconnect();
+        worklet.disconnect();
+        if (audioCtx.state !== 'closed') await audioCtx.close();
+      },
+    };
+  } catch (e) {
+    audioCtx.close();
+    throw e;
+  }
+};
@@ -36,3 +36,140 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// The DSP below also runs inside the capture worklet, which gets each function's
+// source text. They must not refer to anything outside their own body.
+
+// Averages the channels of a block into one.
+export function downmix(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i];
+  }
+  for (let i = 0; i < mono.length; i++) mono[i] /= channels.length;
+  return mono;
+}
+
+/**
+ * Returns a function that converts blocks of a continuous signal from one sample
+ * rate to another. Each output sample is a Hann-windowed sinc interpolation of
+ * the input, low-passed below the lower of the two Nyquist frequencies so that
+ * downsampling doesn't alias. Samples near the end of a block are kept until
+ * the next block arrives, which delays the output by `halfWidth` output samples.
+ */
+export function createResampler(inputRate: number, outputRate: number, halfWidth = 8): (input: Float32Array) => Float32Array {
+  if (inputRate === outputRate) return (input) => input.slice();
+  // Input samples per output sample
+  const step = inputRate / outputRate;
+  // Cutoff as a fraction of the input's Nyquist frequency
+  const cutoff = Math.min(1, outputRate / inputRate);
+  // Kernel reach on each side, in input samples
+  const reach = Math.ceil(halfWidth / cutoff);
+  // Kernels are computed once per fractional offset, rounded to 1/PHASES of a sample
+  const PHASES = 1024;
+  const kernels: (Float32Array | undefined)[] = new Array(PHASES + 1);
+
+  const kernelFor = (phase: number) => {
+    let kernel = kernels[phase];
+    if (!kernel) {
+      // Taps for input samples center - reach + 1 ... center + reach
+      kernel = new Float32Array(2 * reach);
+      let total = 0;
+      for (let tap = 0; tap < kernel.length; tap++) {
+        const distance = phase / PHASES + reach - 1 - tap;
+        if (Math.abs(distance) >= reach) continue;
+        const x = distance * cutoff;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        kernel[tap] = sinc * (0.5 + 0.5 * Math.cos((Math.PI * distance) / reach));
+        total += kernel[tap];
+      }
+      // Unity gain for a constant signal
+      for (let tap = 0; tap < kernel.length; tap++) kernel[tap] /= total;
+      kernels[phase] = kernel;
+    }
+    return kernel;
+  };
+
+  let history = new Float32Array(0);
+  // Where the next output sample falls, as an index into history
+  let position = 0;
+
+  return (input) => {
+    const buffer = new Float32Array(history.length + input.length);
+    buffer.set(history);
+    buffer.set(input, history.length);
+
+    const output: number[] = [];
+    while (Math.floor(position) + reach < buffer.length) {
+      const center = Math.floor(position);
+      const kernel = kernelFor(Math.round((position - center) * PHASES));
+      const first = center - reach + 1;
+      let sum = 0;
+      for (let tap = 0; tap < kernel.length; tap++) {
+        // Before the first block the signal counts as silence
+        if (first + tap >= 0) sum += buffer[first + tap] * kernel[tap];
+      }
+      output.push(sum);
+      position += step;
+    }
+
+    const keepFrom = Math.max(0, Math.floor(position) - reach);
+    history = buffer.slice(keepFrom);
+    position -= keepFrom;
+    return Float32Array.from(output);
+  };
+}
+
+// Converts samples in [-1, 1] to 16-bit PCM, clamping anything outside that range.
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+/**
+ * Collects samples into chunks of exactly `size`. `push` returns the chunks that
+ * filled up; `flush` returns whatever is left over, if anything.
+ */
+export function createChunker(size: number): { push: (samples: Float32Array) => Float32Array[]; flush: () => Float32Array | null } {
+  let pending = new Float32Array(size);
+  let filled = 0;
+
+  const push = (samples: Float32Array) => {
+    const chunks: Float32Array[] = [];
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(size - filled, samples.length - offset);
+      pending.set(samples.subarray(offset, offset + count), filled);
+      filled += count;
+      offset += count;
+      if (filled === size) {
+        chunks.push(pending);
+        pending = new Float32Array(size);
+        filled = 0;
+      }
+    }
+    return chunks;
+  };
+
+  const flush = () => {
+    if (filled === 0) return null;
+    const rest = pending.slice(0, filled);
+    filled = 0;
+    return rest;
+  };
+
+  return { push, flush };
+}
+
+// Root mean square of the samples, from 0 for silence to 1 for a full-scale square wave.
+export function measureLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
@@ -0,0 +1,65 @@
+import type { Citation, GroundingSource } from '../types';
+
+// Keeps a URL from ending the Markdown link early.
+const encodeLinkTarget = (uri: string) => uri.replace(/[\s()<>]/g, char => encodeURIComponent(char));
+
+const linkMarker = (sourceIndex: number, source: GroundingSource) =>
+  ` [\\[${sourceIndex + 1}\\]](${encodeLinkTarget(source.uri)})`;
+
+// Adds numbered citation links to a search-grounded reply, as Markdown, at the
+// byte offsets reported in its grounding supports. `renderMarker` can swap the
+// links for another marker, such as a footnote reference.
+export const insertCitationMarkers = (
+  text: string,
+  citations: Citation[],
+  sources: GroundingSource[],
+  renderMarker: (sourceIndex: number) => string = index => linkMarker(index, sources[index])
+): string => {
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+
+  // Several supports can end at the same place; cite each source there once.
+  const markersByOffset = new Map<number, Set<number>>();
+  for (const { endIndex, sourceIndices } of citations) {
+    if (endIndex < 0 || endIndex > bytes.length) continue;
+    const markers = markersByOffset.get(endIndex) ?? new Set<number>();
+    sourceIndices.filter(index => sources[index]).forEach(index => markers.add(index));
+    markersByOffset.set(endIndex, markers);
+  }
+
+  let result = '';
+  let position = 0;
+  for (const offset of [...markersByOffset.keys()].sort((a, b) => a - b)) {
+    const markers = [...markersByOffset.get(offset)!].sort((a, b) => a - b);
+    if (markers.length === 0) continue;
+    result += decoder.decode(bytes.subarray(position, offset));
+    result += markers.map(index => renderMarker(index)).join('');
+    position = offset;
+  }
+  return result + decoder.decode(bytes.subarray(position));
+};
+
+// Grounding for a continued reply counts its offsets from where the continuation
+// starts. Moves them past the text already there and adds the new sources after
+// the earlier ones, reusing any source that was already cited.
+export const appendContinuationGrounding = (
+  previous: { text: string; sources?: GroundingSource[]; citations?: Citation[] },
+  grounding: { sources: GroundingSource[]; citations: Citation[] }
+): { sources: GroundingSource[]; citations: Citation[] } => {
+  const offset = new TextEncoder().encode(previous.text).length;
+  const sources = [...(previous.sources ?? [])];
+  const indexMap = grounding.sources.map(source => {
+    const existing = sources.findIndex(({ uri }) => uri === source.uri);
+    if (existing !== -1) return existing;
+    sources.push(source);
+    return sources.length - 1;
+  });
+  const citations = [
+    ...(previous.citations ?? []),
+    ...grounding.citations.map(({ endIndex, sourceIndices }) => ({
+      endIndex: endIndex + offset,
+      sourceIndices: sourceIndices.map(index => indexMap[index]).filter(index => index !== undefined),
+    })),
+  ];
+  return { sources, citations };
+};
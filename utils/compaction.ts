@@ -0,0 +1,59 @@
+import type { MessageNode } from '../types';
+import { getAttachmentKind } from './attachments';
+
+// Long conversations are compacted: once the messages sent with each request pass a
+// token threshold, the older ones are replaced by a summary written by the model.
+// Compactions live on the reply that ends the summarized span, so every branch
+// below it shares them.
+
+// About four characters per token, which is close enough to decide when to compact.
+const CHARS_PER_TOKEN = 4;
+// The API bills an inline image as a fixed block of tokens.
+const IMAGE_TOKENS = 258;
+
+export const estimateTokens = (node: MessageNode): number =>
+  Math.ceil(node.text.length / CHARS_PER_TOKEN) + (node.attachments ?? []).reduce(
+    (total, attachment) => total + (getAttachmentKind(attachment.mimeType) === 'image' ? IMAGE_TOKENS : Math.ceil(attachment.size / CHARS_PER_TOKEN)),
+    0
+  );
+
+const findLastIndex = (path: MessageNode[], predicate: (node: MessageNode) => boolean): number => {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (predicate(path[i])) return i;
+  }
+  return -1;
+};
+
+// Index of the compaction in effect on this branch, or -1 if the full history is sent.
+export const findActiveCompaction = (path: MessageNode[]): number =>
+  findLastIndex(path, node => !!node.compaction && !node.compaction.disabled);
+
+/**
+ * Where to compact the branch next, or null if it is still under `threshold`.
+ * Messages since the last compaction (undone or not) are counted; about half the
+ * threshold of recent messages, and always the last exchange, are kept verbatim.
+ */
+export const findCompactionPoint = (path: MessageNode[], threshold: number): number | null => {
+  if (threshold <= 0) return null;
+  // The greeting at the root is never sent
+  const start = Math.max(1, findLastIndex(path, node => !!node.compaction) + 1);
+  const total = path.slice(start).reduce((sum, node) => sum + estimateTokens(node), 0);
+  if (total <= threshold) return null;
+
+  let firstKept = path.length - 2;
+  let kept = estimateTokens(path[path.length - 1]) + estimateTokens(path[path.length - 2]);
+  while (firstKept - 1 >= start && kept + estimateTokens(path[firstKept - 1]) <= threshold / 2) {
+    firstKept--;
+    kept += estimateTokens(path[firstKept]);
+  }
+  // Cut after a reply, so the history that follows starts with the user
+  const point = findLastIndex(path.slice(0, firstKept), node => node.role === 'model');
+  return point >= start ? point : null;
+};
+
+// Plain-text transcript of messages, for the summarizer.
+export const toTranscript = (nodes: MessageNode[]): string =>
+  nodes.map(node => {
+    const files = (node.attachments ?? []).map(attachment => `[Attached: ${attachment.name}]`).join(' ');
+    return `${node.role === 'user' ? 'User' : 'Assistant'}: ${[node.text, files].filter(Boolean).join('\n')}`;
+  }).join('\n\n');
@@ -0,0 +1,524 @@
+import type { Attachment, Citation, Compaction, Conversation, GroundingSource, MessageNode, TagColor, ToolCall, VoiceSession } from '../types';
+import { getActivePath } from './conversationTree';
+import { insertCitationMarkers } from './citations';
+import { parseMarkdown, parseInline, MarkdownBlock, InlineNode } from './markdown';
+import { highlight } from './highlight';
+import { formatFileSize, getAttachmentKind, toDataUrl } from './attachments';
+import { toFileName } from './download';
+
+// JSZip is loaded from a CDN in index.html.
+declare const JSZip: any;
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+];
+
+// JSON exports are tagged so imports can recognise them and handle older versions.
+const ARCHIVE_FORMAT = 'gemini-studio-conversations';
+export const ARCHIVE_VERSION = 1;
+
+interface ConversationArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: Conversation[];
+}
+
+// Voice session transcripts carry the time each turn was said.
+const roleLabel = (node: MessageNode) =>
+  (node.role === 'user' ? 'You' : 'Gemini') + (node.timestamp ? ` (${new Date(node.timestamp).toLocaleTimeString()})` : '');
+
+const voiceSessionNote = ({ startedAt, endedAt }: VoiceSession) =>
+  `Voice session on ${new Date(startedAt).toLocaleString()}, ${Math.max(1, Math.round((endedAt - startedAt) / 60000))} min`;
+
+const exportedOn = () => `Exported from Gemini Studio on ${new Date().toLocaleString()}`;
+
+// --- Markdown ---
+
+const escapeLinkText = (text: string) => text.replace(/[[\]\\]/g, char => `\\${char}`);
+
+const toolCallToMarkdown = (call: ToolCall) => [
+  '<details>', `<summary>Tool: ${call.name} (${call.status})</summary>`, '',
+  '```json', JSON.stringify(call.args, null, 2), '```', '',
+  ...(call.status === 'done' ? ['```json', JSON.stringify(call.result, null, 2) ?? 'null', '```', ''] : []),
+  ...(call.error ? [call.error, ''] : []),
+  '</details>', '',
+];
+
+// Only the branch currently shown is exported; search sources become footnotes.
+export const toMarkdown = (conversation: Conversation): string => {
+  const lines = [`# ${conversation.title}`, '', `_${exportedOn()}_`];
+  if (conversation.voiceSession) lines.push('', `_${voiceSessionNote(conversation.voiceSession)}_`);
+  const footnotes: string[] = [];
+
+  for (const node of getActivePath(conversation)) {
+    lines.push('', `## ${roleLabel(node)}`, '');
+    if (node.attachments?.length) {
+      node.attachments.forEach(attachment =>
+        lines.push(`> Attachment: ${attachment.name} (${attachment.mimeType}, ${formatFileSize(attachment.size)})`)
+      );
+      lines.push('');
+    }
+    if (node.thoughts) {
+      lines.push('<details>', '<summary>Thoughts</summary>', '', node.thoughts, '', '</details>', '');
+    }
+    node.toolCalls?.forEach(call => lines.push(...toolCallToMarkdown(call)));
+
+    let text = node.text;
+    if (node.sources?.length) {
+      const numbers = node.sources.map(source => {
+        footnotes.push(`[^${footnotes.length + 1}]: [${escapeLinkText(source.title)}](${source.uri})`);
+        return footnotes.length;
+      });
+      const reference = (index: number) => `[^${numbers[index]}]`;
+      text = node.citations?.length
+        ? insertCitationMarkers(text, node.citations, node.sources, reference)
+        : `${text} ${numbers.map((_, index) => reference(index)).join('')}`;
+    }
+    lines.push(text);
+    if (node.incomplete) lines.push('', '_The response was cut off here._');
+  }
+
+  if (footnotes.length > 0) lines.push('', ...footnotes);
+  return lines.join('\n') + '\n';
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const inlineToHtml = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return escapeHtml(node.text);
+      case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+      case 'del': return `<del>${inlineToHtml(node.children)}</del>`;
+      case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+      case 'math': return `<code class="math">${escapeHtml(node.tex)}</code>`;
+      case 'link': return `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${inlineToHtml(node.children)}</a>`;
+      // Remote images become links, so opening the file doesn't fetch them
+      case 'image': return node.src.startsWith('data:')
+        ? `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}">`
+        : `<a href="${escapeHtml(node.src)}" target="_blank" rel="noopener noreferrer">${escapeHtml(node.alt || 'Image')}</a>`;
+      case 'break': return '<br>';
+    }
+  }).join('');
+
+const inline = (text: string) => inlineToHtml(parseInline(text));
+
+const blocksToHtml = (blocks: MarkdownBlock[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading': {
+        // One level down, below the page's own title
+        const level = Math.min(block.level + 1, 6);
+        return `<h${level}>${inline(block.text)}</h${level}>`;
+      }
+      case 'paragraph':
+        return `<p>${inline(block.text)}</p>`;
+      case 'code': {
+        const code = highlight(block.code, block.language)
+          .map(token => token.type === 'plain' ? escapeHtml(token.text) : `<span class="tok-${token.type}">${escapeHtml(token.text)}</span>`)
+          .join('');
+        return `<pre><code>${code}</code></pre>`;
+      }
+      case 'math':
+        return `<pre class="math">${escapeHtml(block.tex)}</pre>`;
+      case 'blockquote':
+        return `<blockquote>${blocksToHtml(block.blocks)}</blockquote>`;
+      case 'list': {
+        const items = block.items.map(item => {
+          const checkbox = item.checked === null ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+          return `<li>${checkbox}${blocksToHtml(item.blocks)}</li>`;
+        }).join('');
+        return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+      }
+      case 'table': {
+        const cell = (tag: string, text: string, index: number) =>
+          `<${tag}${block.align[index] ? ` style="text-align:${block.align[index]}"` : ''}>${inline(text)}</${tag}>`;
+        const header = `<tr>${block.header.map((text, index) => cell('th', text, index)).join('')}</tr>`;
+        const rows = block.rows.map(row => `<tr>${row.map((text, index) => cell('td', text, index)).join('')}</tr>`).join('');
+        return `<table><thead>${header}</thead><tbody>${rows}</tbody></table>`;
+      }
+      case 'hr':
+        return '<hr>';
+    }
+  }).join('\n');
+
+const attachmentsToHtml = (attachments: Attachment[]) =>
+  `<div class="attachments">${attachments.map(attachment =>
+    getAttachmentKind(attachment.mimeType) === 'image'
+      ? `<img src="${escapeHtml(toDataUrl(attachment))}" alt="${escapeHtml(attachment.name)}" title="${escapeHtml(attachment.name)}">`
+      : `<span class="chip">${escapeHtml(attachment.name)} · ${formatFileSize(attachment.size)}</span>`
+  ).join('')}</div>`;
+
+const sourcesToHtml = (sources: GroundingSource[]) =>
+  `<ol class="sources">${sources.map(source =>
+    `<li><a href="${escapeHtml(source.uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(source.title || source.uri)}</a></li>`
+  ).join('')}</ol>`;
+
+const toolCallToHtml = (call: ToolCall) =>
+  `<details><summary>Tool: ${escapeHtml(call.name)} (${call.status})</summary>` +
+  `<pre><code>${escapeHtml(JSON.stringify(call.args, null, 2))}</code></pre>` +
+  (call.status === 'done' ? `<pre><code>${escapeHtml(JSON.stringify(call.result, null, 2) ?? 'null')}</code></pre>` : '') +
+  (call.error ? `<p>${escapeHtml(call.error)}</p>` : '') +
+  '</details>';
+
+const messageToHtml = (node: MessageNode) => {
+  const text = node.citations?.length && node.sources
+    ? insertCitationMarkers(node.text, node.citations, node.sources)
+    : node.text;
+  return `<section class="message ${node.role}">
+<div class="role">${roleLabel(node)}</div>
+${node.attachments?.length ? attachmentsToHtml(node.attachments) : ''}
+${node.thoughts ? `<details><summary>Thoughts</summary>${blocksToHtml(parseMarkdown(node.thoughts))}</details>` : ''}
+${node.toolCalls?.map(toolCallToHtml).join('') ?? ''}
+${node.role === 'model' ? blocksToHtml(parseMarkdown(text)) : `<p class="plain">${escapeHtml(text)}</p>`}
+${node.incomplete ? '<p class="meta">The response was cut off here.</p>' : ''}
+${node.sources?.length ? sourcesToHtml(node.sources) : ''}
+</section>`;
+};
+
+const HTML_STYLES = `
+  :root { color-scheme: light dark; --accent: #dc2626; --bubble: #f3f4f6; --border: #e5e7eb; --muted: #6b7280; }
+  @media (prefers-color-scheme: dark) { :root { --bubble: #1f2937; --border: #374151; --muted: #9ca3af; } }
+  body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; margin: 0; padding: 2rem 1rem; }
+  main { max-width: 48rem; margin: 0 auto; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: var(--muted); font-size: 0.875rem; margin-top: 0; }
+  .message { margin: 1.5rem 0; padding: 1rem 1.25rem; border-radius: 1rem; background: var(--bubble); }
+  .message.user { background: #b91c1c; color: #fff; margin-left: 15%; }
+  .message.user a { color: #fff; }
+  .role { font-weight: 600; font-size: 0.875rem; margin-bottom: 0.5rem; opacity: 0.8; }
+  .plain { white-space: pre-wrap; margin: 0; }
+  a { color: var(--accent); }
+  pre { background: rgba(0, 0, 0, 0.06); padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  blockquote { border-left: 4px solid var(--border); margin: 0.75rem 0; padding-left: 1rem; color: var(--muted); }
+  table { border-collapse: collapse; margin: 0.75rem 0; }
+  th, td { border: 1px solid var(--border); padding: 0.25rem 0.75rem; }
+  details { border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.5rem 0.75rem; margin-bottom: 0.75rem; color: var(--muted); }
+  .attachments { display: flex; flex-wrap: wrap; gap: 0.5rem; margin-bottom: 0.75rem; }
+  .attachments img { max-height: 12rem; border-radius: 0.5rem; }
+  .chip { padding: 0.25rem 0.75rem; border-radius: 0.5rem; background: rgba(255, 255, 255, 0.85); color: #1f2937; font-size: 0.875rem; }
+  .sources { border-top: 1px solid var(--border); margin-top: 1rem; padding-top: 0.75rem; font-size: 0.875rem; }
+  .tok-comment { color: #6b7280; font-style: italic; }
+  .tok-string { color: #15803d; }
+  .tok-number { color: #ea580c; }
+  .tok-keyword, .tok-tag { color: #dc2626; }
+  .tok-literal { color: #9333ea; }
+  .tok-function { color: #2563eb; }
+  .tok-attribute { color: #a16207; }
+  .tok-property { color: #0369a1; }
+`;
+
+// A standalone page with its own styles, so it can be opened or shared without the app.
+export const toHtml = (conversation: Conversation): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">${escapeHtml(exportedOn())}</p>
+${conversation.voiceSession ? `<p class="meta">${escapeHtml(voiceSessionNote(conversation.voiceSession))}</p>` : ''}
+${getActivePath(conversation).map(messageToHtml).join('\n')}
+</main>
+</body>
+</html>
+`;
+
+// --- JSON ---
+
+// Every branch and field is kept, so the file can be imported again losslessly.
+export const toJson = (conversations: Conversation[]): string => {
+  const archive: ConversationArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+  return JSON.stringify(archive, null, 2);
+};
+
+/**
+ * Builds the file to download. JSON always holds every conversation in one archive;
+ * Markdown and HTML are one file per conversation, zipped when there are several.
+ */
+export const exportConversations = async (
+  conversations: Conversation[],
+  format: ExportFormat
+): Promise<{ blob: Blob; filename: string }> => {
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.value === format)!;
+  if (format === 'json') {
+    const name = conversations.length === 1 ? toFileName(conversations[0].title) : 'conversations';
+    return { blob: new Blob([toJson(conversations)], { type: mimeType }), filename: `${name}.${extension}` };
+  }
+
+  const render = format === 'markdown' ? toMarkdown : toHtml;
+  if (conversations.length === 1) {
+    const [conversation] = conversations;
+    return { blob: new Blob([render(conversation)], { type: mimeType }), filename: `${toFileName(conversation.title)}.${extension}` };
+  }
+
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  for (const conversation of conversations) {
+    const base = toFileName(conversation.title);
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}`;
+    usedNames.add(name);
+    zip.file(`${name}.${extension}`, render(conversation));
+  }
+  return { blob: await zip.generateAsync({ type: 'blob' }), filename: `conversations-${format}.zip` };
+};
+
+// --- Import ---
+
+class ImportValidationError extends Error {}
+
+const TAG_COLORS: TagColor[] = ['red', 'orange', 'yellow', 'green', 'blue', 'purple'];
+
+const fail = (path: string, problem: string): never => {
+  throw new ImportValidationError(`${path} ${problem}.`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'must be a string');
+
+const expectNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'must be a number');
+
+const expectArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : fail(path, 'must be a list');
+
+const expectRecord = (value: unknown, path: string): Record<string, unknown> =>
+  isRecord(value) ? value : fail(path, 'must be an object');
+
+const optional = <T>(value: unknown, read: (value: unknown) => T): T | undefined =>
+  value === undefined ? undefined : read(value);
+
+const readAttachment = (value: unknown, path: string): Attachment => {
+  const raw = expectRecord(value, path);
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    mimeType: expectString(raw.mimeType, `${path}.mimeType`),
+    size: expectNumber(raw.size, `${path}.size`),
+    data: expectString(raw.data, `${path}.data`),
+  };
+};
+
+const readSource = (value: unknown, path: string): GroundingSource => {
+  const raw = expectRecord(value, path);
+  const uri = expectString(raw.uri, `${path}.uri`);
+  if (!/^https?:\/\//i.test(uri)) fail(`${path}.uri`, 'must be a web address');
+  return { uri, title: expectString(raw.title, `${path}.title`) };
+};
+
+const readCitation = (value: unknown, path: string): Citation => {
+  const raw = expectRecord(value, path);
+  return {
+    endIndex: expectNumber(raw.endIndex, `${path}.endIndex`),
+    sourceIndices: expectArray(raw.sourceIndices, `${path}.sourceIndices`).map((index, i) => expectNumber(index, `${path}.sourceIndices[${i}]`)),
+  };
+};
+
+const TOOL_CALL_STATUSES: ToolCall['status'][] = ['running', 'done', 'failed', 'declined'];
+
+const readToolCall = (value: unknown, path: string): ToolCall => {
+  const raw = expectRecord(value, path);
+  if (!TOOL_CALL_STATUSES.includes(raw.status as ToolCall['status'])) fail(`${path}.status`, `must be one of ${TOOL_CALL_STATUSES.join(', ')}`);
+  const call: ToolCall = {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    args: expectRecord(raw.args, `${path}.args`),
+    status: raw.status as ToolCall['status'],
+  };
+  if (raw.result !== undefined) call.result = raw.result;
+  const error = optional(raw.error, v => expectString(v, `${path}.error`));
+  if (error !== undefined) call.error = error;
+  return call;
+};
+
+const readCompaction = (value: unknown, path: string): Compaction => {
+  const raw = expectRecord(value, path);
+  const compaction: Compaction = {
+    summary: expectString(raw.summary, `${path}.summary`),
+    messageCount: expectNumber(raw.messageCount, `${path}.messageCount`),
+    createdAt: expectNumber(raw.createdAt, `${path}.createdAt`),
+  };
+  if (raw.disabled === true) compaction.disabled = true;
+  return compaction;
+};
+
+const readNode = (value: unknown, path: string): MessageNode => {
+  const raw = expectRecord(value, path);
+  if (raw.role !== 'user' && raw.role !== 'model') fail(`${path}.role`, 'must be "user" or "model"');
+  const node: MessageNode = {
+    id: expectString(raw.id, `${path}.id`),
+    parentId: raw.parentId === null ? null : expectString(raw.parentId, `${path}.parentId`),
+    childIds: expectArray(raw.childIds, `${path}.childIds`).map((id, i) => expectString(id, `${path}.childIds[${i}]`)),
+    selectedChildId: raw.selectedChildId === null ? null : expectString(raw.selectedChildId, `${path}.selectedChildId`),
+    role: raw.role as MessageNode['role'],
+    text: expectString(raw.text, `${path}.text`),
+  };
+  const attachments = optional(raw.attachments, v => expectArray(v, `${path}.attachments`).map((a, i) => readAttachment(a, `${path}.attachments[${i}]`)));
+  const sources = optional(raw.sources, v => expectArray(v, `${path}.sources`).map((s, i) => readSource(s, `${path}.sources[${i}]`)));
+  const citations = optional(raw.citations, v => expectArray(v, `${path}.citations`).map((c, i) => readCitation(c, `${path}.citations[${i}]`)));
+  const thoughts = optional(raw.thoughts, v => expectString(v, `${path}.thoughts`));
+  if (attachments) node.attachments = attachments;
+  if (sources) node.sources = sources;
+  if (citations) node.citations = citations;
+  if (thoughts !== undefined) node.thoughts = thoughts;
+  if (raw.incomplete !== undefined) {
+    if (raw.incomplete !== 'stopped' && raw.incomplete !== 'failed') fail(`${path}.incomplete`, 'must be "stopped" or "failed"');
+    node.incomplete = raw.incomplete as MessageNode['incomplete'];
+  }
+  const toolCalls = optional(raw.toolCalls, v => expectArray(v, `${path}.toolCalls`).map((t, i) => readToolCall(t, `${path}.toolCalls[${i}]`)));
+  if (toolCalls) node.toolCalls = toolCalls;
+  const compaction = optional(raw.compaction, v => readCompaction(v, `${path}.compaction`));
+  if (compaction) node.compaction = compaction;
+  const timestamp = optional(raw.timestamp, v => expectNumber(v, `${path}.timestamp`));
+  if (timestamp !== undefined) node.timestamp = timestamp;
+  return node;
+};
+
+const readVoiceSession = (value: unknown, path: string): VoiceSession => {
+  const raw = expectRecord(value, path);
+  const session: VoiceSession = {
+    startedAt: expectNumber(raw.startedAt, `${path}.startedAt`),
+    endedAt: expectNumber(raw.endedAt, `${path}.endedAt`),
+  };
+  // Recordings stay in this browser's storage; elsewhere the id finds nothing
+  const recordingId = optional(raw.recordingId, v => expectString(v, `${path}.recordingId`));
+  if (recordingId) session.recordingId = recordingId;
+  return session;
+};
+
+const readConversation = (value: unknown, path: string): Conversation => {
+  const raw = expectRecord(value, path);
+  const rawNodes = expectRecord(raw.nodes, `${path}.nodes`);
+  const nodes: Record<string, MessageNode> = {};
+  for (const [key, rawNode] of Object.entries(rawNodes)) {
+    const node = readNode(rawNode, `${path}.nodes.${key}`);
+    if (node.id !== key) fail(`${path}.nodes.${key}.id`, 'must match its key');
+    nodes[key] = node;
+  }
+
+  const conversation: Conversation = {
+    id: expectString(raw.id, `${path}.id`),
+    title: expectString(raw.title, `${path}.title`),
+    rootId: expectString(raw.rootId, `${path}.rootId`),
+    nodes,
+    timestamp: expectNumber(raw.timestamp, `${path}.timestamp`),
+  };
+  const summary = optional(raw.summary, v => expectString(v, `${path}.summary`));
+  if (summary) conversation.summary = summary;
+  const personaId = optional(raw.personaId, v => expectString(v, `${path}.personaId`));
+  if (personaId) conversation.personaId = personaId;
+  const pinned = optional(raw.pinned, v => typeof v === 'boolean' ? v : fail(`${path}.pinned`, 'must be true or false'));
+  const folder = optional(raw.folder, v => expectString(v, `${path}.folder`));
+  const tags = optional(raw.tags, v => expectArray(v, `${path}.tags`).map((tag, i) =>
+    TAG_COLORS.includes(tag as TagColor) ? tag as TagColor : fail(`${path}.tags[${i}]`, `must be one of ${TAG_COLORS.join(', ')}`)));
+  if (pinned) conversation.pinned = pinned;
+  if (folder) conversation.folder = folder;
+  if (tags) conversation.tags = tags;
+  const autoSpeak = optional(raw.autoSpeak, v => typeof v === 'boolean' ? v : fail(`${path}.autoSpeak`, 'must be true or false'));
+  if (autoSpeak) conversation.autoSpeak = autoSpeak;
+  const voiceSession = optional(raw.voiceSession, v => readVoiceSession(v, `${path}.voiceSession`));
+  if (voiceSession) conversation.voiceSession = voiceSession;
+
+  // The message tree must hang together, or the chat view can't walk it.
+  if (!nodes[conversation.rootId] || nodes[conversation.rootId].parentId !== null) {
+    fail(`${path}.rootId`, 'must name a message without a parent');
+  }
+  for (const node of Object.values(nodes)) {
+    const nodePath = `${path}.nodes.${node.id}`;
+    if (node.parentId !== null && !nodes[node.parentId]?.childIds.includes(node.id)) {
+      fail(`${nodePath}.parentId`, "must name a message that lists it as a child");
+    }
+    if (node.id !== conversation.rootId && node.parentId === null) fail(`${nodePath}.parentId`, 'is missing');
+    if (node.childIds.some(id => nodes[id]?.parentId !== node.id)) fail(`${nodePath}.childIds`, 'must only name its own replies');
+    if (node.selectedChildId !== null && !node.childIds.includes(node.selectedChildId)) {
+      fail(`${nodePath}.selectedChildId`, 'must be one of its children');
+    }
+  }
+  // Every message must be reached exactly once from the root, which rules out
+  // loops that the parent and child links above can't see
+  const reached = new Set<string>();
+  const pending = [conversation.rootId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (reached.has(id)) fail(`${path}.nodes.${id}`, 'is reached more than once from the root');
+    reached.add(id);
+    pending.push(...nodes[id].childIds);
+  }
+  const unreached = Object.keys(nodes).find(id => !reached.has(id));
+  if (unreached !== undefined) fail(`${path}.nodes.${unreached}`, "can't be reached from the root");
+  return conversation;
+};
+
+// Parses and validates an exported JSON file, throwing an Error that says what is wrong.
+export const parseConversationArchive = (text: string): Conversation[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== ARCHIVE_FORMAT) {
+    throw new Error("The file isn't a Gemini Studio conversation export.");
+  }
+  if (typeof raw.version !== 'number' || raw.version > ARCHIVE_VERSION) {
+    throw new Error("The file was exported by a newer version of Gemini Studio.");
+  }
+  try {
+    return expectArray(raw.conversations, 'conversations').map((c, i) => readConversation(c, `conversations[${i}]`));
+  } catch (e) {
+    if (e instanceof ImportValidationError) throw new Error(`The file doesn't match the export format: ${e.message}`);
+    throw e;
+  }
+};
+
+export interface MergeResult {
+  conversations: Conversation[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Adds imported conversations to the list. A conversation that is already there
+// is only replaced when the imported copy is newer.
+export const mergeConversations = (existing: Conversation[], imported: Conversation[]): MergeResult => {
+  const byId = new Map<string, Conversation>(existing.map(c => [c.id, c]));
+  const existingIds = new Set(byId.keys());
+  let added = 0, updated = 0, skipped = 0;
+
+  for (const conversation of imported) {
+    const current = byId.get(conversation.id);
+    if (!current) {
+      added++;
+    } else if (conversation.timestamp > current.timestamp) {
+      if (existingIds.has(conversation.id)) updated++;
+    } else {
+      skipped++;
+      continue;
+    }
+    byId.set(conversation.id, conversation);
+  }
+  return { conversations: [...byId.values()], added, updated, skipped };
+};
@@ -0,0 +1,82 @@
+import type { Conversation } from '../types';
+
+// A highlighted span, as [start, end) offsets into a string.
+export type MatchRange = [number, number];
+
+export interface MessageMatch {
+  messageId: string;
+  snippet: string;
+  ranges: MatchRange[];
+}
+
+export interface SearchResult {
+  conversation: Conversation;
+  titleRanges: MatchRange[];
+  messages: MessageMatch[];
+}
+
+// Characters of context shown either side of the first match in a snippet.
+const SNIPPET_CONTEXT = 40;
+const MAX_MESSAGE_MATCHES = 3;
+
+const toTerms = (query: string) => [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+
+// Where any of the terms appear in `text`, sorted and with overlaps merged.
+const findRanges = (text: string, terms: string[]): MatchRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: MatchRange[] = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+};
+
+// A single line of text around the first match, with the ranges moved to match.
+const toSnippet = (text: string, ranges: MatchRange[]): { snippet: string; ranges: MatchRange[] } => {
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  // Newlines become spaces one-for-one, so offsets stay valid
+  const snippet = prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix;
+  const shift = prefix.length - start;
+  return {
+    snippet,
+    ranges: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift] as MatchRange),
+  };
+};
+
+// Finds the conversations that contain every word of `query`, in their title or in
+// any message on any branch. Newest first.
+export const searchConversations = (conversations: Conversation[], query: string): SearchResult[] => {
+  const terms = toTerms(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const conversation of conversations) {
+    const nodes = Object.values(conversation.nodes).filter(node => node.parentId !== null);
+    const haystack = [conversation.title, ...nodes.map(node => node.text)].join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) continue;
+
+    const messages: MessageMatch[] = [];
+    for (const node of nodes) {
+      const ranges = findRanges(node.text, terms);
+      if (ranges.length > 0) messages.push({ messageId: node.id, ...toSnippet(node.text, ranges) });
+      if (messages.length === MAX_MESSAGE_MATCHES) break;
+    }
+    results.push({ conversation, titleRanges: findRanges(conversation.title, terms), messages });
+  }
+  return results.sort((a, b) => b.conversation.timestamp - a.conversation.timestamp);
+};
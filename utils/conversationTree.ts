@@ -0,0 +1,167 @@
+import type { Content } from '@google/genai';
+import type { ChatMessage, Compaction, Conversation, MessageNode } from '../types';
+import { toMessageParts } from './attachments';
+import { findActiveCompaction } from './compaction';
+
+// Helpers for the tree-shaped conversation model. Every function returns a new
+// Conversation so they can be used directly inside React state updaters.
+
+export const GREETING = 'Hello! How can I help you today?';
+
+export const createMessageId = () => crypto.randomUUID();
+
+export const createConversation = (title: string): Conversation => {
+  const root: MessageNode = {
+    id: createMessageId(),
+    parentId: null,
+    childIds: [],
+    selectedChildId: null,
+    role: 'model',
+    text: GREETING,
+  };
+  return { id: Date.now().toString(), title, timestamp: Date.now(), rootId: root.id, nodes: { [root.id]: root } };
+};
+
+// The messages currently shown: from the root, following each node's selected child.
+export const getActivePath = (conversation: Conversation): MessageNode[] => {
+  const path: MessageNode[] = [];
+  let node: MessageNode | undefined = conversation.nodes[conversation.rootId];
+  while (node) {
+    path.push(node);
+    node = node.selectedChildId ? conversation.nodes[node.selectedChildId] : undefined;
+  }
+  return path;
+};
+
+// The messages from the root down to (and including) `nodeId`.
+export const getPathTo = (conversation: Conversation, nodeId: string): MessageNode[] => {
+  const path: MessageNode[] = [];
+  let node: MessageNode | undefined = conversation.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? conversation.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+// Adds a message under `parentId` and makes it the selected branch.
+export const addMessage = (conversation: Conversation, parentId: string, message: ChatMessage, id: string = createMessageId()): Conversation => {
+  const parent = conversation.nodes[parentId];
+  const node: MessageNode = { ...message, id, parentId, childIds: [], selectedChildId: null };
+  return {
+    ...conversation,
+    nodes: {
+      ...conversation.nodes,
+      [id]: node,
+      [parentId]: { ...parent, childIds: [...parent.childIds, id], selectedChildId: id },
+    },
+  };
+};
+
+export const updateMessage = (
+  conversation: Conversation,
+  id: string,
+  update: (node: MessageNode) => Partial<ChatMessage>
+): Conversation => {
+  const node = conversation.nodes[id];
+  if (!node) return conversation;
+  return { ...conversation, nodes: { ...conversation.nodes, [id]: { ...node, ...update(node) } } };
+};
+
+// Removes a message and everything below it; the parent falls back to its previous branch.
+export const removeMessage = (conversation: Conversation, id: string): Conversation => {
+  const node = conversation.nodes[id];
+  if (!node || !node.parentId) return conversation;
+  const nodes = { ...conversation.nodes };
+  const removeSubtree = (nodeId: string) => {
+    nodes[nodeId]?.childIds.forEach(removeSubtree);
+    delete nodes[nodeId];
+  };
+  removeSubtree(id);
+
+  const parent = nodes[node.parentId];
+  const childIds = parent.childIds.filter(childId => childId !== id);
+  const removedIndex = parent.childIds.indexOf(id);
+  const selectedChildId = parent.selectedChildId === id
+    ? childIds[Math.max(0, removedIndex - 1)] ?? null
+    : parent.selectedChildId;
+  nodes[parent.id] = { ...parent, childIds, selectedChildId };
+  return { ...conversation, nodes };
+};
+
+export const getSiblings = (conversation: Conversation, node: MessageNode): { index: number; count: number } => {
+  const parent = node.parentId ? conversation.nodes[node.parentId] : undefined;
+  if (!parent) return { index: 0, count: 1 };
+  return { index: parent.childIds.indexOf(node.id), count: parent.childIds.length };
+};
+
+// Switches to the previous (-1) or next (+1) sibling branch of `id`.
+export const selectSibling = (conversation: Conversation, id: string, offset: number): Conversation => {
+  const node = conversation.nodes[id];
+  const parent = node?.parentId ? conversation.nodes[node.parentId] : undefined;
+  if (!parent) return conversation;
+  const target = parent.childIds[parent.childIds.indexOf(id) + offset];
+  if (!target) return conversation;
+  return { ...conversation, nodes: { ...conversation.nodes, [parent.id]: { ...parent, selectedChildId: target } } };
+};
+
+// Selects the branches leading to `id`, so that message is on the active path.
+export const selectPathTo = (conversation: Conversation, id: string): Conversation => {
+  const nodes = { ...conversation.nodes };
+  for (const node of getPathTo(conversation, id)) {
+    const parent = node.parentId ? nodes[node.parentId] : undefined;
+    if (parent && parent.selectedChildId !== node.id) {
+      nodes[parent.id] = { ...parent, selectedChildId: node.id };
+    }
+  }
+  return { ...conversation, nodes };
+};
+
+// Adds, replaces or (with undefined) removes the compaction ending at message `id`.
+export const setCompaction = (conversation: Conversation, id: string, compaction: Compaction | undefined): Conversation => {
+  const node = conversation.nodes[id];
+  if (!node) return conversation;
+  const { compaction: _previous, ...rest } = node;
+  return { ...conversation, nodes: { ...conversation.nodes, [id]: compaction ? { ...rest, compaction } : rest } };
+};
+
+// Turns a branch path into chat history for the model, leaving out the canned greeting.
+// Messages covered by a compaction are replaced by its summary.
+export const toChatHistory = (path: MessageNode[]): Content[] => {
+  const compactedAt = findActiveCompaction(path);
+  const history: Content[] = path
+    .slice(compactedAt + 1)
+    .filter(node => node.parentId !== null)
+    .map(node => ({ role: node.role, parts: toMessageParts(node) }));
+  if (compactedAt === -1) return history;
+  return [
+    { role: 'user', parts: [{ text: `Here is a summary of our conversation so far:\n\n${path[compactedAt].compaction!.summary}` }] },
+    { role: 'model', parts: [{ text: "Thanks, I'll continue from there." }] },
+    ...history,
+  ];
+};
+
+interface LegacyConversation {
+  id: string;
+  title: string;
+  timestamp: number;
+  messages: ChatMessage[];
+}
+
+// Conversations saved before branching stored a flat message list; turn it into a single branch.
+export const migrateConversation = (stored: Conversation | LegacyConversation): Conversation => {
+  if ('nodes' in stored) return stored;
+  const [greeting, ...rest] = stored.messages;
+  let conversation = createConversation(stored.title);
+  conversation = { ...conversation, id: stored.id, timestamp: stored.timestamp };
+  if (greeting) {
+    conversation = updateMessage(conversation, conversation.rootId, () => greeting);
+  }
+  let parentId = conversation.rootId;
+  for (const message of rest) {
+    const id = createMessageId();
+    conversation = addMessage(conversation, parentId, message, id);
+    parentId = id;
+  }
+  return conversation;
+};
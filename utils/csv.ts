@@ -0,0 +1,34 @@
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nested objects become dotted column names. Lists of plain values are joined with
+// "; " and anything more complex is kept as JSON in one cell.
+const flatten = (value: unknown, prefix: string, row: Record<string, string>) => {
+  if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) flatten(item, prefix ? `${prefix}.${key}` : key, row);
+  } else if (Array.isArray(value)) {
+    row[prefix] = value.every(item => !isRecord(item) && !Array.isArray(item))
+      ? value.map(item => item === null ? '' : String(item)).join('; ')
+      : JSON.stringify(value);
+  } else {
+    row[prefix] = value === null || value === undefined ? '' : String(value);
+  }
+};
+
+const escapeCell = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+/**
+ * Converts extracted data to CSV: one row per item of a list, or a single row for
+ * an object. Columns appear in the order their fields are first seen.
+ */
+export const toCsv = (data: unknown): string => {
+  const rows = (Array.isArray(data) ? data : [data]).map(item => {
+    const row: Record<string, string> = {};
+    flatten(item, isRecord(item) ? '' : 'value', row);
+    return row;
+  });
+  const columns = [...new Set<string>(rows.flatMap(row => Object.keys(row)))];
+  return [columns, ...rows.map(row => columns.map(column => row[column] ?? ''))]
+    .map(cells => cells.map(escapeCell).join(','))
+    .join('\r\n') + '\r\n';
+};
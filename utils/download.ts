@@ -0,0 +1,20 @@
+// Saves a blob through a temporary link, as the browser's download.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// A filesystem-friendly version of a title, for download names.
+export const toFileName = (title: string, fallback = 'untitled') =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || fallback;
+
+const AUDIO_EXTENSIONS: Record<string, string> = { 'audio/webm': 'webm', 'audio/ogg': 'ogg', 'audio/mp4': 'm4a', 'audio/wav': 'wav' };
+
+// For recordings, whose type depends on what the browser's MediaRecorder produces.
+export const audioExtension = (mimeType: string) => AUDIO_EXTENSIONS[mimeType.split(';')[0]] ?? 'webm';
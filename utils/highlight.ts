@@ -0,0 +1,174 @@
+// A lightweight, regex-based syntax highlighter for fenced code blocks. It only
+// splits code into typed tokens; rendering (and escaping) is left to React.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'function' | 'tag' | 'attribute' | 'property';
+
+export interface HighlightToken {
+  type: TokenType;
+  text: string;
+}
+
+type Rule = [TokenType, RegExp];
+
+const words = (list: string) => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`, 'y');
+
+const C_COMMENTS: Rule[] = [['comment', /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/y]];
+const HASH_COMMENTS: Rule[] = [['comment', /#.*/y]];
+const QUOTED_STRINGS: Rule[] = [['string', /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/y]];
+const NUMBERS: Rule[] = [['number', /\b(?:0x[\da-f_]+|0b[01_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)[a-z]*\b/iy]];
+const FUNCTION_CALLS: Rule[] = [['function', /\b[A-Za-z_$][\w$]*(?=\s*\()/y]];
+
+const JS_KEYWORDS = 'async await break case catch class const continue debugger default delete do else export extends finally for from function get if implements import in instanceof interface let new of private protected public readonly return set static super switch this throw try type typeof var void while with yield enum declare namespace abstract as keyof satisfies';
+const JS_LITERALS = 'true false null undefined NaN Infinity';
+
+const javascript: Rule[] = [
+  ...C_COMMENTS,
+  ['string', /`(?:\\[\s\S]|[^`\\])*`?/y],
+  ...QUOTED_STRINGS,
+  ['keyword', words(JS_KEYWORDS)],
+  ['literal', words(JS_LITERALS)],
+  ...NUMBERS,
+  ...FUNCTION_CALLS,
+];
+
+const python: Rule[] = [
+  ...HASH_COMMENTS,
+  ['string', /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/iy],
+  ['string', /[rbfu]{0,2}(?:"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/iy],
+  ['keyword', words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case')],
+  ['literal', words('True False None self')],
+  ...NUMBERS,
+  ...FUNCTION_CALLS,
+];
+
+const cLike = (keywords: string, literals = 'true false null'): Rule[] => [
+  ...C_COMMENTS,
+  ...QUOTED_STRINGS,
+  ['string', /`[^`]*`?/y],
+  ['keyword', words(keywords)],
+  ['literal', words(literals)],
+  ...NUMBERS,
+  ...FUNCTION_CALLS,
+];
+
+const java = cLike('abstract assert boolean break byte case catch char class const continue default do double else enum extends final finally float for if implements import instanceof int interface long native new package private protected public return short static super switch synchronized this throw throws try var void volatile while record');
+const c = cLike('auto break case char const continue default do double else enum extern float for goto if inline int long register return short signed sizeof static struct switch typedef union unsigned void volatile while class namespace template typename public private protected virtual override new delete using std include define', 'true false NULL nullptr');
+const csharp = cLike('abstract as async await base bool break byte case catch char class const continue decimal default delegate do double else enum event explicit extern finally fixed float for foreach if implicit in int interface internal is lock long namespace new object operator out override params private protected public readonly ref return sealed short static string struct switch this throw try typeof uint ulong using var virtual void while');
+const go = cLike('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var string int int64 float64 bool error byte rune', 'true false nil iota');
+const rust = cLike('as async await break const continue crate else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while dyn i32 i64 u8 u32 u64 usize f32 f64 bool str String Vec Option Result', 'true false None Some Ok Err');
+const kotlin = cLike('as break class continue do else for fun if in interface is object package return super this throw try typealias val var when while data sealed override private public internal open suspend import', 'true false null');
+const swift = cLike('as break case catch class continue default defer do else enum extension for func guard if import in init let protocol return self static struct switch throw throws try var where while', 'true false nil');
+
+const php: Rule[] = [
+  ...C_COMMENTS,
+  ...HASH_COMMENTS,
+  ...QUOTED_STRINGS,
+  ['property', /\$[A-Za-z_]\w*/y],
+  ['keyword', words('abstract and array as break case catch class clone const continue declare default do echo else elseif empty endif endforeach endwhile extends final finally fn for foreach function global if implements include include_once instanceof interface isset list match namespace new or print private protected public require require_once return static switch throw trait try unset use var while yield')],
+  ['literal', words('true false null TRUE FALSE NULL')],
+  ...NUMBERS,
+  ...FUNCTION_CALLS,
+];
+
+const shell: Rule[] = [
+  ...HASH_COMMENTS,
+  ...QUOTED_STRINGS,
+  ['property', /\$\{?[A-Za-z_]\w*\}?|\$[0-9@#?*$!-]/y],
+  ['keyword', words('if then else elif fi for while until do done case esac in function return export local readonly unset shift exit source alias sudo cd echo')],
+  ['attribute', /(?<=\s)--?[A-Za-z][\w-]*/y],
+  ...NUMBERS,
+];
+
+const sql: Rule[] = [
+  ['comment', /--.*|\/\*[\s\S]*?(?:\*\/|$)/y],
+  ...QUOTED_STRINGS,
+  ['keyword', new RegExp(`\\b(?:${'select from where and or not insert into values update set delete create table alter drop index view join left right inner outer full on as group by order having limit offset union all distinct case when then else end primary key foreign references default null is in like between exists returning with asc desc count sum avg min max'.split(' ').join('|')})\\b`, 'iy')],
+  ...NUMBERS,
+  ...FUNCTION_CALLS,
+];
+
+const css: Rule[] = [
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  ...QUOTED_STRINGS,
+  ['keyword', /@[\w-]+/y],
+  ['property', /[\w-]+(?=\s*:)/y],
+  ['number', /#[\da-f]{3,8}\b|-?\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?/iy],
+  ['tag', /[.#]?[A-Za-z_][\w-]*(?=[^{};]*\{)/y],
+];
+
+const json: Rule[] = [
+  ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+  ['string', /"(?:\\.|[^"\\\n])*"?/y],
+  ['literal', words('true false null')],
+  ['number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy],
+];
+
+const yaml: Rule[] = [
+  ...HASH_COMMENTS,
+  ['property', /[\w.-]+(?=\s*:(?:\s|$))/y],
+  ...QUOTED_STRINGS,
+  ['literal', words('true false null yes no on off')],
+  ...NUMBERS,
+];
+
+const markup: Rule[] = [
+  ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+  ['tag', /<\/?[A-Za-z][\w:-]*|\/?>/y],
+  ['attribute', /[A-Za-z_:][\w:.-]*(?==)/y],
+  ['string', /"[^"]*"?|'[^']*'?/y],
+];
+
+const generic: Rule[] = [...C_COMMENTS, ...HASH_COMMENTS, ...QUOTED_STRINGS, ...NUMBERS];
+
+const LANGUAGE_RULES: Record<string, Rule[]> = {
+  javascript, js: javascript, jsx: javascript, mjs: javascript, cjs: javascript,
+  typescript: javascript, ts: javascript, tsx: javascript,
+  python, py: python,
+  java, c, h: c, cpp: c, 'c++': c, hpp: c, cc: c, csharp, cs: csharp, 'c#': csharp,
+  go, golang: go, rust, rs: rust, kotlin, kt: kotlin, swift, php,
+  bash: shell, sh: shell, shell, zsh: shell, console: shell,
+  sql, postgres: sql, mysql: sql, sqlite: sql,
+  css, scss: css, less: css,
+  json, jsonc: json,
+  yaml, yml: yaml,
+  html: markup, xml: markup, svg: markup, vue: markup,
+};
+
+const mergePlain = (tokens: HighlightToken[], text: string) => {
+  const last = tokens[tokens.length - 1];
+  if (last?.type === 'plain') {
+    last.text += text;
+  } else {
+    tokens.push({ type: 'plain', text });
+  }
+};
+
+export const highlight = (code: string, language: string): HighlightToken[] => {
+  const rules = LANGUAGE_RULES[language.toLowerCase()] ?? (language ? generic : []);
+  const tokens: HighlightToken[] = [];
+  let position = 0;
+
+  while (position < code.length) {
+    let matched = false;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        tokens.push({ type, text: match[0] });
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Consume a whole identifier at once so keywords are not matched mid-word.
+      const word = /[A-Za-z0-9_$]+|[\s\S]/y;
+      word.lastIndex = position;
+      const text = word.exec(code)![0];
+      mergePlain(tokens, text);
+      position += text.length;
+    }
+  }
+
+  return tokens;
+};
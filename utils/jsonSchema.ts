@@ -0,0 +1,139 @@
+import type { JsonSchema, JsonSchemaType } from '../types';
+
+export type JsonPath = (string | number)[];
+
+// Where a value departs from its schema. Missing required fields point at the field itself.
+export interface SchemaIssue {
+  path: JsonPath;
+  message: string;
+}
+
+const SCHEMA_TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+// Formats the model can be asked for and that are checked here.
+const FORMATS: Record<string, { label: string; test: (value: string) => boolean }> = {
+  'date': {
+    label: 'a date (YYYY-MM-DD)',
+    test: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  },
+  'date-time': {
+    label: 'a date and time',
+    test: value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)),
+  },
+  'email': {
+    label: 'an email address',
+    test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  },
+};
+
+// "customer.emails[2]", or "(root)" for the value itself.
+export const formatJsonPath = (path: JsonPath): string =>
+  path.length === 0
+    ? '(root)'
+    : path.map((segment, i) => typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`).join('');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `path` names the field being checked, in the terms of formatJsonPath.
+const checkSchema = (schema: unknown, path: JsonPath): JsonSchema => {
+  const fail = (problem: string): never => {
+    throw new Error(path.length === 0 ? `The schema ${problem}.` : `The schema for "${formatJsonPath(path)}" ${problem}.`);
+  };
+  if (!isRecord(schema)) fail('must be an object');
+  const raw = schema as Record<string, unknown>;
+  const types = raw.type === undefined ? [] : Array.isArray(raw.type) ? raw.type : [raw.type];
+  const unknown = types.find(type => !SCHEMA_TYPES.includes(type as JsonSchemaType));
+  if (unknown !== undefined) fail(`has an unknown type ${JSON.stringify(unknown)}`);
+  if (raw.properties !== undefined) {
+    if (!isRecord(raw.properties)) fail('needs "properties" to be an object');
+    for (const [key, property] of Object.entries(raw.properties as Record<string, unknown>)) {
+      checkSchema(property, [...path, key]);
+    }
+  }
+  if (raw.required !== undefined && !(Array.isArray(raw.required) && raw.required.every(key => typeof key === 'string'))) {
+    fail('needs "required" to be a list of field names');
+  }
+  if (raw.items !== undefined) checkSchema(raw.items, [...path, 0]);
+  if (raw.enum !== undefined && !Array.isArray(raw.enum)) fail('needs "enum" to be a list');
+  return raw as JsonSchema;
+};
+
+// Parses pasted JSON Schema text, throwing an Error that says what is wrong with it.
+export const parseJsonSchema = (text: string): JsonSchema => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The schema isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return checkSchema(parsed, []);
+};
+
+const typeOf = (value: unknown): JsonSchemaType =>
+  value === null ? 'null'
+  : Array.isArray(value) ? 'array'
+  : typeof value === 'number' ? (Number.isInteger(value) ? 'integer' : 'number')
+  : typeof value as JsonSchemaType;
+
+const matchesType = (value: unknown, type: JsonSchemaType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Checks a value against a schema and lists every problem found; none means it is valid.
+export const validateJson = (value: unknown, schema: JsonSchema, path: JsonPath = []): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const report = (message: string) => issues.push({ path, message });
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    report(`Expected ${types.join(' or ')}, got ${typeOf(value)}.`);
+    return issues;
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    report(`Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}.`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) report(`Must be at least ${schema.minLength} characters.`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) report(`Must be at most ${schema.maxLength} characters.`);
+    if (schema.pattern !== undefined) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) report(`Must match the pattern ${schema.pattern}.`);
+      } catch {
+        // An invalid pattern is the schema's problem, not the value's
+      }
+    }
+    const format = schema.format ? FORMATS[schema.format] : undefined;
+    if (format && !format.test(value)) report(`Must be ${format.label}.`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) report(`Must be at least ${schema.minimum}.`);
+    if (schema.maximum !== undefined && value > schema.maximum) report(`Must be at most ${schema.maximum}.`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) report(`Must have at least ${schema.minItems} items.`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) report(`Must have at most ${schema.maxItems} items.`);
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateJson(item, schema.items!, [...path, i])));
+    }
+  }
+
+  if (isRecord(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) issues.push({ path: [...path, key], message: 'This required field is missing.' });
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        issues.push(...validateJson(item, property, [...path, key]));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, key], message: "This field isn't in the schema." });
+      }
+    }
+  }
+  return issues;
+};
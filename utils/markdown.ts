@@ -0,0 +1,480 @@
+// A small GFM-flavoured Markdown parser. It produces a plain syntax tree that the
+// Markdown component renders as React elements, so raw HTML in a reply is never
+// injected into the page: it simply shows up as text.
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export interface ListItem {
+  // null for a plain item, true/false for a task list checkbox.
+  checked: boolean | null;
+  blocks: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  // `closed` is false while a fenced block is still streaming in.
+  | { type: 'code'; language: string; code: string; closed: boolean }
+  | { type: 'math'; tex: string }
+  | { type: 'blockquote'; blocks: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: string[]; rows: string[][] }
+  | { type: 'hr' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const HR = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*)|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const MATH_FENCE = /^\s*(\$\$|\\\[)/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], index: number) =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) && lines[index + 1].includes('-');
+
+// Lines that end a paragraph without a blank line in between.
+const startsBlock = (lines: string[], index: number) => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || HR.test(line) || BLOCKQUOTE.test(line)
+    || MATH_FENCE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: { lines: string[] }[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const marker = line.match(LIST_ITEM);
+    if (marker && Math.abs(marker[1].length - baseIndent) <= 1 && /\d/.test(marker[2]) === ordered) {
+      items.push({ lines: [marker[3] ?? ''] });
+      i++;
+      continue;
+    }
+    const current = items[items.length - 1];
+    if (isBlank(line)) {
+      // A blank line only continues the list if the next content belongs to it.
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      const nextLine = lines[next];
+      const nextMarker = nextLine?.match(LIST_ITEM);
+      const continues = nextLine !== undefined && (
+        indentOf(nextLine) > baseIndent ||
+        (!!nextMarker && Math.abs(nextMarker[1].length - baseIndent) <= 1 && /\d/.test(nextMarker[2]) === ordered)
+      );
+      if (!continues) break;
+      current.lines.push('');
+      i++;
+      continue;
+    }
+    if (indentOf(line) > baseIndent) {
+      // Continuation of the current item, dedented to its content column.
+      const contentIndent = Math.min(indentOf(line), baseIndent + first[2].length + 1);
+      current.lines.push(line.slice(contentIndent));
+      i++;
+      continue;
+    }
+    if (!isBlank(lines[i - 1]) && !startsBlock(lines, i)) {
+      // Lazy continuation of the item's paragraph.
+      current.lines.push(line.trim());
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const parsedItems: ListItem[] = items.map(item => {
+    const task = item.lines[0].match(/^\[([ xX])\]\s+/);
+    if (task) {
+      item.lines[0] = item.lines[0].slice(task[0].length);
+    }
+    return { checked: task ? task[1] !== ' ' : null, blocks: parseMarkdown(item.lines.join('\n')) };
+  });
+
+  return {
+    block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: parsedItems },
+    next: i,
+  };
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, marker, language] = fence;
+      const code: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        const trimmed = lines[i].trim();
+        if (trimmed.startsWith(marker[0].repeat(marker.length)) && /^(`+|~+)$/.test(trimmed)) {
+          closed = true;
+          i++;
+          break;
+        }
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', language: language.toLowerCase(), code: code.join('\n'), closed });
+      continue;
+    }
+
+    const mathFence = line.match(MATH_FENCE);
+    if (mathFence) {
+      const close = mathFence[1] === '$$' ? '$$' : '\\]';
+      const rest = line.trim().slice(mathFence[1].length);
+      if (rest.includes(close)) {
+        blocks.push({ type: 'math', tex: rest.slice(0, rest.indexOf(close)).trim() });
+        i++;
+        continue;
+      }
+      const tex: string[] = [rest];
+      i++;
+      while (i < lines.length && !lines[i].includes(close)) {
+        tex.push(lines[i]);
+        i++;
+      }
+      if (i < lines.length) {
+        tex.push(lines[i].slice(0, lines[i].indexOf(close)));
+        i++;
+      }
+      blocks.push({ type: 'math', tex: tex.join('\n').trim() });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] ?? '' });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align: TableAlign[] = splitTableRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => cells[column] ?? ''));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header, rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (BLOCKQUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', blocks: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+};
+
+const SAFE_LINK = /^(https?:|mailto:|#|\/(?!\/))/i;
+const SAFE_IMAGE = /^(https?:|data:image\/(png|jpe?g|gif|webp);)/i;
+const BARE_URL = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?"')\]]/;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~$<>]/;
+
+// Finds the index of the bracket matching `text[start]` (which must be '[').
+const findClosingBracket = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+// Parses "(url "optional title")" right after a link's closing bracket.
+const parseLinkTarget = (text: string, start: number): { href: string; end: number } | null => {
+  if (text[start] !== '(') return null;
+  const match = text.slice(start).match(/^\(\s*<?([^\s<>()]*(?:\([^\s()]*\)[^\s<>()]*)*)>?(?:\s+"[^"]*")?\s*\)/);
+  return match ? { href: match[1], end: start + match[0].length } : null;
+};
+
+const findEmphasisClose = (text: string, delimiter: string, from: number) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      // Delimiters inside code spans do not count.
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) i = close + run.length - 1;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && !/\s/.test(text[i - 1])) {
+      if (delimiter.length === 1 && text[i + 1] === delimiter) {
+        // Skip over a stronger run such as "**" when looking for "*".
+        i++;
+        continue;
+      }
+      if (delimiter[0] === '_' && /\w/.test(text[i + delimiter.length] ?? '')) continue;
+      return i;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && text[i + 1] === '\n') {
+      push({ type: 'break' });
+      i += 2;
+      continue;
+    }
+    if (char === '\\' && text[i + 1] === '(') {
+      const close = text.indexOf('\\)', i + 2);
+      if (close !== -1) {
+        push({ type: 'math', tex: text.slice(i + 2, close).trim() });
+        i = close + 2;
+        continue;
+      }
+    }
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = rest.match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (/^ .* $/.test(code)) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = close + run.length;
+      } else {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (char === '$') {
+      // "$$...$$" inline, or "$...$" following Pandoc's rules so that prices like
+      // "$5 and $10" are left alone.
+      const display = rest.match(/^\$\$([^$]+?)\$\$/);
+      if (display) {
+        push({ type: 'math', tex: display[1].trim() });
+        i += display[0].length;
+        continue;
+      }
+      const inline = rest.match(/^\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)\$(?!\d)/);
+      if (inline) {
+        push({ type: 'math', tex: inline[1] });
+        i += inline[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = rest.match(/^(\*\*|__|~~|\*|_)/);
+    if (emphasis && !/\s/.test(text[i + emphasis[1].length] ?? ' ')) {
+      const delimiter = emphasis[1];
+      const opensInsideWord = delimiter[0] === '_' && /\w/.test(text[i - 1] ?? '');
+      const close = opensInsideWord ? -1 : findEmphasisClose(text, delimiter, i + delimiter.length + 1);
+      if (close !== -1) {
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children: parseInline(text.slice(i + delimiter.length, close)) });
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const closeBracket = findClosingBracket(text, i + 1);
+      const target = closeBracket !== -1 ? parseLinkTarget(text, closeBracket + 1) : null;
+      if (target) {
+        const alt = text.slice(i + 2, closeBracket);
+        if (SAFE_IMAGE.test(target.href)) {
+          push({ type: 'image', src: target.href, alt });
+        } else {
+          buffer += alt;
+        }
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const closeBracket = findClosingBracket(text, i);
+      const target = closeBracket !== -1 ? parseLinkTarget(text, closeBracket + 1) : null;
+      if (target) {
+        const children = parseInline(text.slice(i + 1, closeBracket));
+        if (SAFE_LINK.test(target.href)) {
+          push({ type: 'link', href: target.href, children });
+        } else {
+          // Unsafe schemes such as javascript: keep their text but lose the link.
+          flush();
+          nodes.push(...children);
+        }
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = rest.match(/^<(https?:\/\/[^\s<>]+|mailto:[^\s<>]+)>/i);
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !/\w/.test(text[i - 1] ?? '')) {
+      const url = rest.match(BARE_URL);
+      if (url) {
+        push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+const countOutsideCode = (text: string, pattern: RegExp) =>
+  (text.replace(/`[^`]*`/g, '').match(pattern) || []).length;
+
+/**
+ * Closes inline markup left open at the end of a reply that is still streaming,
+ * so a half-received "**bold" renders as bold straight away instead of flashing
+ * raw asterisks until the closing marker arrives.
+ */
+export const closePendingMarkdown = (source: string): string => {
+  const fences = (source.match(/^ {0,3}(`{3,}|~{3,})/gm) || []).length;
+  if (fences % 2 === 1) return source; // Inside a code block; the fence is closed by the parser.
+
+  const lastBlockStart = source.lastIndexOf('\n\n') + 1;
+  const head = source.slice(0, lastBlockStart);
+  // Markers with nothing after them yet are dropped rather than closed.
+  let tail = source.slice(lastBlockStart).replace(/(\*{1,2}|_{1,2}|~{1,2}|`+|\$)$/, '');
+
+  if ((tail.match(/`/g) || []).length % 2 === 1) {
+    return head + tail + '`';
+  }
+  let suffix = '';
+  if (countOutsideCode(tail, /\*\*/g) % 2 === 1) suffix = '**' + suffix;
+  if (countOutsideCode(tail.replace(/\*\*/g, '').replace(/^\s*\*\s/gm, ''), /\*/g) % 2 === 1) suffix = '*' + suffix;
+  if (countOutsideCode(tail, /~~/g) % 2 === 1) suffix = '~~' + suffix;
+  tail = tail.replace(/\s+$/, match => (suffix ? '' : match));
+  return head + tail + suffix;
+};
@@ -0,0 +1,123 @@
+// Evaluates arithmetic without eval: numbers, + - * / % ^, parentheses, and a few
+// functions and constants. Throws an Error describing the first problem found.
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+type Token = { kind: 'number'; value: number } | { kind: 'name'; value: string } | { kind: 'op'; value: string };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/iy;
+  let index = 0;
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) throw new Error(`Unexpected "${expression.slice(index).trim()[0]}" in the expression.`);
+    if (match[1]) tokens.push({ kind: 'number', value: parseFloat(match[1]) });
+    else if (match[2]) tokens.push({ kind: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ kind: 'op', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}" in the expression.`);
+    position++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      value = op === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOp('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?, right-associative so 2^3^2 is 2^9
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp('^')) {
+      position++;
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) throw new Error('The expression ends too early.');
+    if (token.kind === 'number') return token.value;
+    if (token.kind === 'name') {
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new Error(`Unknown function or constant "${token.value}".`);
+      expect('(');
+      const argument = parseExpression();
+      expect(')');
+      return fn(argument);
+    }
+    if (token.value === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    throw new Error(`Unexpected "${token.value}" in the expression.`);
+  };
+
+  if (tokens.length === 0) throw new Error('The expression is empty.');
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}" in the expression.`);
+  return result;
+};
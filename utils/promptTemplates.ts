@@ -0,0 +1,23 @@
+// Saved prompts use {{name}} placeholders; the same name used twice is one variable.
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// The variable names in a prompt, in order of first use.
+export const getTemplateVariables = (text: string): string[] =>
+  [...new Set<string>([...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+export interface SlashQuery {
+  // What has been typed after the slash
+  query: string;
+  // Offset of the slash, where an inserted prompt starts
+  start: number;
+}
+
+// The slash command being typed just before the caret, if any. A slash only starts
+// a command at the beginning of the text or after whitespace, so paths and URLs don't.
+export const getSlashQuery = (value: string, caret: number): SlashQuery | null => {
+  const match = /(?:^|\s)\/([^\s/]*)$/.exec(value.slice(0, caret));
+  return match ? { query: match[1], start: caret - match[1].length - 1 } : null;
+};
@@ -0,0 +1,105 @@
+export interface SandboxResult {
+  // The value of the last expression, as JSON-friendly data
+  result: unknown;
+  logs: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Runs inside the worker. Loaded from a data: URL, so it runs at an opaque origin
+// and can't open the app's IndexedDB, caches or other storage, however it reaches
+// for them. The usual network and script loading globals are also hidden before
+// any user code runs, but that only deters: the originals are still reachable
+// through the prototype chain, and syntax such as import() can't be taken away.
+// The result goes back on a port only this script holds, so code calling
+// postMessage itself can't be mistaken for it.
+const WORKER_SOURCE = `
+for (const name of [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'WebTransport', 'EventSource', 'FontFace', 'fonts',
+  'indexedDB', 'caches', 'importScripts', 'BroadcastChannel', 'Worker', 'SharedWorker', 'navigator',
+]) {
+  try { Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false }); } catch {}
+}
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+};
+const toData = (value) => {
+  if (value === undefined) return null;
+  try { return JSON.parse(JSON.stringify(value)); } catch { return String(value); }
+};
+self.onmessage = async (event) => {
+  const port = event.ports[0];
+  self.onmessage = null;
+  const logs = [];
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    console[level] = (...args) => { logs.push(args.map(format).join(' ')); };
+  }
+  try {
+    const value = await (0, eval)(event.data);
+    port.postMessage({ ok: true, result: toData(value), logs });
+  } catch (error) {
+    port.postMessage({ ok: false, error: error instanceof Error ? error.name + ': ' + error.message : String(error), logs });
+  }
+};
+`;
+
+interface WorkerReply {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+  logs: string[];
+}
+
+const isWorkerReply = (data: unknown): data is WorkerReply =>
+  typeof data === 'object' && data !== null && typeof (data as WorkerReply).ok === 'boolean' &&
+  Array.isArray((data as WorkerReply).logs) && (data as WorkerReply).logs.every(line => typeof line === 'string');
+
+/**
+ * Evaluates JavaScript in a throwaway worker at an opaque origin, away from the
+ * page and the app's storage. It is terminated after `timeoutMs`. Rejects with the
+ * script's error.
+ */
+export const runInSandbox = (code: string, { timeoutMs = DEFAULT_TIMEOUT_MS, signal }: { timeoutMs?: number; signal?: AbortSignal } = {}): Promise<SandboxResult> =>
+  new Promise((resolve, reject) => {
+    // Unlike a blob: URL, which would share the app's origin
+    const worker = new Worker(`data:text/javascript;charset=utf-8,${encodeURIComponent(WORKER_SOURCE)}`);
+    const channel = new MessageChannel();
+
+    const finish = () => {
+      channel.port1.close();
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`The script didn't finish within ${timeoutMs / 1000} seconds.`));
+    }, timeoutMs);
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    channel.port1.onmessage = (event: MessageEvent<unknown>) => {
+      finish();
+      if (!isWorkerReply(event.data)) {
+        reject(new Error('The script returned an unexpected message.'));
+        return;
+      }
+      const { ok, result, logs, error = 'The script failed.' } = event.data;
+      if (ok) resolve({ result, logs });
+      else reject(new Error(logs.length ? `${error}\nConsole output:\n${logs.join('\n')}` : error));
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || 'The script could not be run.'));
+    };
+    worker.postMessage(code, [channel.port2]);
+  });
@@ -0,0 +1,137 @@
+import type { JsonSchema } from '../types';
+
+// The field types the visual schema editor offers. Dates and choices are strings
+// with a format or an enum; objects hold their own fields.
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'enum' | 'object';
+
+export interface SchemaField {
+  // Only for React keys; not part of the schema
+  id: string;
+  name: string;
+  type: FieldType;
+  description: string;
+  required: boolean;
+  // A list of values of the type rather than one
+  list: boolean;
+  // The choices of an enum field
+  options: string[];
+  // The fields of an object field
+  fields: SchemaField[];
+}
+
+// What the visual editor edits: the fields of one record, and whether the model
+// should return a list of such records.
+export interface SchemaDraft {
+  fields: SchemaField[];
+  asList: boolean;
+}
+
+export const FIELD_TYPES: { value: FieldType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'integer', label: 'Whole number' },
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'Choice' },
+  { value: 'object', label: 'Group' },
+];
+
+export const createField = (changes: Partial<SchemaField> = {}): SchemaField => ({
+  id: crypto.randomUUID(),
+  name: '',
+  type: 'string',
+  description: '',
+  required: false,
+  list: false,
+  options: [],
+  fields: [],
+  ...changes,
+});
+
+const recordSchema = (fields: SchemaField[]): JsonSchema => {
+  const named = fields.filter(field => field.name.trim());
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(named.map(field => [field.name.trim(), fieldSchema(field)])),
+  };
+  const required = named.filter(field => field.required).map(field => field.name.trim());
+  if (required.length > 0) schema.required = required;
+  return schema;
+};
+
+const valueSchema = (field: SchemaField): JsonSchema => {
+  switch (field.type) {
+    case 'date': return { type: 'string', format: 'date' };
+    case 'enum': return { type: 'string', enum: field.options.filter(option => option.trim()) };
+    case 'object': return recordSchema(field.fields);
+    default: return { type: field.type };
+  }
+};
+
+const fieldSchema = (field: SchemaField): JsonSchema => {
+  const value = valueSchema(field);
+  const schema: JsonSchema = field.list ? { type: 'array', items: value } : value;
+  if (field.description.trim()) schema.description = field.description.trim();
+  return schema;
+};
+
+// Fields without a name are left out.
+export const draftToSchema = ({ fields, asList }: SchemaDraft): JsonSchema =>
+  asList ? { type: 'array', items: recordSchema(fields) } : recordSchema(fields);
+
+const RECORD_KEYWORDS = ['type', 'properties', 'required', 'description'];
+
+const hasOnly = (schema: JsonSchema, keywords: string[]) =>
+  Object.keys(schema).every(keyword => keywords.includes(keyword));
+
+const readRecord = (schema: JsonSchema): SchemaField[] | null => {
+  if (schema.type !== 'object' || !hasOnly(schema, RECORD_KEYWORDS)) return null;
+  const required = schema.required ?? [];
+  const fields: SchemaField[] = [];
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const field = readField(name, property, required.includes(name));
+    if (!field) return null;
+    fields.push(field);
+  }
+  return fields;
+};
+
+const readValue = (schema: JsonSchema): Partial<SchemaField> | null => {
+  if (schema.type === 'object') {
+    const fields = readRecord(schema);
+    return fields && { type: 'object', fields };
+  }
+  if (schema.type === 'string' && schema.format === 'date' && hasOnly(schema, ['type', 'format', 'description'])) {
+    return { type: 'date' };
+  }
+  if (schema.type === 'string' && schema.enum && hasOnly(schema, ['type', 'enum', 'description'])) {
+    return schema.enum.every(option => typeof option === 'string') ? { type: 'enum', options: schema.enum as string[] } : null;
+  }
+  const simple = ['string', 'number', 'integer', 'boolean'] as const;
+  const type = simple.find(candidate => candidate === schema.type);
+  return type && hasOnly(schema, ['type', 'description']) ? { type } : null;
+};
+
+const readField = (name: string, schema: JsonSchema, required: boolean): SchemaField | null => {
+  const isList = schema.type === 'array';
+  if (isList && (!schema.items || !hasOnly(schema, ['type', 'items', 'description']))) return null;
+  const value = readValue(isList ? schema.items! : schema);
+  if (!value) return null;
+  // A list's description is kept on the list; its items don't have their own
+  if (isList && schema.items!.description) return null;
+  return createField({ ...value, name, required, list: isList, description: schema.description ?? '' });
+};
+
+/**
+ * Turns a JSON Schema back into editable fields. Returns null when the schema uses
+ * anything the visual editor can't show, so editing it there would lose information.
+ */
+export const schemaToDraft = (schema: JsonSchema): SchemaDraft | null => {
+  const asList = schema.type === 'array';
+  if (asList && !hasOnly(schema, ['type', 'items'])) return null;
+  // The record itself has nowhere to show a description
+  const record = asList ? schema.items : schema;
+  if (!record || record.description !== undefined) return null;
+  const fields = readRecord(record);
+  return fields && { fields, asList };
+};
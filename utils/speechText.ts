@@ -0,0 +1,59 @@
+const FENCE = '```';
+
+// Markdown that reads badly aloud: emphasis markers, heading and quote markers,
+// inline code ticks and link targets. Citations like [1] are dropped entirely.
+const toSpokenText = (markdown: string): string =>
+  markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\s*\[\d+\]/g, '')
+    .replace(/^\s{0,3}(#{1,6}|>)\s+/gm, '')
+    .replace(/[*_~`]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const LIST_MARKER_PATTERN = /^[ \t]{0,3}(?:[-*+]|\d+[.)])[ \t]+/gm;
+
+// A sentence ends at ., ! or ? (plus any closing quotes or brackets) followed by
+// whitespace, or at a line break.
+const SENTENCE_PATTERN = /[\s\S]*?(?:[.!?]+["'”’)\]]*(?=\s)|\n)/g;
+
+/**
+ * Takes the sentences that are complete so far off the front of a streamed reply.
+ * Returns them ready to speak along with the text still waiting for its ending.
+ * Code blocks are skipped, and nothing after an unclosed one is spoken until it
+ * closes. When `final` is set, whatever is left counts as the last sentence.
+ */
+export const takeSentences = (buffer: string, final = false): { sentences: string[]; rest: string } => {
+  let text = buffer;
+  let rest = '';
+  // Drop finished code blocks, then hold back an unfinished one
+  for (let start = text.indexOf(FENCE); start !== -1; start = text.indexOf(FENCE, start)) {
+    const end = text.indexOf(FENCE, start + FENCE.length);
+    if (end === -1) {
+      rest = text.slice(start);
+      text = text.slice(0, start);
+      break;
+    }
+    text = text.slice(0, start) + '\n' + text.slice(end + FENCE.length);
+  }
+
+  // List markers go first so "1." isn't taken for the end of a sentence
+  text = text.replace(LIST_MARKER_PATTERN, '');
+
+  const pieces: string[] = [];
+  let consumed = 0;
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    if (!match[0]) break;
+    pieces.push(match[0]);
+    consumed = match.index! + match[0].length;
+  }
+  if (final) {
+    pieces.push(text.slice(consumed));
+    return { sentences: pieces.map(toSpokenText).filter(Boolean), rest: '' };
+  }
+  return { sentences: pieces.map(toSpokenText).filter(Boolean), rest: text.slice(consumed) + rest };
+};
+
+// Splits a whole message for reading aloud, so playback can start after the first sentence.
+export const splitSentences = (markdown: string): string[] => takeSentences(markdown, true).sentences;
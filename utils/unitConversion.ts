@@ -0,0 +1,77 @@
+// Each unit's size in its dimension's base unit (metre, kilogram, litre, second,
+// metre per second, byte). Temperatures aren't proportional and are handled separately.
+const UNITS: Record<string, Record<string, number>> = {
+  length: {
+    mm: 0.001, cm: 0.01, m: 1, km: 1000,
+    in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852,
+  },
+  mass: {
+    mg: 1e-6, g: 0.001, kg: 1, t: 1000,
+    oz: 0.028349523125, lb: 0.45359237, st: 6.35029318,
+  },
+  volume: {
+    ml: 0.001, cl: 0.01, dl: 0.1, l: 1, m3: 1000,
+    tsp: 0.00492892159375, tbsp: 0.01478676478125, floz: 0.0295735295625,
+    cup: 0.2365882365, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784,
+  },
+  time: {
+    ms: 0.001, s: 1, min: 60, h: 3600, day: 86400, week: 604800, year: 31557600,
+  },
+  speed: {
+    'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 1852 / 3600, 'ft/s': 0.3048,
+  },
+  data: {
+    b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12,
+    kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4,
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm', kilometer: 'km', kilometers: 'km', kilometre: 'km', kilometres: 'km',
+  centimeter: 'cm', centimeters: 'cm', millimeter: 'mm', millimeters: 'mm',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg', kgs: 'kg', tonne: 't', tonnes: 't',
+  ounce: 'oz', ounces: 'oz', pound: 'lb', pounds: 'lb', lbs: 'lb', stone: 'st',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  gallon: 'gal', gallons: 'gal', quart: 'qt', quarts: 'qt', pint: 'pt', pints: 'pt', cups: 'cup',
+  second: 's', seconds: 's', sec: 's', minute: 'min', minutes: 'min', hour: 'h', hours: 'h', hr: 'h',
+  days: 'day', weeks: 'week', years: 'year',
+  kph: 'km/h', kmh: 'km/h', knots: 'knot', kn: 'knot',
+  byte: 'b', bytes: 'b',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+};
+
+const TEMPERATURES = ['c', 'f', 'k'];
+
+const normalize = (unit: string) => {
+  const key = unit.trim().toLowerCase();
+  return ALIASES[key] ?? key;
+};
+
+const toKelvin = (value: number, unit: string) =>
+  unit === 'c' ? value + 273.15 : unit === 'f' ? (value - 32) * 5 / 9 + 273.15 : value;
+
+const fromKelvin = (value: number, unit: string) =>
+  unit === 'c' ? value - 273.15 : unit === 'f' ? (value - 273.15) * 9 / 5 + 32 : value;
+
+// Throws an Error if either unit is unknown or they measure different things.
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const source = normalize(from);
+  const target = normalize(to);
+  if (TEMPERATURES.includes(source) || TEMPERATURES.includes(target)) {
+    if (!TEMPERATURES.includes(source) || !TEMPERATURES.includes(target)) {
+      throw new Error(`Can't convert between ${from} and ${to}.`);
+    }
+    return fromKelvin(toKelvin(value, source), target);
+  }
+  const dimension = Object.values(UNITS).find(units => source in units);
+  if (!dimension) throw new Error(`Unknown unit "${from}".`);
+  if (!(target in dimension)) {
+    throw new Error(Object.values(UNITS).some(units => target in units)
+      ? `Can't convert between ${from} and ${to}.`
+      : `Unknown unit "${to}".`);
+  }
+  return value * dimension[source] / dimension[target];
+};
+
+export const SUPPORTED_UNITS = [...Object.values(UNITS).flatMap(units => Object.keys(units)), ...TEMPERATURES];
@@ -0,0 +1,82 @@
+export const VIDEO_FRAME_MIME_TYPE = 'image/jpeg';
+// Longest side of a sent frame. Larger frames cost more tokens without helping
+// the model read text on a typical screen.
+const MAX_FRAME_SIZE = 1024;
+const JPEG_QUALITY = 0.7;
+
+export interface VideoCaptureOptions {
+  frameRate: number;
+  // Base64 JPEG data
+  onFrame: (data: string) => void;
+}
+
+export interface VideoCapture {
+  stop: () => void;
+}
+
+// Scales a frame down to fit MAX_FRAME_SIZE, keeping its aspect ratio.
+const fitFrame = (width: number, height: number, maxSize = MAX_FRAME_SIZE) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const encodeFrame = (canvas: HTMLCanvasElement): Promise<string | null> =>
+  new Promise(resolve => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        resolve(null);
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(typeof reader.result === 'string' ? reader.result.split(',')[1] ?? null : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    }, VIDEO_FRAME_MIME_TYPE, JPEG_QUALITY);
+  });
+
+/**
+ * Samples a camera or screen stream as downscaled JPEG frames. A frame is skipped
+ * while the previous one is still encoding, so a slow device sends fewer frames
+ * rather than a growing backlog. Stopping leaves the stream's tracks alone; they
+ * belong to the caller.
+ */
+export const startVideoCapture = async (stream: MediaStream, { frameRate, onFrame }: VideoCaptureOptions): Promise<VideoCapture> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not capture video frames.');
+  let encoding = false;
+  let stopped = false;
+
+  const captureFrame = async () => {
+    if (encoding || stopped || video.videoWidth === 0) return;
+    encoding = true;
+    try {
+      const { width, height } = fitFrame(video.videoWidth, video.videoHeight);
+      canvas.width = width;
+      canvas.height = height;
+      context.drawImage(video, 0, 0, width, height);
+      const data = await encodeFrame(canvas);
+      if (data && !stopped) onFrame(data);
+    } finally {
+      encoding = false;
+    }
+  };
+
+  captureFrame();
+  const timer = window.setInterval(captureFrame, 1000 / frameRate);
+
+  return {
+    stop: () => {
+      stopped = true;
+      window.clearInterval(timer);
+      video.pause();
+      video.srcObject = null;
+    },
+  };
+};
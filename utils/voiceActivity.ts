@@ -0,0 +1,57 @@
+// Client-side voice activity detection over 16-bit PCM frames. Each call takes the
+// previous state and one frame and returns the next state, with no other inputs,
+// so the same audio always gives the same decisions.
+
+export interface VadOptions {
+  // RMS level, from 0 to 1, that counts as speech starting
+  startThreshold: number;
+  // Below this a frame counts as silence. Lower than the start threshold, so
+  // speech that softens a little doesn't flicker on and off.
+  stopThreshold: number;
+  // How long the level must stay above the start threshold before speech starts,
+  // so clicks and taps are ignored
+  attackMs: number;
+  // How long silence must last before speech ends, so pauses between words
+  // don't end the turn
+  hangoverMs: number;
+}
+
+export interface VadState {
+  speaking: boolean;
+  // Time above the start threshold so far, while not speaking
+  loudMs: number;
+  // Time below the stop threshold so far, while speaking
+  quietMs: number;
+}
+
+export type VadSensitivity = 'low' | 'medium' | 'high';
+
+const BASE_OPTIONS = { attackMs: 60, hangoverMs: 700 };
+
+// Higher sensitivity picks up quieter speech, and more background noise with it.
+export const VAD_PRESETS: Record<VadSensitivity, VadOptions> = {
+  low: { ...BASE_OPTIONS, startThreshold: 0.05, stopThreshold: 0.025 },
+  medium: { ...BASE_OPTIONS, startThreshold: 0.025, stopThreshold: 0.012 },
+  high: { ...BASE_OPTIONS, startThreshold: 0.012, stopThreshold: 0.006 },
+};
+
+export const INITIAL_VAD_STATE: VadState = { speaking: false, loudMs: 0, quietMs: 0 };
+
+// Root mean square of the frame, scaled so full-scale samples are 1.
+export const pcmLevel = (frame: Int16Array): number => {
+  if (frame.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length) / 32768;
+};
+
+export const detectVoiceActivity = (state: VadState, frame: Int16Array, sampleRate: number, options: VadOptions): VadState => {
+  const frameMs = (frame.length / sampleRate) * 1000;
+  const level = pcmLevel(frame);
+  if (!state.speaking) {
+    const loudMs = level >= options.startThreshold ? state.loudMs + frameMs : 0;
+    return loudMs >= options.attackMs ? { speaking: true, loudMs: 0, quietMs: 0 } : { speaking: false, loudMs, quietMs: 0 };
+  }
+  const quietMs = level < options.stopThreshold ? state.quietMs + frameMs : 0;
+  return quietMs >= options.hangoverMs ? INITIAL_VAD_STATE : { speaking: true, loudMs: 0, quietMs };
+};